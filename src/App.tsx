@@ -1,12 +1,15 @@
-import { useState } from 'react'
 import MatrixFlopsCalculator from './components/MatrixFlopsCalculator'
 import DistributedOperations from './components/DistributedOperations'
 import ParallelismTypes from './components/ParallelismTypes'
+import TransformerFlopsEstimator from './components/TransformerFlopsEstimator'
+import { enumCodec, useUrlState } from './hooks/useUrlState'
 
-type Tab = 'calculator' | 'distributed' | 'parallelism'
+const tabs = ['calculator', 'transformer', 'distributed', 'parallelism'] as const
+type Tab = (typeof tabs)[number]
+const tabCodec = enumCodec(tabs)
 
 function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('calculator')
+  const [activeTab, setActiveTab] = useUrlState<Tab>('tab', 'calculator', tabCodec)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
@@ -36,6 +39,19 @@ function App() {
             >
               FLOPs Calculator
             </button>
+            <button
+              onClick={() => setActiveTab('transformer')}
+              className={`
+                px-6 py-3 rounded-md font-medium transition-all duration-200
+                ${
+                  activeTab === 'transformer'
+                    ? 'bg-blue-500 text-white shadow-md'
+                    : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+                }
+              `}
+            >
+              Transformer Estimator
+            </button>
             <button
               onClick={() => setActiveTab('distributed')}
               className={`
@@ -68,6 +84,8 @@ function App() {
         {/* Tab Content */}
         {activeTab === 'calculator' ? (
           <MatrixFlopsCalculator />
+        ) : activeTab === 'transformer' ? (
+          <TransformerFlopsEstimator />
         ) : activeTab === 'distributed' ? (
           <DistributedOperations />
         ) : (
@@ -0,0 +1,234 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  busBandwidthFactor,
+  estimateCollective,
+  type CollectiveOperation,
+} from '../utils/collectiveCost'
+import { formatExecutionTime } from '../utils/flops'
+
+interface CollectiveCostModelProps {
+  operation: CollectiveOperation
+}
+
+const linkPresets = [
+  { label: 'NVLink 4 (H100)', latencyUs: 3, bandwidthGBs: 450 },
+  { label: 'NVLink 3 (A100)', latencyUs: 3, bandwidthGBs: 300 },
+  { label: 'PCIe Gen5 x16', latencyUs: 5, bandwidthGBs: 64 },
+  { label: 'InfiniBand NDR', latencyUs: 6, bandwidthGBs: 50 },
+]
+
+const factorFormulas: Record<CollectiveOperation, string> = {
+  'all-reduce': '2(n−1)/n',
+  'all-gather': '(n−1)/n',
+  'reduce-scatter': '(n−1)/n',
+  gather: '(n−1)/n',
+  scatter: '(n−1)/n',
+  broadcast: '1',
+  reduce: '1',
+  'all-to-all': '(n−1)/n',
+}
+
+function formatBandwidth(bytesPerSecond: number): string {
+  return `${(bytesPerSecond / 1e9).toFixed(1)} GB/s`
+}
+
+export default function CollectiveCostModel({ operation }: CollectiveCostModelProps) {
+  const [messageMB, setMessageMB] = useState(256)
+  const [ranks, setRanks] = useState(8)
+  const [latencyUs, setLatencyUs] = useState(linkPresets[0].latencyUs)
+  const [bandwidthGBs, setBandwidthGBs] = useState(linkPresets[0].bandwidthGBs)
+
+  const valid = messageMB > 0 && ranks >= 2 && latencyUs >= 0 && bandwidthGBs > 0
+  const costs = valid
+    ? estimateCollective(operation, {
+        messageBytes: messageMB * 1e6,
+        ranks,
+        latency: latencyUs * 1e-6,
+        bandwidth: bandwidthGBs * 1e9,
+      })
+    : []
+  const fastest = costs.reduce<(typeof costs)[number] | null>(
+    (best, cost) => (best === null || cost.seconds < best.seconds ? cost : best),
+    null
+  )
+  const maxSeconds = Math.max(0, ...costs.map((cost) => cost.seconds))
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="mt-6 bg-white rounded-lg p-5 border border-gray-200 shadow-sm space-y-4">
+      <div>
+        <h4 className="text-lg font-semibold text-gray-800 mb-1">Time Estimate (α-β Model)</h4>
+        <p className="text-sm text-gray-600">
+          Each message costs α (latency) plus bytes × β (1 / link bandwidth). S is the full buffer size and n the
+          number of ranks.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor="cost-message" className="block text-xs font-medium text-gray-700 mb-1">
+            Message Size S (MB)
+          </label>
+          <input
+            id="cost-message"
+            type="number"
+            min="0"
+            value={messageMB}
+            onChange={(e) => setMessageMB(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="cost-ranks" className="block text-xs font-medium text-gray-700 mb-1">
+            Ranks n
+          </label>
+          <input
+            id="cost-ranks"
+            type="number"
+            min="2"
+            value={ranks}
+            onChange={(e) => setRanks(parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="cost-latency" className="block text-xs font-medium text-gray-700 mb-1">
+            Link Latency α (µs)
+          </label>
+          <input
+            id="cost-latency"
+            type="number"
+            min="0"
+            step="0.5"
+            value={latencyUs}
+            onChange={(e) => setLatencyUs(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="cost-bandwidth" className="block text-xs font-medium text-gray-700 mb-1">
+            Link Bandwidth (GB/s)
+          </label>
+          <input
+            id="cost-bandwidth"
+            type="number"
+            min="0"
+            value={bandwidthGBs}
+            onChange={(e) => setBandwidthGBs(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {linkPresets.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => {
+              setLatencyUs(preset.latencyUs)
+              setBandwidthGBs(preset.bandwidthGBs)
+            }}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-all duration-200 ${
+              preset.latencyUs === latencyUs && preset.bandwidthGBs === bandwidthGBs
+                ? 'bg-blue-500 text-white shadow-md'
+                : 'bg-gray-100 text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {!valid ? (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600">
+          Enter a positive message size and bandwidth, and at least 2 ranks.
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Algorithm</th>
+                  <th className="py-2 pr-4">Cost</th>
+                  <th className="py-2 pr-4 text-right">Latency Term</th>
+                  <th className="py-2 pr-4 text-right">Bandwidth Term</th>
+                  <th className="py-2 pr-4 text-right">Time</th>
+                  <th className="py-2 pr-4 text-right">Alg BW</th>
+                  <th className="py-2 text-right">Bus BW</th>
+                </tr>
+              </thead>
+              <tbody>
+                {costs.map((cost) => (
+                  <tr
+                    key={cost.algorithm}
+                    className={`border-b last:border-b-0 ${cost === fastest ? 'bg-green-50' : ''}`}
+                  >
+                    <td className="py-2 pr-4 font-medium text-gray-800">
+                      {cost.label}
+                      {cost === fastest && <span className="ml-2 text-xs text-green-700">fastest</span>}
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs text-gray-600">{cost.formula}</td>
+                    <td className="py-2 pr-4 text-right font-mono">
+                      {formatExecutionTime(cost.latencySeconds).formatted}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono">
+                      {formatExecutionTime(cost.bandwidthSeconds).formatted}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono font-semibold">
+                      {formatExecutionTime(cost.seconds).formatted}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono">{formatBandwidth(cost.algBandwidth)}</td>
+                    <td className="py-2 text-right font-mono">{formatBandwidth(cost.busBandwidth)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Stacked bars: latency (amber) and bandwidth (blue) share of each algorithm's time */}
+          <div className="space-y-2">
+            {costs.map((cost) => (
+              <div key={cost.algorithm} className="flex items-center gap-3 text-sm">
+                <div className="w-40 text-gray-700">{cost.label}</div>
+                <div className="flex-1 bg-gray-100 rounded-full h-4 overflow-hidden flex">
+                  <motion.div
+                    className="bg-amber-400 h-4"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(cost.latencySeconds / maxSeconds) * 100}%` }}
+                    transition={{ duration: 0.4 }}
+                  />
+                  <motion.div
+                    className="bg-blue-500 h-4"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(cost.bandwidthSeconds / maxSeconds) * 100}%` }}
+                    transition={{ duration: 0.4 }}
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-4 text-xs text-gray-500">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 bg-amber-400 rounded-sm"></span>Latency (α)
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 bg-blue-500 rounded-sm"></span>Bandwidth (β)
+              </span>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 leading-relaxed">
+            Alg BW = S / time. Bus BW = Alg BW × {factorFormulas[operation]} (
+            {busBandwidthFactor(operation, ranks).toFixed(3)} for n = {ranks}), the correction nccl-tests applies
+            so the figure is comparable with the link bandwidth regardless of rank count. Ring and tree assume
+            the buffer is pipelined in small chunks; direct assumes a full-bisection switch; recursive doubling
+            assumes n is a power of two.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
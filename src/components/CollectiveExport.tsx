@@ -0,0 +1,266 @@
+import { useRef, useState } from 'react'
+import { flushSync } from 'react-dom'
+import NVLinkConnections from './NVLinkConnections'
+import { simulateSchedule, type CollectiveSchedule, type Reducer } from '../utils/collectiveSchedule'
+import type { TopologyId } from '../data/topologies'
+
+interface FlowStep {
+  from: string
+  to: string
+  label: string
+  operation?: string
+}
+
+interface CollectiveExportProps {
+  title: string
+  schedule: CollectiveSchedule | null
+  inputs: number[][][] // Each rank's input matrix
+  reduction: Reducer & { label: string }
+  topology: TopologyId
+  nodes?: number
+  currentStep: number
+  stepMs: number
+}
+
+const DIAGRAM_WIDTH = 800 // Size of the NVLinkConnections svg
+const DIAGRAM_HEIGHT = 260
+const FLOW_ROW_HEIGHT = 44
+const CAPTION_HEIGHT = 64
+const MAX_FRAMES = 240
+const MAX_FLOW_ROWS = 24
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function rankList(ranks: number[]): string {
+  const unique = [...new Set(ranks)].sort((a, b) => a - b)
+  return unique.length <= 3 ? `GPU ${unique.join(', ')}` : `${unique.length} GPUs`
+}
+
+// One row per schedule step that moves data, summarizing its transfers
+function scheduleFlowSteps(schedule: CollectiveSchedule, reductionLabel: string): FlowStep[] {
+  return schedule.steps.flatMap((step, idx) => {
+    const transfers = step.filter((t) => t.src !== t.dst)
+    if (transfers.length === 0) return []
+    const reduces = transfers.some((t) => t.op === 'reduce')
+    return [
+      {
+        from: rankList(transfers.map((t) => t.src)),
+        to: rankList(transfers.map((t) => t.dst)),
+        label: `Step ${idx + 1}: ${transfers.length} chunk${transfers.length === 1 ? '' : 's'}`,
+        operation: reduces ? reductionLabel : undefined,
+      },
+    ]
+  })
+}
+
+// The flow rows as SVG elements, starting at y = 0
+function flowDiagramMarkup(steps: FlowStep[]): string {
+  return steps
+    .map((step, idx) => {
+      const y = idx * FLOW_ROW_HEIGHT
+      const label = step.operation ? `${step.label} (${step.operation})` : step.label
+      return `<g transform="translate(0, ${y})">
+  <circle cx="14" cy="18" r="10" fill="#2563eb"/>
+  <text x="14" y="22" text-anchor="middle" font-size="11" font-weight="700" fill="#fff">${idx + 1}</text>
+  <rect x="32" y="4" width="130" height="28" rx="6" fill="#3b82f6"/>
+  <text x="97" y="22" text-anchor="middle" font-size="12" font-weight="700" fill="#fff">${escapeXml(step.from)}</text>
+  <line x1="170" y1="18" x2="${DIAGRAM_WIDTH - 330}" y2="18" stroke="#2563eb" stroke-width="2" marker-end="url(#arrow)"/>
+  <rect x="${DIAGRAM_WIDTH - 320}" y="4" width="130" height="28" rx="6" fill="#10b981"/>
+  <text x="${DIAGRAM_WIDTH - 255}" y="22" text-anchor="middle" font-size="12" font-weight="700" fill="#fff">${escapeXml(step.to)}</text>
+  <text x="${DIAGRAM_WIDTH - 170}" y="22" font-size="12" font-family="monospace" fill="#1f2937">${escapeXml(label)}</text>
+</g>`
+    })
+    .join('\n')
+}
+
+function svgDocument(height: number, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${DIAGRAM_WIDTH} ${height}" width="${DIAGRAM_WIDTH}" height="${height}" font-family="sans-serif">
+<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0 0L10 5L0 10z" fill="#2563eb"/></marker></defs>
+<rect width="100%" height="100%" fill="#fff"/>
+${body}
+</svg>`
+}
+
+// Browsers can't encode GIFs natively, so the step sequence is recorded from a canvas as video
+async function recordFrames(frames: string[], frameMs: number, onFrame: (frame: number) => void) {
+  const mimeType =
+    typeof MediaRecorder === 'undefined'
+      ? undefined
+      : ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'].find((type) => MediaRecorder.isTypeSupported(type))
+  if (!mimeType) throw new Error('This browser cannot record video from a canvas.')
+
+  const images = await Promise.all(
+    frames.map(
+      (svg) =>
+        new Promise<HTMLImageElement>((resolve, reject) => {
+          const image = new Image()
+          image.onload = () => resolve(image)
+          image.onerror = () => reject(new Error('Could not render an animation frame.'))
+          image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+        })
+    )
+  )
+
+  const canvas = document.createElement('canvas')
+  canvas.width = images[0].width
+  canvas.height = images[0].height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available.')
+
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => chunks.push(event.data)
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve))
+
+  recorder.start()
+  for (let frame = 0; frame < images.length; frame++) {
+    context.drawImage(images[frame], 0, 0)
+    onFrame(frame)
+    await new Promise((resolve) => setTimeout(resolve, frameMs))
+  }
+  recorder.stop()
+  await stopped
+
+  return { blob: new Blob(chunks, { type: mimeType }), extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm' }
+}
+
+export default function CollectiveExport({
+  title,
+  schedule,
+  inputs,
+  reduction,
+  topology,
+  nodes,
+  currentStep,
+  stepMs,
+}: CollectiveExportProps) {
+  const [status, setStatus] = useState<string | null>(null)
+  const [recording, setRecording] = useState(false)
+  // Step the hidden still diagram is rendered at while an export serializes it
+  const [snapshotStep, setSnapshotStep] = useState<number | null>(null)
+  const snapshotRef = useRef<HTMLDivElement>(null)
+
+  if (!schedule) return null
+
+  const maxStep = schedule.steps.length
+  const filename = `${schedule.operation}-${schedule.ranks}gpus`
+  const topologyMarkup = (step: number) => {
+    flushSync(() => setSnapshotStep(step))
+    const svg = snapshotRef.current?.querySelector('svg')
+    if (!svg) throw new Error('Could not render the interconnect diagram.')
+    return new XMLSerializer().serializeToString(svg)
+  }
+
+  const exportSvg = () => {
+    const flowSteps = scheduleFlowSteps(schedule, reduction.label)
+    const shown = flowSteps.slice(0, MAX_FLOW_ROWS)
+    const more =
+      flowSteps.length > shown.length
+        ? `<text x="16" y="${shown.length * FLOW_ROW_HEIGHT + 14}" font-size="12" fill="#4b5563">+${
+            flowSteps.length - shown.length
+          } more steps</text>`
+        : ''
+    const flowHeight = shown.length * FLOW_ROW_HEIGHT + (more ? 20 : 0)
+    try {
+      const body = `<text x="16" y="28" font-size="18" font-weight="700" fill="#1f2937">${escapeXml(title)}</text>
+<g transform="translate(0, 48)">${flowDiagramMarkup(shown)}${more}</g>
+<text x="16" y="${flowHeight + 76}" font-size="12" fill="#4b5563">Interconnect at step ${currentStep} of ${maxStep}</text>
+<g transform="translate(0, ${flowHeight + 88})">${topologyMarkup(currentStep)}</g>`
+      const svg = svgDocument(flowHeight + 88 + DIAGRAM_HEIGHT, body)
+      download(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`)
+      setStatus(null)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Export failed.')
+    } finally {
+      setSnapshotStep(null)
+    }
+  }
+
+  const exportJson = () => {
+    // Replay the whole schedule, keeping every step's payloads
+    const { payloads } = simulateSchedule(schedule, inputs, reduction, maxStep, maxStep)
+    const json = {
+      operation: schedule.operation,
+      ranks: schedule.ranks,
+      reduction: schedule.reduces ? reduction.label : undefined,
+      chunks: schedule.chunks.map((chunk, id) => ({ id, ...chunk })),
+      transfers: payloads.map(({ step, src, dst, chunk, op, values }) => ({ step, src, dst, chunk, op, values })),
+    }
+    download(new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' }), `${filename}.json`)
+  }
+
+  const exportVideo = async () => {
+    // Long cell-by-cell schedules are sampled so the clip stays short
+    const stride = Math.ceil((maxStep + 1) / MAX_FRAMES)
+    const steps = Array.from({ length: Math.floor(maxStep / stride) + 1 }, (_, i) => i * stride)
+    if (steps[steps.length - 1] !== maxStep) steps.push(maxStep)
+
+    setRecording(true)
+    try {
+      const frames = steps.map((step) => {
+        const transfers = (schedule.steps[step - 1] ?? []).filter((t) => t.src !== t.dst)
+        const caption = transfers
+          .slice(0, 4)
+          .map((t) => `GPU ${t.src} → GPU ${t.dst}: chunk ${t.chunk} (${t.op})`)
+          .join(' · ')
+        const more = transfers.length > 4 ? ` · +${transfers.length - 4} more` : ''
+        const body = `<text x="16" y="26" font-size="16" font-weight="700" fill="#1f2937">${escapeXml(title)} · step ${step} of ${maxStep}</text>
+<text x="16" y="48" font-size="11" fill="#4b5563">${escapeXml(step === 0 ? 'Initial buffers' : caption + more)}</text>
+<g transform="translate(0, ${CAPTION_HEIGHT})">${topologyMarkup(step)}</g>`
+        return svgDocument(CAPTION_HEIGHT + DIAGRAM_HEIGHT, body)
+      })
+      const { blob, extension } = await recordFrames(frames, Math.min(stepMs, 500), (frame) =>
+        setStatus(`Recording frame ${frame + 1} of ${frames.length}…`)
+      )
+      download(blob, `${filename}.${extension}`)
+      setStatus(null)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Recording failed.')
+    } finally {
+      setSnapshotStep(null)
+      setRecording(false)
+    }
+  }
+
+  const buttonClass =
+    'px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 bg-white border border-gray-300 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-4">
+      <span className="text-sm font-medium text-gray-700">Export:</span>
+      <button onClick={exportSvg} disabled={recording} className={buttonClass}>
+        SVG (flow + interconnect)
+      </button>
+      <button onClick={exportVideo} disabled={recording} className={buttonClass}>
+        Animation (video)
+      </button>
+      <button onClick={exportJson} disabled={recording} className={buttonClass}>
+        Schedule (JSON)
+      </button>
+      {status && <span className="text-xs text-gray-500">{status}</span>}
+      {snapshotStep !== null && (
+        <div ref={snapshotRef} className="hidden" aria-hidden>
+          <NVLinkConnections
+            schedule={schedule}
+            topology={topology}
+            nodes={nodes}
+            isPlaying={snapshotStep > 0}
+            currentStep={snapshotStep}
+            still
+          />
+        </div>
+      )}
+    </div>
+  )
+}
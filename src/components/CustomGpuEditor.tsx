@@ -0,0 +1,335 @@
+import { useRef, useState } from 'react'
+import {
+  CUSTOM_SERIES,
+  parseCustomGpusJson,
+  setCustomGpus,
+  validateGpu,
+} from '../data/customGpus'
+import type { NvidiaGpu, PrecisionKey, PrecisionPeak } from '../data/nvidiaGpus'
+import { useCustomGpus } from '../hooks/useCustomGpus'
+import { precisionTypes } from '../utils/flops'
+
+interface CustomGpuEditorProps {
+  onSave?: (gpu: NvidiaGpu) => void
+}
+
+type PeakDraft = Record<keyof PrecisionPeak, string>
+
+interface GpuDraft {
+  name: string
+  series: string
+  architecture: string
+  tflops: string
+  memoryGB: string
+  memoryBandwidth: string
+  releaseYear: string
+  peaks: Record<PrecisionKey, PeakDraft>
+}
+
+const peakUnits: Array<{ key: keyof PrecisionPeak; label: string }> = [
+  { key: 'cudaCore', label: 'CUDA' },
+  { key: 'tensorCore', label: 'Tensor' },
+  { key: 'tensorCoreSparse', label: 'Sparse' },
+]
+
+function emptyDraft(): GpuDraft {
+  const peaks = {} as Record<PrecisionKey, PeakDraft>
+  precisionTypes.forEach((precision) => {
+    peaks[precision.value] = { cudaCore: '', tensorCore: '', tensorCoreSparse: '' }
+  })
+  return {
+    name: '',
+    series: CUSTOM_SERIES,
+    architecture: '',
+    tflops: '',
+    memoryGB: '',
+    memoryBandwidth: '',
+    releaseYear: '',
+    peaks,
+  }
+}
+
+function draftFromGpu(gpu: NvidiaGpu): GpuDraft {
+  const draft = emptyDraft()
+  precisionTypes.forEach((precision) => {
+    const peak = gpu.peakThroughput[precision.value]
+    peakUnits.forEach((unit) => {
+      draft.peaks[precision.value][unit.key] = peak?.[unit.key]?.toString() ?? ''
+    })
+  })
+  return {
+    ...draft,
+    name: gpu.name,
+    series: gpu.series,
+    architecture: gpu.architecture,
+    tflops: gpu.tflops.toString(),
+    memoryGB: gpu.memory?.replace(/GB$/i, '') ?? '',
+    memoryBandwidth: gpu.memoryBandwidth.toString(),
+    releaseYear: gpu.releaseYear?.toString() ?? '',
+  }
+}
+
+function gpuFromDraft(draft: GpuDraft): NvidiaGpu {
+  const peakThroughput: NvidiaGpu['peakThroughput'] = {}
+  precisionTypes.forEach((precision) => {
+    const peak: PrecisionPeak = {}
+    peakUnits.forEach((unit) => {
+      const text = draft.peaks[precision.value][unit.key].trim()
+      if (text) peak[unit.key] = Number(text)
+    })
+    if (Object.keys(peak).length > 0) peakThroughput[precision.value] = peak
+  })
+
+  // FP32 CUDA-core rate doubles as the headline TFLOPS when not given separately, and vice versa
+  const tflops = Number(draft.tflops) || peakThroughput.fp32?.cudaCore || 0
+  if (!peakThroughput.fp32 && tflops > 0) peakThroughput.fp32 = { cudaCore: tflops }
+
+  return {
+    name: draft.name.trim(),
+    series: draft.series.trim() || CUSTOM_SERIES,
+    architecture: draft.architecture.trim(),
+    tflops,
+    peakThroughput,
+    memory: draft.memoryGB.trim() ? `${draft.memoryGB.trim()}GB` : undefined,
+    memoryBandwidth: Number(draft.memoryBandwidth),
+    releaseYear: draft.releaseYear.trim() ? Number(draft.releaseYear) : undefined,
+  }
+}
+
+export default function CustomGpuEditor({ onSave }: CustomGpuEditorProps) {
+  const customGpus = useCustomGpus()
+  const [draft, setDraft] = useState<GpuDraft>(emptyDraft)
+  const [editingName, setEditingName] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const updateDraft = (field: Exclude<keyof GpuDraft, 'peaks'>, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const updatePeak = (precision: PrecisionKey, unit: keyof PrecisionPeak, value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      peaks: { ...prev.peaks, [precision]: { ...prev.peaks[precision], [unit]: value } },
+    }))
+  }
+
+  const resetForm = () => {
+    setDraft(emptyDraft())
+    setEditingName(null)
+    setError(null)
+  }
+
+  const handleSave = () => {
+    const gpu = gpuFromDraft(draft)
+    const validationError = validateGpu(gpu)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    if (gpu.name !== editingName && customGpus.some((existing) => existing.name === gpu.name)) {
+      setError(`A custom GPU named '${gpu.name}' already exists`)
+      return
+    }
+
+    setCustomGpus(
+      editingName
+        ? customGpus.map((existing) => (existing.name === editingName ? gpu : existing))
+        : [...customGpus, gpu]
+    )
+    setMessage(`Saved ${gpu.name}`)
+    resetForm()
+    onSave?.(gpu)
+  }
+
+  const handleDelete = (name: string) => {
+    setCustomGpus(customGpus.filter((gpu) => gpu.name !== name))
+    if (editingName === name) resetForm()
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(customGpus, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'custom-gpus.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (file: File) => {
+    let text: string
+    try {
+      text = await file.text()
+    } catch {
+      setError('Import failed: File could not be read')
+      return
+    }
+    const parsed = parseCustomGpusJson(text)
+    if (typeof parsed === 'string') {
+      setError(`Import failed: ${parsed}`)
+      return
+    }
+    // Imported entries replace existing custom GPUs with the same name
+    const importedNames = new Set(parsed.map((gpu) => gpu.name))
+    setCustomGpus([...customGpus.filter((gpu) => !importedNames.has(gpu.name)), ...parsed])
+    setError(null)
+    setMessage(`Imported ${parsed.length} GPU${parsed.length === 1 ? '' : 's'}`)
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Custom Accelerators</h3>
+          <p className="text-xs text-gray-500">
+            Stored in this browser and listed under "{CUSTOM_SERIES}" in the GPU dropdown. A custom GPU with
+            the same name as a catalog entry replaces it.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 rounded-md text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Import JSON
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={customGpus.length === 0}
+            className="px-3 py-2 rounded-md text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImport(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+      </div>
+
+      {customGpus.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {customGpus.map((gpu) => (
+            <span
+              key={gpu.name}
+              className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
+                gpu.name === editingName ? 'bg-blue-100 text-blue-800' : 'bg-white border border-gray-200'
+              }`}
+            >
+              <button
+                onClick={() => {
+                  setDraft(draftFromGpu(gpu))
+                  setEditingName(gpu.name)
+                  setError(null)
+                }}
+                className="font-medium"
+              >
+                {gpu.name}
+              </button>
+              <button
+                onClick={() => handleDelete(gpu.name)}
+                aria-label={`Delete ${gpu.name}`}
+                className="text-gray-400 hover:text-red-500"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {([
+          { field: 'name', label: 'Name', placeholder: 'e.g. H200 SXM' },
+          { field: 'series', label: 'Series', placeholder: CUSTOM_SERIES },
+          { field: 'architecture', label: 'Architecture', placeholder: 'e.g. Hopper' },
+          { field: 'tflops', label: 'FP32 TFLOPS', placeholder: 'e.g. 67' },
+          { field: 'memoryGB', label: 'Memory (GB)', placeholder: 'e.g. 141' },
+          { field: 'memoryBandwidth', label: 'Bandwidth (GB/s)', placeholder: 'e.g. 4800' },
+          { field: 'releaseYear', label: 'Release Year', placeholder: 'e.g. 2024' },
+        ] as const).map((input) => (
+          <div key={input.field}>
+            <label htmlFor={`custom-gpu-${input.field}`} className="block text-xs font-medium text-gray-700 mb-1">
+              {input.label}
+            </label>
+            <input
+              id={`custom-gpu-${input.field}`}
+              type="text"
+              value={draft[input.field]}
+              placeholder={input.placeholder}
+              onChange={(e) => updateDraft(input.field, e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="py-1 pr-3">Peak TFLOPS / TOPS</th>
+              {peakUnits.map((unit) => (
+                <th key={unit.key} className="py-1 pr-3">
+                  {unit.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {precisionTypes.map((precision) => (
+              <tr key={precision.value}>
+                <td className="py-1 pr-3 font-medium text-gray-700">{precision.value.toUpperCase()}</td>
+                {peakUnits.map((unit) => (
+                  <td key={unit.key} className="py-1 pr-3">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      aria-label={`${precision.value} ${unit.label}`}
+                      value={draft.peaks[precision.value][unit.key]}
+                      onChange={(e) => updatePeak(precision.value, unit.key, e.target.value)}
+                      className={inputClass}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-1">Leave a cell empty when the precision is not supported on those units.</p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && !error && <p className="text-sm text-green-700">{message}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 rounded-md text-sm font-medium bg-blue-500 text-white shadow-md hover:bg-blue-600"
+        >
+          {editingName ? 'Update GPU' : 'Add GPU'}
+        </button>
+        {editingName && (
+          <button
+            onClick={resetForm}
+            className="px-4 py-2 rounded-md text-sm font-medium text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
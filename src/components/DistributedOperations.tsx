@@ -1,13 +1,38 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef, type CSSProperties } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { useUrlState, type UrlCodec } from '../hooks/useUrlState'
 import './DistributedOperations.css'
 import NVLinkConnections from './NVLinkConnections'
+import CollectiveCostModel from './CollectiveCostModel'
+import CollectiveExport from './CollectiveExport'
+import {
+  estimateCollective,
+  type CollectiveCostParams,
+  type CollectiveOperation,
+} from '../utils/collectiveCost'
+import {
+  blockMatrix,
+  buildSchedule,
+  chunkOfCell,
+  simulateSchedule,
+  type AllReduceAlgorithm,
+  type CollectiveSchedule,
+  type Payload,
+  type RankBuffer,
+} from '../utils/collectiveSchedule'
+import { formatExecutionTime } from '../utils/flops'
+import {
+  INFINIBAND_BANDWIDTH,
+  NVSWITCH_BANDWIDTH,
+  topologies,
+  type TopologyId,
+} from '../data/topologies'
 
 interface Operation {
   name: string
   description: string
   useCase: string
-  visualization: 'all-reduce' | 'all-gather' | 'gather' | 'scatter' | 'broadcast' | 'reduce'
+  visualization: CollectiveOperation
 }
 
 const operations: Operation[] = [
@@ -23,6 +48,12 @@ const operations: Operation[] = [
     useCase: 'Useful when all processes need access to data from all other processes, such as collecting embeddings from all GPUs.',
     visualization: 'all-gather',
   },
+  {
+    name: 'Reduce-Scatter',
+    description: 'Each process splits its data into chunks, and chunk i from every process is reduced onto process i. Each process ends up with one fully reduced chunk.',
+    useCase: 'The core of ZeRO and FSDP: gradients are reduce-scattered so each GPU only keeps the reduced shard it owns, and it is the first half of a ring all-reduce.',
+    visualization: 'reduce-scatter',
+  },
   {
     name: 'Gather',
     description: 'All processes send their data to a root process, which collects all the data. Only the root process receives the complete data.',
@@ -47,8 +78,64 @@ const operations: Operation[] = [
     useCase: 'Similar to gather but with a reduction operation applied. Used when only the root needs the aggregated result.',
     visualization: 'reduce',
   },
+  {
+    name: 'All-to-All',
+    description: 'Each process splits its data into chunks and sends chunk j to process j. Every process receives a different chunk from every other process.',
+    useCase: 'The core of expert parallelism (routing tokens to the GPUs that hold their experts) and of Ulysses sequence parallelism (switching from sequence to head sharding).',
+    visualization: 'all-to-all',
+  },
 ]
 
+// Selected operation in the URL, e.g. ?operation=all-gather
+const operationCodec: UrlCodec<Operation> = {
+  parse: (value) => operations.find((op) => op.visualization === value) ?? null,
+  serialize: (operation) => operation.visualization,
+}
+
+type ReductionOperator = 'sum' | 'max' | 'min' | 'prod' | 'avg'
+
+interface Reduction {
+  value: ReductionOperator
+  label: string
+  combine: (a: number, b: number) => number
+  finalize?: (value: number, ranks: number) => number // Applied once every rank's value is combined
+  expression: (terms: string[]) => string // Formula text for OperationExample
+}
+
+const reductions: Reduction[] = [
+  { value: 'sum', label: 'SUM', combine: (a, b) => a + b, expression: (terms) => `Σ(${terms.join(' + ')})` },
+  { value: 'max', label: 'MAX', combine: Math.max, expression: (terms) => `max(${terms.join(', ')})` },
+  { value: 'min', label: 'MIN', combine: Math.min, expression: (terms) => `min(${terms.join(', ')})` },
+  { value: 'prod', label: 'PROD', combine: (a, b) => a * b, expression: (terms) => terms.join(' × ') },
+  // Averaging sums first and divides by the rank count, like DDP gradient averaging
+  {
+    value: 'avg',
+    label: 'AVG',
+    combine: (a, b) => a + b,
+    finalize: (value, ranks) => value / ranks,
+    expression: (terms) => `(${terms.join(' + ')}) / ${terms.length}`,
+  },
+]
+
+const reducingOperations: CollectiveOperation[] = ['all-reduce', 'reduce-scatter', 'reduce']
+
+function reduceValues(values: number[], reduction: Reduction): number {
+  const combined = values.reduce(reduction.combine)
+  return reduction.finalize ? reduction.finalize(combined, values.length) : combined
+}
+
+function reduceMatrices(matrices: number[][][], reduction: Reduction): number[][] {
+  return matrices[0].map((row, i) => row.map((_, j) => reduceValues(matrices.map((m) => m[i][j]), reduction)))
+}
+
+// Keep averaged and product values readable inside a matrix cell
+function formatCellValue(value: number): string {
+  if (Math.abs(value) >= 1e5) return value.toExponential(1)
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
+
+const playbackSpeeds = [0.25, 0.5, 1, 2, 4]
+
 // Example matrices for demonstration
 const exampleMatrices = {
   A: [[1, 2, 3], [4, 5, 6], [7, 8, 9]],
@@ -58,49 +145,157 @@ const exampleMatrices = {
 }
 
 export default function DistributedOperations() {
-  const [selectedOperation, setSelectedOperation] = useState<Operation>(operations[0])
+  const [selectedOperation, setSelectedOperation] = useUrlState('operation', operations[0], operationCodec)
   const [animationKey, setAnimationKey] = useState(0)
   const [currentStep, setCurrentStep] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [completedCells, setCompletedCells] = useState<Set<string>>(new Set())
   const [showExplanation, setShowExplanation] = useState(true)
-
-  const handleOperationSelect = (operation: Operation) => {
-    setSelectedOperation(operation)
+  const [numProcesses, setNumProcesses] = useState(4)
+  const [matrixSize, setMatrixSize] = useState(3)
+  const [reduction, setReduction] = useState<Reduction>(reductions[0])
+  const [topology, setTopology] = useState<TopologyId>('nvswitch')
+  const [timeline, setTimeline] = useState<Timeline>({ schedule: null, stepMs: 800 })
+  const [isRunning, setIsRunning] = useState(false)
+  const [speed, setSpeed] = useState(1)
+
+  // Restart the animation whenever the operation changes, including via back/forward
+  const previousOperation = useRef(selectedOperation)
+  useEffect(() => {
+    if (previousOperation.current === selectedOperation) return
+    previousOperation.current = selectedOperation
     setAnimationKey((prev) => prev + 1)
     setCurrentStep(0)
     setIsPlaying(false)
+    setIsRunning(false)
     setCompletedCells(new Set())
     setShowExplanation(true)
+  }, [selectedOperation])
+
+  const maxStep = timeline.schedule?.steps.length ?? 0
+
+  // Auto-advance while running; `isPlaying` alone keeps the current step on screen
+  useEffect(() => {
+    if (!isRunning) return
+    if (currentStep >= maxStep) {
+      setIsRunning(false)
+      return
+    }
+    const timer = setTimeout(() => setCurrentStep(currentStep + 1), timeline.stepMs / speed)
+    return () => clearTimeout(timer)
+  }, [isRunning, currentStep, maxStep, timeline.stepMs, speed])
+
+  // Changing the layout restarts the animation from the first step
+  const handleLayoutChange = (ranks: number, size: number) => {
+    setNumProcesses(ranks)
+    setMatrixSize(size)
+    setAnimationKey((prev) => prev + 1)
+    resetAnimation()
   }
 
-  const startAnimation = () => {
-    setCurrentStep(0)
+  const handleOperationSelect = (operation: Operation) => {
+    setSelectedOperation(operation)
+  }
+
+  const seekTo = (step: number) => {
+    setCurrentStep(Math.max(0, Math.min(maxStep, step)))
     setIsPlaying(true)
-    setCompletedCells(new Set())
+    setShowExplanation(false)
+  }
+
+  // Resume from the current position, or start over once the end is reached
+  const togglePlayback = () => {
+    if (isRunning) {
+      setIsRunning(false)
+      return
+    }
+    if (!isPlaying || currentStep >= maxStep) {
+      setCurrentStep(0)
+      setCompletedCells(new Set())
+    }
+    setIsPlaying(true)
+    setIsRunning(true)
     setShowExplanation(false)
   }
 
   const resetAnimation = () => {
     setCurrentStep(0)
     setIsPlaying(false)
+    setIsRunning(false)
     setCompletedCells(new Set())
     setShowExplanation(true)
   }
 
+  // Shrink cells so a card stays about 150px wide whatever the tile size
+  const cellPx = Math.max(18, Math.min(40, Math.floor(150 / matrixSize)))
+  const layoutStyle = {
+    '--cell-size': `${cellPx}px`,
+    '--cell-font-size': `${Math.max(8, Math.round(cellPx * 0.3))}px`,
+  } as CSSProperties
+
   const nextStep = () => {
-    setCurrentStep((prev) => prev + 1)
-    setIsPlaying(true)
-    setShowExplanation(false)
+    setIsRunning(false)
+    seekTo(currentStep + 1)
   }
 
   const prevStep = () => {
-    if (currentStep > 0) {
-      setCurrentStep((prev) => prev - 1)
-      setIsPlaying(true)
+    setIsRunning(false)
+    seekTo(currentStep - 1)
+  }
+
+  const isPaused = !isRunning && isPlaying && currentStep > 0 && currentStep < maxStep
+  const playLabel = isRunning ? 'Pause' : isPaused ? 'Resume' : 'Auto Play'
+
+  const changeSpeed = (direction: 1 | -1) => {
+    const index = playbackSpeeds.indexOf(speed) + direction
+    setSpeed(playbackSpeeds[Math.max(0, Math.min(playbackSpeeds.length - 1, index))])
+  }
+
+  // Space plays/pauses, arrows step, Home/End jump, -/+ change speed
+  const shortcuts = useRef<(event: KeyboardEvent) => void>()
+  shortcuts.current = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+    if (event.metaKey || event.ctrlKey || event.altKey) return
+
+    switch (event.key) {
+      case ' ':
+        if (target.tagName === 'BUTTON') return
+        togglePlayback()
+        break
+      case 'ArrowRight':
+        nextStep()
+        break
+      case 'ArrowLeft':
+        prevStep()
+        break
+      case 'Home':
+        setIsRunning(false)
+        seekTo(0)
+        break
+      case 'End':
+        setIsRunning(false)
+        seekTo(maxStep)
+        break
+      case '-':
+        changeSpeed(-1)
+        break
+      case '+':
+      case '=':
+        changeSpeed(1)
+        break
+      default:
+        return
     }
+    event.preventDefault()
   }
 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => shortcuts.current?.(event)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="bg-white rounded-2xl shadow-xl p-8 space-y-8">
@@ -114,7 +309,7 @@ export default function DistributedOperations() {
         </div>
 
         {/* Operation Selector */}
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
           {operations.map((op) => (
             <button
               key={op.name}
@@ -146,8 +341,28 @@ export default function DistributedOperations() {
                 </p>
               </div>
               
+              {reducingOperations.includes(selectedOperation.visualization) && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <span className="text-sm font-medium text-gray-700">Reduction operator:</span>
+                  {reductions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setReduction(option)}
+                      className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+                        reduction.value === option.value
+                          ? 'bg-blue-500 text-white shadow-md'
+                          : 'bg-gray-100 text-gray-600 hover:text-gray-800'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Matrix Multiplication Example */}
-              <OperationExample operation={selectedOperation.visualization} />
+              <OperationExample operation={selectedOperation.visualization} reduction={reduction} />
+              <CollectiveCostModel operation={selectedOperation.visualization} />
             </div>
 
           {/* Step-by-Step Navigation */}
@@ -172,41 +387,122 @@ export default function DistributedOperations() {
                 </button>
                 <button
                   onClick={nextStep}
-                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium flex items-center gap-2"
+                  disabled={currentStep >= maxStep}
+                  className="disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium flex items-center gap-2"
                 >
                   Next
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                   </svg>
                 </button>
-                {!isPlaying ? (
-                  <button
-                    onClick={startAnimation}
-                    className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm font-medium"
-                  >
-                    Auto Play
-                  </button>
-                ) : (
+                <button
+                  onClick={togglePlayback}
+                  className={`px-4 py-2 text-white rounded-lg transition-colors text-sm font-medium ${
+                    isRunning ? 'bg-amber-500 hover:bg-amber-600' : 'bg-green-500 hover:bg-green-600'
+                  }`}
+                >
+                  {playLabel}
+                </button>
+                <button
+                  onClick={resetAnimation}
+                  disabled={!isPlaying}
+                  className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                >
+                  Reset
+                </button>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                aria-label="Timeline"
+                min="0"
+                max={maxStep}
+                value={Math.min(currentStep, maxStep)}
+                onChange={(e) => seekTo(parseInt(e.target.value))}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="text-sm text-gray-600 font-medium whitespace-nowrap">
+                Step {currentStep} / {maxStep}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+              <div className="flex items-center gap-1">
+                <span className="text-sm font-medium text-gray-700 mr-1">Speed:</span>
+                {playbackSpeeds.map((option) => (
                   <button
-                    onClick={resetAnimation}
-                    className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm font-medium"
+                    key={option}
+                    onClick={() => setSpeed(option)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium transition-all duration-200 ${
+                      speed === option
+                        ? 'bg-blue-500 text-white shadow-md'
+                        : 'bg-white border border-gray-300 text-gray-600 hover:text-gray-800'
+                    }`}
                   >
-                    Reset
+                    {option}×
                   </button>
-                )}
+                ))}
               </div>
+              <span className="text-xs text-gray-500">
+                Space play/pause · ←/→ step · Home/End jump · −/+ speed
+              </span>
             </div>
-            <div className="flex items-center gap-2">
-              <div className="flex-1 bg-gray-200 rounded-full h-2">
-                <motion.div
-                  className="bg-blue-500 h-2 rounded-full"
-                  initial={{ width: 0 }}
-                  animate={{ width: `${(currentStep / 50) * 100}%` }}
-                  transition={{ duration: 0.3 }}
+            <div className="grid sm:grid-cols-2 gap-4 mt-4">
+              <div>
+                <label htmlFor="viz-ranks" className="block text-sm font-medium text-gray-700 mb-1">
+                  GPUs: {numProcesses}
+                </label>
+                <input
+                  id="viz-ranks"
+                  type="range"
+                  min="2"
+                  max="16"
+                  value={numProcesses}
+                  onChange={(e) => handleLayoutChange(parseInt(e.target.value), matrixSize)}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label htmlFor="viz-tile" className="block text-sm font-medium text-gray-700 mb-1">
+                  Tile size: {matrixSize}×{matrixSize}
+                </label>
+                <input
+                  id="viz-tile"
+                  type="range"
+                  min="1"
+                  max="8"
+                  value={matrixSize}
+                  onChange={(e) => handleLayoutChange(numProcesses, parseInt(e.target.value))}
+                  className="w-full"
                 />
               </div>
-              <span className="text-sm text-gray-600 font-medium">Step {currentStep}</span>
             </div>
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <span className="text-sm font-medium text-gray-700">Interconnect:</span>
+              {topologies.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setTopology(option.id)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+                    topology === option.id
+                      ? 'bg-blue-500 text-white shadow-md'
+                      : 'bg-white border border-gray-300 text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <CollectiveExport
+              title={selectedOperation.name}
+              schedule={timeline.schedule}
+              inputs={generateProcesses(numProcesses, matrixSize).map((process) => process.matrix)}
+              reduction={reduction}
+              topology={timeline.topology ?? topology}
+              nodes={timeline.nodes}
+              currentStep={currentStep}
+              stepMs={timeline.stepMs}
+            />
           </div>
 
           {/* Step Explanation */}
@@ -223,8 +519,8 @@ export default function DistributedOperations() {
                 <div>
                   <h5 className="font-semibold text-amber-800 mb-1">Getting Started</h5>
                   <p className="text-sm text-amber-700">
-                    Click "Next" to step through the operation, or "Auto Play" to watch the full animation. 
-                    Watch how matrix values move between GPUs in real-time.
+                    Click "Next" to step through the operation, or "Auto Play" to watch the full animation.
+                    Drag the timeline to scrub, pause to hold a step, and change the speed at any time.
                   </p>
                 </div>
               </div>
@@ -232,13 +528,21 @@ export default function DistributedOperations() {
           )}
 
           {/* Visualization Container */}
-          <div className="visualization-container bg-gradient-to-br from-gray-50 via-blue-50 to-gray-100 rounded-xl p-8 min-h-[500px] relative overflow-hidden border border-gray-200">
+          <div
+            className="visualization-container bg-gradient-to-br from-gray-50 via-blue-50 to-gray-100 rounded-xl p-8 min-h-[500px] relative overflow-hidden border border-gray-200"
+            style={layoutStyle}
+          >
             <OperationVisualization
               key={animationKey}
               operation={selectedOperation.visualization}
+              numProcesses={numProcesses}
+              matrixSize={matrixSize}
+              reduction={reduction}
+              topology={topology}
               isPlaying={isPlaying}
               currentStep={currentStep}
               setCurrentStep={setCurrentStep}
+              onTimeline={setTimeline}
               completedCells={completedCells}
               setCompletedCells={setCompletedCells}
             />
@@ -251,41 +555,32 @@ export default function DistributedOperations() {
 
 interface OperationVisualizationProps {
   operation: string
+  numProcesses: number
+  matrixSize: number
+  reduction: Reduction
+  topology: TopologyId
   isPlaying: boolean
   currentStep: number
   setCurrentStep: (step: number) => void
+  onTimeline: (timeline: Timeline) => void
   completedCells: Set<string>
   setCompletedCells: (cells: Set<string> | ((prev: Set<string>) => Set<string>)) => void
 }
 
 function OperationVisualization({
   operation,
+  numProcesses,
+  matrixSize,
+  reduction,
+  topology,
   isPlaying,
   currentStep,
   setCurrentStep,
+  onTimeline,
   completedCells,
   setCompletedCells,
 }: OperationVisualizationProps) {
-  const numProcesses = 4
-  const matrixSize = 3
-
-  // Generate example matrices for each process
-  const generateMatrix = (processId: number) => {
-    const matrix: number[][] = []
-    for (let i = 0; i < matrixSize; i++) {
-      const row: number[] = []
-      for (let j = 0; j < matrixSize; j++) {
-        row.push(processId * 10 + i * matrixSize + j + 1)
-      }
-      matrix.push(row)
-    }
-    return matrix
-  }
-
-  const processes = Array.from({ length: numProcesses }, (_, i) => ({
-    id: i,
-    matrix: generateMatrix(i),
-  }))
+  const processes = generateProcesses(numProcesses, matrixSize)
 
   switch (operation) {
     case 'all-reduce':
@@ -295,8 +590,11 @@ function OperationVisualization({
           isPlaying={isPlaying}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
           completedCells={completedCells}
           setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
         />
       )
     case 'all-gather':
@@ -306,8 +604,25 @@ function OperationVisualization({
           isPlaying={isPlaying}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
           completedCells={completedCells}
           setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
+        />
+      )
+    case 'reduce-scatter':
+      return (
+        <ReduceScatterVisualization
+          processes={processes}
+          isPlaying={isPlaying}
+          currentStep={currentStep}
+          setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
+          completedCells={completedCells}
+          setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
         />
       )
     case 'gather':
@@ -317,8 +632,11 @@ function OperationVisualization({
           isPlaying={isPlaying}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
           completedCells={completedCells}
           setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
         />
       )
     case 'scatter':
@@ -328,8 +646,11 @@ function OperationVisualization({
           isPlaying={isPlaying}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
           completedCells={completedCells}
           setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
         />
       )
     case 'broadcast':
@@ -339,8 +660,11 @@ function OperationVisualization({
           isPlaying={isPlaying}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
           completedCells={completedCells}
           setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
         />
       )
     case 'reduce':
@@ -350,8 +674,25 @@ function OperationVisualization({
           isPlaying={isPlaying}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
           completedCells={completedCells}
           setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
+        />
+      )
+    case 'all-to-all':
+      return (
+        <AllToAllVisualization
+          processes={processes}
+          isPlaying={isPlaying}
+          currentStep={currentStep}
+          setCurrentStep={setCurrentStep}
+          onTimeline={onTimeline}
+          completedCells={completedCells}
+          setCompletedCells={setCompletedCells}
+          reduction={reduction}
+          topology={topology}
         />
       )
     default:
@@ -364,116 +705,607 @@ interface Process {
   matrix: number[][]
 }
 
+function cellsPerMatrix(processes: Process[]): number {
+  return processes[0].matrix.length * processes[0].matrix[0].length
+}
+
+// Trailing steps of a cell-by-cell schedule (one cell per step) whose payloads are animated:
+// a row's worth, so the flow shows the cells of about one matrix row in flight at once
+function rowTrail(cols: number): number {
+  return cols
+}
+
+// Example matrices for each process; the leading digits identify the GPU
+function generateProcesses(numProcesses: number, matrixSize: number): Process[] {
+  const processBase = 10 ** String(matrixSize * matrixSize).length
+  const generateMatrix = (processId: number) => {
+    const matrix: number[][] = []
+    for (let i = 0; i < matrixSize; i++) {
+      const row: number[] = []
+      for (let j = 0; j < matrixSize; j++) {
+        row.push(processId * processBase + i * matrixSize + j + 1)
+      }
+      matrix.push(row)
+    }
+    return matrix
+  }
+
+  return Array.from({ length: numProcesses }, (_, i) => ({
+    id: i,
+    matrix: generateMatrix(i),
+  }))
+}
+
+// A reducing schedule keeps a full buffer on every rank, so it can always be drawn as one matrix
+function reducedMatrix(schedule: CollectiveSchedule, buffer: RankBuffer, cols: number): number[][] {
+  return blockMatrix(schedule, buffer, 0, cols) ?? []
+}
+
+// Reported by each visualization so the transport bar knows how far it can scrub and what to export
+interface Timeline {
+  schedule: CollectiveSchedule | null
+  stepMs: number // Duration of one step at 1x speed
+  topology?: TopologyId // Set when the view draws its own interconnect rather than the selected one
+  nodes?: number
+}
+
 interface VisualizationProps {
   processes: Process[]
+  reduction: Reduction
+  topology: TopologyId
   isPlaying: boolean
   currentStep: number
   setCurrentStep: (step: number) => void
+  onTimeline: (timeline: Timeline) => void
   completedCells: Set<string>
   setCompletedCells: (cells: Set<string> | ((prev: Set<string>) => Set<string>)) => void
 }
 
-function AllReduceVisualization({
+function AllReduceVisualization(props: VisualizationProps) {
+  const [algorithm, setAlgorithm] = useState<AllReduceAlgorithm>('centralized')
+
+  const selectAlgorithm = (value: AllReduceAlgorithm) => {
+    setAlgorithm(value)
+    props.setCurrentStep(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-center gap-2">
+        {([
+          { value: 'centralized', label: 'Centralized' },
+          { value: 'ring', label: 'Ring (NCCL)' },
+          { value: 'hierarchical', label: 'Hierarchical (Multi-Node)' },
+        ] as const).map((option) => (
+          <button
+            key={option.value}
+            onClick={() => selectAlgorithm(option.value)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              algorithm === option.value
+                ? 'bg-blue-500 text-white shadow-md'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {algorithm === 'hierarchical' ? (
+        <HierarchicalAllReduceVisualization {...props} />
+      ) : algorithm === 'ring' ? (
+        <RingAllReduceVisualization {...props} />
+      ) : (
+        <CentralizedAllReduceVisualization {...props} />
+      )}
+    </div>
+  )
+}
+
+function CentralizedAllReduceVisualization({
   processes,
+  topology,
+  reduction,
   isPlaying,
   currentStep,
-  setCurrentStep,
+  onTimeline,
 }: VisualizationProps) {
-  // Calculate result (sum of all matrices)
-  const resultMatrix = processes[0].matrix.map((row, i) =>
-    row.map((_, j) =>
-      processes.reduce((sum, p) => sum + p.matrix[i][j], 0)
-    )
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  // One cell per step into GPU 0's buffer, then one per step back out
+  const schedule = useMemo(() => buildSchedule('all-reduce', { ranks: n, cellCount }), [n, cellCount])
+
+  useEffect(() => onTimeline({ schedule, stepMs: 800 }), [schedule, onTimeline])
+
+  const { buffers, payloads } = simulateSchedule(
+    schedule,
+    processes.map((p) => p.matrix),
+    reduction,
+    isPlaying ? currentStep : 0,
+    rowTrail(cols)
   )
-
-  const totalCells = processes.length * 9 // 4 processes * 9 cells each
-  const cellsPerStep = 3 // Process 3 cells at a time
-
-  useEffect(() => {
-    if (!isPlaying) return
-
-    const maxSteps = Math.ceil(totalCells / cellsPerStep) * 2 // Send + receive
-    if (currentStep < maxSteps) {
-      const timer = setTimeout(() => {
-        setCurrentStep(currentStep + 1)
-      }, 800) // Slow step-by-step: 800ms per step
-      return () => clearTimeout(timer)
-    }
-  }, [isPlaying, currentStep, totalCells, cellsPerStep, setCurrentStep])
-
-  // Calculate which cells should be animated
-  const getCellState = (_processId: number, _row: number, _col: number, _phase: 'send' | 'receive') => {
-    return { isActive: false, isCompleted: false }
-  }
+  const isReduced = (rank: number, row: number, col: number) =>
+    buffers[rank][row * cols + col]?.contributors.length === n
 
   return (
     <div className="distributed-viz">
       {/* NVLink Connections */}
-      <NVLinkConnections
-        processes={processes}
-        operation="all-reduce"
-        isPlaying={isPlaying}
-        currentStep={currentStep}
-      />
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
 
       {/* Source GPUs */}
       <div className="processes-container">
         {processes.map((process) => (
           <div key={process.id} className="process-card" data-position="top-left">
             <div className="process-label">GPU {process.id}</div>
-            <MatrixDisplay
-              matrix={process.matrix}
-              processId={process.id}
-              getCellState={(row, col) => getCellState(process.id, row, col, 'send')}
-              isPlaying={isPlaying}
-            />
+            <MatrixDisplay matrix={process.matrix} processId={process.id} isPlaying={isPlaying} />
           </div>
         ))}
       </div>
 
-      {/* Reduction Center */}
+      {/* Reduction Center: GPU 0's buffer as contributions arrive */}
       <motion.div
         initial={{ scale: 0.8, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         className="reduction-center"
       >
-        <div className="operation-label">SUM</div>
+        <div className="operation-label">{reduction.label} on GPU 0</div>
         <MatrixDisplay
-          matrix={resultMatrix}
+          matrix={reducedMatrix(schedule, buffers[0], cols)}
           highlight
           processId="center"
-          getCellState={(_row, _col) => {
-            const isActive = currentStep >= totalCells && isPlaying
+          getCellState={(row, col) => {
+            const isActive = isPlaying && isReduced(0, row, col)
             return { isActive, isCompleted: isActive }
           }}
           isPlaying={isPlaying}
         />
       </motion.div>
 
-      {/* Destination GPUs */}
-      <div className="processes-container">
-        {processes.map((process) => (
-          <div key={process.id} className="process-card" data-position="bottom">
-            <MatrixDisplay
-              matrix={resultMatrix}
-              processId={process.id}
-              getCellState={(row, col) => getCellState(process.id, row, col, 'receive')}
-              isPlaying={isPlaying}
-            />
-            <div className="process-label">GPU {process.id}</div>
+      {/* Destination GPUs */}
+      <div className="processes-container">
+        {processes.map((process) => (
+          <div key={process.id} className="process-card" data-position="bottom">
+            <MatrixDisplay
+              matrix={reducedMatrix(schedule, buffers[process.id], cols)}
+              processId={process.id}
+              getCellState={(row, col) => ({ isActive: false, isCompleted: isReduced(process.id, row, col) })}
+              isPlaying={isPlaying}
+            />
+            <div className="process-label">GPU {process.id}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Animated cells, drawn through the reduction center */}
+      {isPlaying && (
+        <AnimatedCellFlow
+          schedule={schedule}
+          payloads={payloads}
+          cols={cols}
+          anchorOf={(payload, end) =>
+            (end === 'dst' && payload.op === 'reduce') || (end === 'src' && payload.op === 'copy')
+              ? 'center'
+              : payload[end]
+          }
+        />
+      )}
+    </div>
+  )
+}
+
+const chunkColors = ['#bfdbfe', '#bbf7d0', '#fde68a', '#fbcfe8', '#ddd6fe', '#fed7aa', '#a5f3fc', '#fecaca']
+
+function chunkValues(matrix: number[][], chunk: number, chunks: number): number[] {
+  const cells = matrix.flat()
+  return cells.filter((_, idx) => chunkOfCell(idx, cells.length, chunks) === chunk)
+}
+
+interface ChunkedMatrixDisplayProps {
+  matrix: number[][]
+  chunks: number
+  processId: number | string
+  activeChunk?: number
+}
+
+// Matrix whose cells are coloured by the chunk they belong to
+function ChunkedMatrixDisplay({ matrix, chunks, processId, activeChunk }: ChunkedMatrixDisplayProps) {
+  const cols = matrix[0].length
+  const cellCount = matrix.length * cols
+  return (
+    <div className="matrix-display" data-process-id={processId}>
+      {matrix.map((row, i) => (
+        <div key={i} className="matrix-row">
+          {row.map((value, j) => {
+            const chunk = chunkOfCell(i * cols + j, cellCount, chunks)
+            const active = activeChunk === chunk
+            return (
+              <motion.div
+                key={j}
+                className="matrix-cell"
+                animate={{
+                  scale: active ? [1, 1.2, 1] : 1,
+                  backgroundColor: chunkColors[chunk % chunkColors.length],
+                }}
+                style={{ borderColor: active ? '#2563eb' : undefined }}
+                transition={{ duration: 0.4 }}
+              >
+                {formatCellValue(value)}
+              </motion.div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface ChunkContributorsProps {
+  buffer: RankBuffer
+  ranks: number
+  reduction: Reduction
+}
+
+// Which ranks have been reduced into each chunk; green once every rank has
+function ChunkContributors({ buffer, ranks, reduction }: ChunkContributorsProps) {
+  return (
+    <div className="w-full space-y-1 text-xs">
+      {buffer.map((state, chunk) => {
+        const contributors = state?.contributors ?? []
+        return (
+          <div key={chunk} className="flex items-center gap-1">
+            <span
+              className="w-3 h-3 rounded-sm flex-shrink-0"
+              style={{ backgroundColor: chunkColors[chunk % chunkColors.length] }}
+            ></span>
+            <span className={contributors.length === ranks ? 'font-semibold text-green-700' : 'text-gray-600'}>
+              C{chunk}: {reduction.label}(GPU {contributors.join(', ')})
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function RingAllReduceVisualization({
+  processes,
+  topology,
+  reduction,
+  isPlaying,
+  currentStep,
+  onTimeline,
+}: VisualizationProps) {
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(
+    () => buildSchedule('all-reduce', { ranks: n, cellCount, algorithm: 'ring' }),
+    [n, cellCount]
+  )
+  const maxSteps = schedule.steps.length
+  const step = Math.min(currentStep, maxSteps)
+  const { buffers } = simulateSchedule(schedule, processes.map((p) => p.matrix), reduction, step)
+  const transfers = step > 0 ? schedule.steps[step - 1] : []
+
+  useEffect(() => onTimeline({ schedule, stepMs: 800 }), [schedule, onTimeline])
+
+  const phaseLabel =
+    step === 0
+      ? `Each GPU splits its matrix into ${n} chunks`
+      : step <= n - 1
+      ? `Reduce-Scatter step ${step} of ${n - 1}: each GPU applies ${reduction.label} to the chunk received from its left neighbour`
+      : `All-Gather step ${step - (n - 1)} of ${n - 1}: each GPU forwards a fully reduced chunk`
+
+  return (
+    <div className="distributed-viz">
+      <div className="text-center">
+        <div className="text-sm font-semibold text-gray-800">{phaseLabel}</div>
+        <div className="text-xs text-gray-500 mt-1">
+          Ring order: {processes.map((p) => `GPU ${p.id}`).join(' → ')} → GPU 0
+        </div>
+      </div>
+
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
+
+      <div className="processes-container">
+        {processes.map((process) => {
+          const incoming = transfers.find((t) => t.dst === process.id)
+          return (
+            <div key={process.id} className={`process-card ${incoming ? 'active' : ''}`}>
+              <div className="process-label">GPU {process.id}</div>
+              <ChunkedMatrixDisplay
+                matrix={reducedMatrix(schedule, buffers[process.id], cols)}
+                chunks={n}
+                processId={process.id}
+                activeChunk={incoming?.chunk}
+              />
+              <ChunkContributors buffer={buffers[process.id]} ranks={n} reduction={reduction} />
+              {incoming && (
+                <div className="text-xs text-blue-600 font-medium">
+                  ← chunk {incoming.chunk} from GPU {incoming.src}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="text-xs text-gray-600 text-center max-w-2xl">
+        Each GPU sends {n - 1} chunks in the reduce-scatter phase and {n - 1} in the all-gather phase, so it
+        moves 2(N−1)/N of its matrix regardless of the number of GPUs. Green labels mark chunks reduced over
+        every GPU.
+      </div>
+    </div>
+  )
+}
+
+// α for the phase estimate, matching the NVLink 4 and InfiniBand NDR cost-model presets
+const NVLINK_LATENCY = 3e-6
+const INFINIBAND_LATENCY = 6e-6
+
+// Node counts the hierarchical view can split the GPUs into evenly
+function hierarchicalNodeOptions(ranks: number): number[] {
+  return [2, 3, 4].filter((nodes) => ranks % nodes === 0)
+}
+
+function HierarchicalAllReduceVisualization({
+  processes,
+  reduction,
+  isPlaying,
+  currentStep,
+  setCurrentStep,
+  onTimeline,
+}: VisualizationProps) {
+  const n = processes.length
+  const nodeOptions = hierarchicalNodeOptions(n)
+  const [selectedNodes, setSelectedNodes] = useState(2)
+  const nodes = nodeOptions.includes(selectedNodes) ? selectedNodes : nodeOptions[0]
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(
+    () =>
+      nodes === undefined ? null : buildSchedule('all-reduce', { ranks: n, cellCount, algorithm: 'hierarchical', nodes }),
+    [n, cellCount, nodes]
+  )
+  const maxSteps = schedule?.steps.length ?? 0
+  const step = Math.min(currentStep, maxSteps)
+
+  useEffect(
+    () => onTimeline({ schedule, stepMs: 1200, topology: 'infiniband', nodes }),
+    [schedule, nodes, onTimeline]
+  )
+
+  if (nodes === undefined || schedule === null) {
+    return (
+      <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 text-center">
+        Hierarchical all-reduce needs the GPUs to split evenly into 2, 3 or 4 nodes. Pick a GPU count divisible
+        by one of them.
+      </div>
+    )
+  }
+
+  const perNode = n / nodes
+  const { buffers } = simulateSchedule(schedule, processes.map((p) => p.matrix), reduction, step)
+  const phaseLabels = [
+    `${nodes} nodes × ${perNode} GPUs: each GPU splits its matrix into ${perNode} chunks, one per local rank`,
+    `Phase 1 · Intra-node Reduce-Scatter over NVLink: local rank l applies ${reduction.label} to chunk l within its node`,
+    `Phase 2 · Inter-node All-Reduce over InfiniBand: GPUs with the same local rank combine their chunk across nodes`,
+    'Phase 3 · Intra-node All-Gather over NVLink: each GPU collects the finished chunks from its node peers',
+  ]
+
+  return (
+    <div className="distributed-viz">
+      <div className="flex flex-wrap justify-center items-center gap-2 text-sm">
+        <span className="text-gray-600">Nodes:</span>
+        {nodeOptions.map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              setSelectedNodes(option)
+              setCurrentStep(0)
+            }}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+              option === nodes ? 'bg-purple-500 text-white shadow-md' : 'bg-gray-100 text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {option} × {n / option} GPUs
+          </button>
+        ))}
+      </div>
+
+      <div className="text-center text-sm font-semibold text-gray-800">{phaseLabels[step]}</div>
+
+      <NVLinkConnections
+        schedule={schedule}
+        topology="infiniband"
+        nodes={nodes}
+        isPlaying={isPlaying}
+        currentStep={currentStep}
+      />
+
+      <div className="flex flex-wrap justify-center gap-4 w-full">
+        {Array.from({ length: nodes }, (_, node) => (
+          <div key={node} className="border-2 border-dashed border-purple-300 rounded-xl p-3">
+            <div className="text-xs font-semibold text-purple-700 text-center mb-2">Node {node}</div>
+            <div className="processes-container">
+              {processes.slice(node * perNode, (node + 1) * perNode).map((process) => {
+                const local = process.id % perNode
+                return (
+                  <div key={process.id} className={`process-card ${step > 0 ? 'active' : ''}`}>
+                    <div className="process-label">
+                      GPU {process.id} <span className="text-gray-400">(local {local})</span>
+                    </div>
+                    <ChunkedMatrixDisplay
+                      matrix={reducedMatrix(schedule, buffers[process.id], cols)}
+                      chunks={perNode}
+                      processId={process.id}
+                      activeChunk={step === 1 || step === 2 ? local : undefined}
+                    />
+                    <ChunkContributors buffer={buffers[process.id]} ranks={n} reduction={reduction} />
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <HierarchicalPhaseEstimate ranks={n} nodes={nodes} step={step} />
+    </div>
+  )
+}
+
+interface HierarchicalPhaseEstimateProps {
+  ranks: number
+  nodes: number
+  step: number
+}
+
+// Ring α-β estimate of each phase for a real gradient buffer. Inside a node every GPU has its own
+// NVLink port; across nodes the G GPUs of a node share one NIC, so each gets 1/G of it.
+function HierarchicalPhaseEstimate({ ranks, nodes, step }: HierarchicalPhaseEstimateProps) {
+  const [messageMB, setMessageMB] = useState(1024)
+  const [nvlinkGBs, setNvlinkGBs] = useState(NVSWITCH_BANDWIDTH)
+  const [infinibandGBs, setInfinibandGBs] = useState(INFINIBAND_BANDWIDTH)
+
+  const perNode = ranks / nodes
+  const bytes = messageMB * 1e6
+  const ring = (operation: CollectiveOperation, params: CollectiveCostParams) =>
+    estimateCollective(operation, params).find((cost) => cost.algorithm === 'ring')?.seconds ?? 0
+  const intraNode = { messageBytes: bytes, ranks: perNode, latency: NVLINK_LATENCY, bandwidth: nvlinkGBs * 1e9 }
+
+  const valid = messageMB > 0 && nvlinkGBs > 0 && infinibandGBs > 0
+  const phases = valid
+    ? [
+        {
+          label: 'Intra-node Reduce-Scatter',
+          link: `NVLink, ${perNode} GPUs, S`,
+          seconds: ring('reduce-scatter', intraNode),
+        },
+        {
+          label: 'Inter-node All-Reduce',
+          link: `InfiniBand, ${nodes} nodes, S/${perNode} per GPU`,
+          seconds: ring('all-reduce', {
+            messageBytes: bytes / perNode,
+            ranks: nodes,
+            latency: INFINIBAND_LATENCY,
+            bandwidth: (infinibandGBs * 1e9) / perNode,
+          }),
+        },
+        {
+          label: 'Intra-node All-Gather',
+          link: `NVLink, ${perNode} GPUs, S`,
+          seconds: ring('all-gather', intraNode),
+        },
+      ]
+    : []
+  const total = phases.reduce((sum, phase) => sum + phase.seconds, 0)
+  const flatRing = valid
+    ? ring('all-reduce', { messageBytes: bytes, ranks, latency: INFINIBAND_LATENCY, bandwidth: infinibandGBs * 1e9 })
+    : 0
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="w-full bg-white rounded-lg p-5 border border-gray-200 shadow-sm space-y-4">
+      <div>
+        <h4 className="text-lg font-semibold text-gray-800 mb-1">Estimated Time per Phase</h4>
+        <p className="text-sm text-gray-600">
+          Ring α-β estimate for a gradient buffer of size S. Each GPU has its own NVLink port, but the {perNode}{' '}
+          GPUs of a node share one InfiniBand NIC.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="hier-message" className="block text-xs font-medium text-gray-700 mb-1">
+            Message Size S (MB)
+          </label>
+          <input
+            id="hier-message"
+            type="number"
+            min="0"
+            value={messageMB}
+            onChange={(e) => setMessageMB(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="hier-nvlink" className="block text-xs font-medium text-gray-700 mb-1">
+            NVLink per GPU (GB/s)
+          </label>
+          <input
+            id="hier-nvlink"
+            type="number"
+            min="0"
+            value={nvlinkGBs}
+            onChange={(e) => setNvlinkGBs(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="hier-infiniband" className="block text-xs font-medium text-gray-700 mb-1">
+            InfiniBand per Node (GB/s)
+          </label>
+          <input
+            id="hier-infiniband"
+            type="number"
+            min="0"
+            value={infinibandGBs}
+            onChange={(e) => setInfinibandGBs(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {!valid ? (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600">
+          Enter a positive message size and bandwidths.
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {phases.map((phase, idx) => (
+              <div
+                key={phase.label}
+                className={`flex items-center gap-3 text-sm rounded-md px-2 py-1 ${
+                  step === idx + 1 ? 'bg-purple-50' : ''
+                }`}
+              >
+                <div className="w-48">
+                  <div className="font-medium text-gray-800">{phase.label}</div>
+                  <div className="text-xs text-gray-500">{phase.link}</div>
+                </div>
+                <div className="flex-1 bg-gray-100 rounded-full h-4 overflow-hidden">
+                  <motion.div
+                    className={idx === 1 ? 'bg-red-400 h-4' : 'bg-blue-500 h-4'}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${total > 0 ? (phase.seconds / total) * 100 : 0}%` }}
+                    transition={{ duration: 0.4 }}
+                  />
+                </div>
+                <div className="w-24 text-right font-mono">{formatExecutionTime(phase.seconds).formatted}</div>
+                <div className="w-12 text-right text-xs text-gray-500">
+                  {total > 0 ? ((phase.seconds / total) * 100).toFixed(0) : 0}%
+                </div>
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
 
-      {/* Animated cells */}
-      {isPlaying && (
-        <AnimatedCellFlow
-          processes={processes}
-          resultMatrix={resultMatrix}
-          currentStep={currentStep}
-          totalCells={totalCells}
-          direction="all-reduce"
-        />
+          <div className="text-sm text-gray-700">
+            Total: <span className="font-mono font-semibold">{formatExecutionTime(total).formatted}</span> · a
+            flat ring over all {ranks} GPUs, limited by the InfiniBand hop:{' '}
+            <span className="font-mono">{formatExecutionTime(flatRing).formatted}</span>
+          </div>
+
+          <p className="text-xs text-gray-500 leading-relaxed">
+            The NVLink phases each move (G−1)/G·S per GPU at {nvlinkGBs} GB/s. The inter-node phase moves only
+            2(M−1)/M·S/G per GPU, but the G GPUs of a node push it through one {infinibandGBs} GB/s NIC, so the
+            node sends 2(M−1)/M·S over a link {(nvlinkGBs / infinibandGBs).toFixed(0)}× slower than NVLink. That
+            is why inter-node bandwidth dominates, and why hierarchical all-reduce beats a flat ring, which
+            pushes 2(N−1)/N·S through the same NIC.
+          </p>
+        </>
       )}
     </div>
   )
@@ -481,24 +1313,25 @@ function AllReduceVisualization({
 
 function AllGatherVisualization({
   processes,
+  topology,
+  reduction,
   isPlaying,
   currentStep,
-  setCurrentStep,
+  onTimeline,
 }: VisualizationProps) {
-  const totalSteps = processes.length * processes.length * 9
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('all-gather', { ranks: n, cellCount }), [n, cellCount])
 
-  useEffect(() => {
-    if (!isPlaying) return
-    if (currentStep < totalSteps) {
-      const timer = setTimeout(() => {
-        setCurrentStep(currentStep + 1)
-      }, 600)
-      return () => clearTimeout(timer)
-    }
-  }, [isPlaying, currentStep, totalSteps, setCurrentStep])
+  useEffect(() => onTimeline({ schedule, stepMs: 600 }), [schedule, onTimeline])
+
+  const { buffers } = simulateSchedule(schedule, processes.map((p) => p.matrix), reduction, isPlaying ? currentStep : 0)
 
   return (
     <div className="distributed-viz">
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
+
       <div className="processes-container">
         {processes.map((process) => (
           <div key={process.id} className="process-card">
@@ -513,20 +1346,20 @@ function AllGatherVisualization({
           <div key={targetProcess.id} className="process-card">
             <div className="process-label">GPU {targetProcess.id}</div>
             <div className="concatenated-matrix">
-              {processes.map((sourceProcess, sourceIdx) => (
-                <motion.div
-                  key={sourceProcess.id}
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{
-                    opacity: isPlaying && currentStep >= (targetProcess.id * processes.length + sourceIdx) * 9 ? 1 : 0,
-                    scale: isPlaying && currentStep >= (targetProcess.id * processes.length + sourceIdx) * 9 ? 1 : 0.8,
-                  }}
-                  transition={{ duration: 0.5 }}
-                  className="matrix-chunk"
-                >
-                  <MatrixDisplay matrix={sourceProcess.matrix} processId={targetProcess.id} />
-                </motion.div>
-              ))}
+              {processes.map((sourceProcess) => {
+                const block = blockMatrix(schedule, buffers[targetProcess.id], sourceProcess.id, cols)
+                return (
+                  <motion.div
+                    key={sourceProcess.id}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: block ? 1 : 0, scale: block ? 1 : 0.8 }}
+                    transition={{ duration: 0.5 }}
+                    className="matrix-chunk"
+                  >
+                    <MatrixDisplay matrix={block ?? sourceProcess.matrix} processId={targetProcess.id} />
+                  </motion.div>
+                )
+              })}
             </div>
           </div>
         ))}
@@ -535,26 +1368,98 @@ function AllGatherVisualization({
   )
 }
 
-function GatherVisualization({
+function ReduceScatterVisualization({
   processes,
+  topology,
+  reduction,
   isPlaying,
   currentStep,
-  setCurrentStep,
+  onTimeline,
 }: VisualizationProps) {
-  const totalCells = processes.length * 9
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('reduce-scatter', { ranks: n, cellCount }), [n, cellCount])
 
-  useEffect(() => {
-    if (!isPlaying) return
-    if (currentStep < totalCells) {
-      const timer = setTimeout(() => {
-        setCurrentStep(currentStep + 1)
-      }, 700)
-      return () => clearTimeout(timer)
-    }
-  }, [isPlaying, currentStep, totalCells, setCurrentStep])
+  useEffect(() => onTimeline({ schedule, stepMs: 800 }), [schedule, onTimeline])
+
+  const step = isPlaying ? currentStep : 0
+  const { buffers, payloads } = simulateSchedule(schedule, processes.map((p) => p.matrix), reduction, step)
+  const activeChunk = step > 0 ? schedule.steps[step - 1]?.[0]?.chunk : undefined
+
+  return (
+    <div className="distributed-viz">
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
+
+      <div className="processes-container">
+        {processes.map((process) => (
+          <div key={process.id} className="process-card">
+            <div className="process-label">GPU {process.id}</div>
+            <ChunkedMatrixDisplay
+              matrix={process.matrix}
+              chunks={n}
+              processId={process.id}
+              activeChunk={activeChunk}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="operation-label">{reduction.label}</div>
+
+      <div className="processes-container">
+        {processes.map((process) => {
+          const shard = buffers[process.id][process.id]
+          const reduced = shard?.contributors.length === n
+          return (
+            <div key={process.id} className="process-card" data-position="bottom">
+              <motion.div
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: reduced ? 1 : 0, scale: reduced ? 1 : 0.5 }}
+                transition={{ duration: 0.6 }}
+              >
+                <MatrixDisplay matrix={[shard?.values ?? []]} highlight processId={`shard-${process.id}`} />
+              </motion.div>
+              <div className="process-label">
+                GPU {process.id} · {reduction.label} chunk {process.id}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {isPlaying && <AnimatedCellFlow schedule={schedule} payloads={payloads} cols={cols} />}
+    </div>
+  )
+}
+
+function GatherVisualization({
+  processes,
+  topology,
+  reduction,
+  isPlaying,
+  currentStep,
+  onTimeline,
+}: VisualizationProps) {
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('gather', { ranks: n, cellCount }), [n, cellCount])
+
+  useEffect(() => onTimeline({ schedule, stepMs: 700 }), [schedule, onTimeline])
+
+  const { buffers, payloads } = simulateSchedule(
+    schedule,
+    processes.map((p) => p.matrix),
+    reduction,
+    isPlaying ? currentStep : 0,
+    rowTrail(cols)
+  )
 
   return (
     <div className="distributed-viz">
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
+
       <div className="processes-container">
         {processes.map((process) => (
           <div key={process.id} className="process-card">
@@ -567,63 +1472,55 @@ function GatherVisualization({
       <motion.div className="root-process">
         <div className="process-label">GPU 0 (Root)</div>
         <div className="concatenated-matrix">
-          {processes.map((process, idx) => (
-            <motion.div
-              key={process.id}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{
-                opacity: isPlaying && currentStep >= idx * 9 ? 1 : 0,
-                scale: isPlaying && currentStep >= idx * 9 ? 1 : 0.8,
-              }}
-              transition={{ duration: 0.5 }}
-              className="matrix-chunk"
-            >
-              <MatrixDisplay matrix={process.matrix} processId={0} />
-            </motion.div>
-          ))}
+          {processes.map((process) => {
+            const block = blockMatrix(schedule, buffers[0], process.id, cols)
+            return (
+              <motion.div
+                key={process.id}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: block ? 1 : 0, scale: block ? 1 : 0.8 }}
+                transition={{ duration: 0.5 }}
+                className="matrix-chunk"
+              >
+                <MatrixDisplay matrix={block ?? process.matrix} processId={0} />
+              </motion.div>
+            )
+          })}
         </div>
       </motion.div>
 
-      {isPlaying && (
-        <AnimatedCellFlow
-          processes={processes}
-          resultMatrix={null}
-          currentStep={currentStep}
-          totalCells={totalCells}
-          direction="gather"
-        />
-      )}
+      {isPlaying && <AnimatedCellFlow schedule={schedule} payloads={payloads} cols={cols} />}
     </div>
   )
 }
 
 function ScatterVisualization({
   processes,
+  topology,
+  reduction,
   isPlaying,
   currentStep,
-  setCurrentStep,
+  onTimeline,
 }: VisualizationProps) {
-  const totalCells = processes.length * 9
-
-  useEffect(() => {
-    if (!isPlaying) return
-    if (currentStep < totalCells) {
-      const timer = setTimeout(() => {
-        setCurrentStep(currentStep + 1)
-      }, 700)
-      return () => clearTimeout(timer)
-    }
-  }, [isPlaying, currentStep, totalCells, setCurrentStep])
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('scatter', { ranks: n, cellCount }), [n, cellCount])
+
+  useEffect(() => onTimeline({ schedule, stepMs: 700 }), [schedule, onTimeline])
+
+  const { buffers, payloads } = simulateSchedule(
+    schedule,
+    processes.map((p) => p.matrix),
+    reduction,
+    isPlaying ? currentStep : 0,
+    rowTrail(cols)
+  )
 
   return (
     <div className="distributed-viz">
       {/* NVLink Connections */}
-      <NVLinkConnections
-        processes={processes}
-        operation="scatter"
-        isPlaying={isPlaying}
-        currentStep={currentStep}
-      />
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
 
       <div className="root-process">
         <div className="process-label">GPU 0 (Root)</div>
@@ -637,64 +1534,56 @@ function ScatterVisualization({
       </div>
 
       <div className="processes-container mt-8">
-        {processes.map((process, idx) => (
-          <div key={process.id} className="process-card" data-position="bottom">
-            <motion.div
-              initial={{ opacity: 0, scale: 0.5 }}
-              animate={{
-                opacity: isPlaying && currentStep >= idx * 9 ? 1 : 0,
-                scale: isPlaying && currentStep >= idx * 9 ? 1 : 0.5,
-              }}
-              transition={{ duration: 0.6 }}
-            >
-              <MatrixDisplay matrix={process.matrix} processId={process.id} />
-            </motion.div>
-            <div className="process-label">GPU {process.id}</div>
-          </div>
-        ))}
+        {processes.map((process) => {
+          const block = blockMatrix(schedule, buffers[process.id], process.id, cols)
+          return (
+            <div key={process.id} className="process-card" data-position="bottom">
+              <motion.div
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: block ? 1 : 0, scale: block ? 1 : 0.5 }}
+                transition={{ duration: 0.6 }}
+              >
+                <MatrixDisplay matrix={block ?? process.matrix} processId={process.id} />
+              </motion.div>
+              <div className="process-label">GPU {process.id}</div>
+            </div>
+          )
+        })}
       </div>
 
-      {isPlaying && (
-        <AnimatedCellFlow
-          processes={processes}
-          resultMatrix={null}
-          currentStep={currentStep}
-          totalCells={totalCells}
-          direction="scatter"
-        />
-      )}
+      {isPlaying && <AnimatedCellFlow schedule={schedule} payloads={payloads} cols={cols} />}
     </div>
   )
 }
 
 function BroadcastVisualization({
   processes,
+  topology,
+  reduction,
   isPlaying,
   currentStep,
-  setCurrentStep,
+  onTimeline,
 }: VisualizationProps) {
+  const n = processes.length
   const rootMatrix = processes[0].matrix
-  const totalCells = (processes.length - 1) * 9
-
-  useEffect(() => {
-    if (!isPlaying) return
-    if (currentStep < totalCells) {
-      const timer = setTimeout(() => {
-        setCurrentStep(currentStep + 1)
-      }, 600)
-      return () => clearTimeout(timer)
-    }
-  }, [isPlaying, currentStep, totalCells, setCurrentStep])
+  const cols = rootMatrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('broadcast', { ranks: n, cellCount }), [n, cellCount])
+
+  useEffect(() => onTimeline({ schedule, stepMs: 600 }), [schedule, onTimeline])
+
+  const { buffers, payloads } = simulateSchedule(
+    schedule,
+    processes.map((p) => p.matrix),
+    reduction,
+    isPlaying ? currentStep : 0,
+    rowTrail(cols)
+  )
 
   return (
     <div className="distributed-viz">
       {/* NVLink Connections */}
-      <NVLinkConnections
-        processes={processes}
-        operation="broadcast"
-        isPlaying={isPlaying}
-        currentStep={currentStep}
-      />
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
 
       <motion.div
         animate={{
@@ -712,62 +1601,55 @@ function BroadcastVisualization({
       </motion.div>
 
       <div className="processes-container mt-8">
-        {processes.slice(1).map((process, idx) => (
-          <div key={process.id} className="process-card" data-position="bottom">
-            <motion.div
-              initial={{ opacity: 0, scale: 0.5 }}
-              animate={{
-                opacity: isPlaying && currentStep >= idx * 9 ? 1 : 0,
-                scale: isPlaying && currentStep >= idx * 9 ? 1 : 0.5,
-              }}
-              transition={{ duration: 0.6 }}
-            >
-              <MatrixDisplay matrix={rootMatrix} processId={process.id} />
-            </motion.div>
-            <div className="process-label">GPU {process.id}</div>
-          </div>
-        ))}
+        {processes.slice(1).map((process) => {
+          const block = blockMatrix(schedule, buffers[process.id], 0, cols)
+          return (
+            <div key={process.id} className="process-card" data-position="bottom">
+              <motion.div
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: block ? 1 : 0, scale: block ? 1 : 0.5 }}
+                transition={{ duration: 0.6 }}
+              >
+                <MatrixDisplay matrix={block ?? rootMatrix} processId={process.id} />
+              </motion.div>
+              <div className="process-label">GPU {process.id}</div>
+            </div>
+          )
+        })}
       </div>
 
-      {isPlaying && (
-        <AnimatedCellFlow
-          processes={processes}
-          resultMatrix={rootMatrix}
-          currentStep={currentStep}
-          totalCells={totalCells}
-          direction="broadcast"
-        />
-      )}
+      {isPlaying && <AnimatedCellFlow schedule={schedule} payloads={payloads} cols={cols} />}
     </div>
   )
 }
 
 function ReduceVisualization({
   processes,
+  topology,
+  reduction,
   isPlaying,
   currentStep,
-  setCurrentStep,
+  onTimeline,
 }: VisualizationProps) {
-  const resultMatrix = processes[0].matrix.map((row, i) =>
-    row.map((_, j) =>
-      processes.reduce((sum, p) => sum + p.matrix[i][j], 0)
-    )
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('reduce', { ranks: n, cellCount }), [n, cellCount])
+
+  useEffect(() => onTimeline({ schedule, stepMs: 700 }), [schedule, onTimeline])
+
+  const { buffers, payloads } = simulateSchedule(
+    schedule,
+    processes.map((p) => p.matrix),
+    reduction,
+    isPlaying ? currentStep : 0,
+    rowTrail(cols)
   )
 
-  const totalCells = processes.length * 9
-
-  useEffect(() => {
-    if (!isPlaying) return
-    if (currentStep < totalCells) {
-      const timer = setTimeout(() => {
-        setCurrentStep(currentStep + 1)
-      }, 700)
-      return () => clearTimeout(timer)
-    }
-  }, [isPlaying, currentStep, totalCells, setCurrentStep])
-
   return (
     <div className="distributed-viz">
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
+
       <div className="processes-container">
         {processes.map((process) => (
           <div key={process.id} className="process-card">
@@ -783,29 +1665,92 @@ function ReduceVisualization({
         className="root-process"
       >
         <div className="process-label">GPU 0 (Root)</div>
-        <div className="operation-label">SUM</div>
+        <div className="operation-label">{reduction.label}</div>
         <MatrixDisplay
-          matrix={resultMatrix}
+          matrix={reducedMatrix(schedule, buffers[0], cols)}
           highlight
           processId={0}
           getCellState={(row, col) => {
-            const cellIndex = row * 3 + col
-            const isActive = isPlaying && currentStep >= totalCells - 9 + cellIndex
+            const isActive = isPlaying && buffers[0][row * cols + col]?.contributors.length === n
             return { isActive, isCompleted: isActive }
           }}
           isPlaying={isPlaying}
         />
       </motion.div>
 
-      {isPlaying && (
-        <AnimatedCellFlow
-          processes={processes}
-          resultMatrix={resultMatrix}
-          currentStep={currentStep}
-          totalCells={totalCells}
-          direction="reduce"
-        />
-      )}
+      {isPlaying && <AnimatedCellFlow schedule={schedule} payloads={payloads} cols={cols} />}
+    </div>
+  )
+}
+
+function AllToAllVisualization({
+  processes,
+  topology,
+  reduction,
+  isPlaying,
+  currentStep,
+  onTimeline,
+}: VisualizationProps) {
+  const n = processes.length
+  const cols = processes[0].matrix[0].length
+  const cellCount = cellsPerMatrix(processes)
+  const schedule = useMemo(() => buildSchedule('all-to-all', { ranks: n, cellCount }), [n, cellCount])
+
+  useEffect(() => onTimeline({ schedule, stepMs: 800 }), [schedule, onTimeline])
+
+  const step = isPlaying ? currentStep : 0
+  const { buffers, payloads } = simulateSchedule(schedule, processes.map((p) => p.matrix), reduction, step)
+  const transfers = step > 0 ? schedule.steps[step - 1] ?? [] : []
+
+  return (
+    <div className="distributed-viz">
+      <NVLinkConnections schedule={schedule} topology={topology} isPlaying={isPlaying} currentStep={currentStep} />
+
+      <div className="processes-container">
+        {processes.map((process) => (
+          <div key={process.id} className="process-card">
+            <div className="process-label">GPU {process.id}</div>
+            <ChunkedMatrixDisplay
+              matrix={process.matrix}
+              chunks={n}
+              processId={process.id}
+              activeChunk={transfers.find((t) => t.src === process.id)?.dst}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="processes-container">
+        {processes.map((target) => (
+          <div key={target.id} className="process-card" data-position="bottom">
+            <div className="space-y-1">
+              {processes.map((source) => {
+                // Chunk ids are source * N + destination
+                const block = buffers[target.id][source.id * n + target.id]
+                const received = isPlaying && block !== null
+                return (
+                  <motion.div
+                    key={source.id}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: received ? 1 : 0.15, x: 0 }}
+                    transition={{ duration: 0.5 }}
+                    className="flex items-center gap-2"
+                  >
+                    <span className="text-xs text-gray-500 w-10">GPU {source.id}</span>
+                    <MatrixDisplay
+                      matrix={[block?.values ?? chunkValues(source.matrix, target.id, n)]}
+                      processId={`a2a-${target.id}-${source.id}`}
+                    />
+                  </motion.div>
+                )
+              })}
+            </div>
+            <div className="process-label">GPU {target.id} · chunk {target.id} from every GPU</div>
+          </div>
+        ))}
+      </div>
+
+      {isPlaying && <AnimatedCellFlow schedule={schedule} payloads={payloads} cols={cols} />}
     </div>
   )
 }
@@ -818,197 +1763,254 @@ interface MatrixDisplayProps {
   isPlaying?: boolean
 }
 
-// Component to show matrix multiplication examples
-function OperationExample({ operation }: { operation: string }) {
-  const getExample = () => {
-    switch (operation) {
-      case 'all-reduce':
-        return {
-          title: 'Example: Gradient Synchronization in Distributed Training',
-          description: 'Each GPU computes gradients for a batch. All-Reduce sums all gradients and distributes the result.',
-          matrices: {
-            'GPU 0 (∇L₀)': exampleMatrices.A,
-            'GPU 1 (∇L₁)': exampleMatrices.B,
-            'GPU 2 (∇L₂)': exampleMatrices.C,
-            'GPU 3 (∇L₃)': exampleMatrices.D,
-          },
-          operation: 'SUM',
-          result: exampleMatrices.A.map((row, i) =>
-            row.map((_, j) =>
-              exampleMatrices.A[i][j] + exampleMatrices.B[i][j] + exampleMatrices.C[i][j] + exampleMatrices.D[i][j]
-            )
-          ),
-          formula: 'Σ(∇L₀ + ∇L₁ + ∇L₂ + ∇L₃) → All GPUs',
-          flowDiagram: {
-            steps: [
-              { from: 'GPU 0', to: 'Center', label: '∇L₀' },
-              { from: 'GPU 1', to: 'Center', label: '∇L₁' },
-              { from: 'GPU 2', to: 'Center', label: '∇L₂' },
-              { from: 'GPU 3', to: 'Center', label: '∇L₃' },
-              { from: 'Center', to: 'All GPUs', label: 'Σ∇L', operation: 'SUM' },
-            ],
-          },
-          whenToUse: [
-            'Synchronizing gradients in distributed training (PyTorch DDP, Horovod) - Critical for maintaining model consistency across GPUs',
-            'Averaging model parameters across all workers - Ensures all replicas have identical weights after each update',
-            'Aggregating metrics from all processes - Computing global accuracy, loss, or other evaluation metrics',
-            'Any operation where all processes need the same reduced result - When synchronization is required before proceeding',
-            'Real-world example: In PyTorch DistributedDataParallel, gradients are averaged using All-Reduce after each backward pass',
-            'Performance note: Modern implementations use ring or tree algorithms to minimize communication overhead',
+// Worked example for each operation, shared by OperationExample and the SVG export
+function getOperationExample(operation: string, reduction: Reduction) {
+  const exampleResult = reduceMatrices(
+    [exampleMatrices.A, exampleMatrices.B, exampleMatrices.C, exampleMatrices.D],
+    reduction
+  )
+
+  switch (operation) {
+    case 'all-reduce':
+      return {
+        title: 'Example: Gradient Synchronization in Distributed Training',
+        description: `Each GPU computes gradients for a batch. All-Reduce combines all gradients with ${reduction.label} and distributes the result.`,
+        matrices: {
+          'GPU 0 (∇L₀)': exampleMatrices.A,
+          'GPU 1 (∇L₁)': exampleMatrices.B,
+          'GPU 2 (∇L₂)': exampleMatrices.C,
+          'GPU 3 (∇L₃)': exampleMatrices.D,
+        },
+        operation: reduction.label,
+        result: exampleResult,
+        formula: `${reduction.expression(['∇L₀', '∇L₁', '∇L₂', '∇L₃'])} → All GPUs`,
+        flowDiagram: {
+          steps: [
+            { from: 'GPU 0', to: 'Center', label: '∇L₀' },
+            { from: 'GPU 1', to: 'Center', label: '∇L₁' },
+            { from: 'GPU 2', to: 'Center', label: '∇L₂' },
+            { from: 'GPU 3', to: 'Center', label: '∇L₃' },
+            { from: 'Center', to: 'All GPUs', label: `${reduction.label}(∇L)`, operation: reduction.label },
           ],
-        }
-      case 'all-gather':
-        return {
-          title: 'Example: Collecting Partial Results from All GPUs',
-          description: 'Each GPU has computed part of a matrix multiplication. All-Gather collects all parts.',
-          matrices: {
-            'GPU 0 (A₀×B)': exampleMatrices.A,
-            'GPU 1 (A₁×B)': exampleMatrices.B,
-            'GPU 2 (A₂×B)': exampleMatrices.C,
-            'GPU 3 (A₃×B)': exampleMatrices.D,
-          },
-          operation: 'CONCATENATE',
-          result: null,
-          formula: '[A₀×B, A₁×B, A₂×B, A₃×B] → All GPUs',
-          flowDiagram: {
-            steps: [
-              { from: 'GPU 0', to: 'GPU 1,2,3', label: 'A₀×B' },
-              { from: 'GPU 1', to: 'GPU 0,2,3', label: 'A₁×B' },
-              { from: 'GPU 2', to: 'GPU 0,1,3', label: 'A₂×B' },
-              { from: 'GPU 3', to: 'GPU 0,1,2', label: 'A₃×B' },
-            ],
-          },
-          whenToUse: [
-            'Collecting embeddings from all GPUs for attention mechanisms - Each GPU computes embeddings for its batch, all need complete context',
-            'Gathering partial results when all processes need complete data - Reconstructing full dataset from distributed chunks',
-            'Distributed inference where all nodes need full output - Each node processes part of input, all need complete result',
-            'Data parallelism with model parallelism (pipeline parallelism) - Combining results from different pipeline stages',
-            'Real-world example: In transformer models, All-Gather collects key-value pairs from all GPUs for cross-attention computation',
-            'Use case: When implementing custom distributed algorithms that require all-to-all data sharing',
+        },
+        whenToUse: [
+          'Synchronizing gradients in distributed training (PyTorch DDP, Horovod) - Critical for maintaining model consistency across GPUs',
+          'Averaging model parameters across all workers - Ensures all replicas have identical weights after each update',
+          'Aggregating metrics from all processes - Computing global accuracy, loss, or other evaluation metrics',
+          'Any operation where all processes need the same reduced result - When synchronization is required before proceeding',
+          'Real-world example: In PyTorch DistributedDataParallel, gradients are averaged using All-Reduce after each backward pass',
+          'Performance note: Modern implementations use ring or tree algorithms to minimize communication overhead',
+        ],
+      }
+    case 'all-gather':
+      return {
+        title: 'Example: Collecting Partial Results from All GPUs',
+        description: 'Each GPU has computed part of a matrix multiplication. All-Gather collects all parts.',
+        matrices: {
+          'GPU 0 (A₀×B)': exampleMatrices.A,
+          'GPU 1 (A₁×B)': exampleMatrices.B,
+          'GPU 2 (A₂×B)': exampleMatrices.C,
+          'GPU 3 (A₃×B)': exampleMatrices.D,
+        },
+        operation: 'CONCATENATE',
+        result: null,
+        formula: '[A₀×B, A₁×B, A₂×B, A₃×B] → All GPUs',
+        flowDiagram: {
+          steps: [
+            { from: 'GPU 0', to: 'GPU 1,2,3', label: 'A₀×B' },
+            { from: 'GPU 1', to: 'GPU 0,2,3', label: 'A₁×B' },
+            { from: 'GPU 2', to: 'GPU 0,1,3', label: 'A₂×B' },
+            { from: 'GPU 3', to: 'GPU 0,1,2', label: 'A₃×B' },
           ],
-        }
-      case 'gather':
-        return {
-          title: 'Example: Collecting Final Results to Root GPU',
-          description: 'Each GPU computed A × B. Gather collects all results to GPU 0 for final processing.',
-          matrices: {
-            'GPU 0 (A₀×B)': exampleMatrices.A,
-            'GPU 1 (A₁×B)': exampleMatrices.B,
-            'GPU 2 (A₂×B)': exampleMatrices.C,
-            'GPU 3 (A₃×B)': exampleMatrices.D,
-          },
-          operation: 'COLLECT',
-          result: null,
-          formula: '[A₀×B, A₁×B, A₂×B, A₃×B] → GPU 0 only',
-          flowDiagram: {
-            steps: [
-              { from: 'GPU 1', to: 'GPU 0', label: 'A₁×B' },
-              { from: 'GPU 2', to: 'GPU 0', label: 'A₂×B' },
-              { from: 'GPU 3', to: 'GPU 0', label: 'A₃×B' },
-            ],
-          },
-          whenToUse: [
-            'Collecting results to rank 0 for logging and checkpointing - Master process saves model state and training logs',
-            'Gathering metrics from all workers to master process - Aggregating validation results for monitoring',
-            'Saving model outputs from distributed inference - Collecting predictions from all GPUs to single location',
-            'When only one process needs the complete data - Efficient when other processes don\'t require gathered data',
-            'Real-world example: PyTorch Lightning uses Gather to collect validation metrics from all GPUs to rank 0 for logging',
-            'Performance note: More efficient than All-Gather when only root process needs the data, reducing unnecessary communication',
+        },
+        whenToUse: [
+          'Collecting embeddings from all GPUs for attention mechanisms - Each GPU computes embeddings for its batch, all need complete context',
+          'Gathering partial results when all processes need complete data - Reconstructing full dataset from distributed chunks',
+          'Distributed inference where all nodes need full output - Each node processes part of input, all need complete result',
+          'Data parallelism with model parallelism (pipeline parallelism) - Combining results from different pipeline stages',
+          'Real-world example: In transformer models, All-Gather collects key-value pairs from all GPUs for cross-attention computation',
+          'Use case: When implementing custom distributed algorithms that require all-to-all data sharing',
+        ],
+      }
+    case 'reduce-scatter':
+      return {
+        title: 'Example: Sharding Gradients with ZeRO / FSDP',
+        description: `Each GPU computed a full gradient. Reduce-Scatter combines the gradients with ${reduction.label} and leaves each GPU with only the shard of the result it owns.`,
+        matrices: {
+          'GPU 0 (∇L₀)': exampleMatrices.A,
+          'GPU 1 (∇L₁)': exampleMatrices.B,
+          'GPU 2 (∇L₂)': exampleMatrices.C,
+          'GPU 3 (∇L₃)': exampleMatrices.D,
+        },
+        operation: `${reduction.label} + SPLIT`,
+        result: exampleResult,
+        formula: `${reduction.expression(['∇L₀', '∇L₁', '∇L₂', '∇L₃'])} = [S₀, S₁, S₂, S₃], Sᵢ → GPU i`,
+        flowDiagram: {
+          steps: [
+            { from: 'All GPUs', to: 'GPU 0', label: 'chunk 0', operation: reduction.label },
+            { from: 'All GPUs', to: 'GPU 1', label: 'chunk 1', operation: reduction.label },
+            { from: 'All GPUs', to: 'GPU 2', label: 'chunk 2', operation: reduction.label },
+            { from: 'All GPUs', to: 'GPU 3', label: 'chunk 3', operation: reduction.label },
           ],
-        }
-      case 'scatter':
-        return {
-          title: 'Example: Distributing Matrix Chunks for Parallel Computation',
-          description: 'Root GPU splits matrix A into chunks and distributes them. Each GPU computes its chunk × B.',
-          matrices: {
-            'Root (A)': exampleMatrices.A,
-          },
-          operation: 'SPLIT',
-          result: null,
-          formula: 'A → [A₀→GPU0, A₁→GPU1, A₂→GPU2, A₃→GPU3]',
-          flowDiagram: {
-            steps: [
-              { from: 'GPU 0 (Root)', to: 'GPU 0', label: 'A₀' },
-              { from: 'GPU 0 (Root)', to: 'GPU 1', label: 'A₁' },
-              { from: 'GPU 0 (Root)', to: 'GPU 2', label: 'A₂' },
-              { from: 'GPU 0 (Root)', to: 'GPU 3', label: 'A₃' },
-            ],
-          },
-          whenToUse: [
-            'Data parallelism: splitting dataset across GPUs - Each GPU processes different subset of training data',
-            'Distributing input batches to workers - Efficiently sending different data chunks to each process',
-            'Initial data distribution in distributed training - Setting up data shards at the start of training',
-            'When root process needs to split and send data - Master process divides workload among workers',
-            'Real-world example: In data parallel training, Scatter distributes different mini-batches to each GPU for parallel processing',
-            'Use case: Implementing custom data loaders that split large datasets across multiple GPUs for parallel processing',
+        },
+        whenToUse: [
+          'Gradient sharding in ZeRO stage 2/3 and PyTorch FSDP - Each GPU only needs the reduced gradients for the parameters it owns',
+          'First half of a ring all-reduce - All-Reduce = Reduce-Scatter followed by All-Gather',
+          'Tensor and sequence parallelism - Megatron sequence parallelism replaces an all-reduce with reduce-scatter after row-parallel layers',
+          'When each process only needs part of the reduced result - Moves (N−1)/N of the data instead of 2(N−1)/N',
+          'Real-world example: FSDP calls reduce_scatter_tensor on flattened gradients after each backward pass, then each rank steps its own optimizer shard',
+          'Performance note: Each GPU ends with 1/N of the result, so memory for the reduced gradients also drops by N',
+        ],
+      }
+    case 'gather':
+      return {
+        title: 'Example: Collecting Final Results to Root GPU',
+        description: 'Each GPU computed A × B. Gather collects all results to GPU 0 for final processing.',
+        matrices: {
+          'GPU 0 (A₀×B)': exampleMatrices.A,
+          'GPU 1 (A₁×B)': exampleMatrices.B,
+          'GPU 2 (A₂×B)': exampleMatrices.C,
+          'GPU 3 (A₃×B)': exampleMatrices.D,
+        },
+        operation: 'COLLECT',
+        result: null,
+        formula: '[A₀×B, A₁×B, A₂×B, A₃×B] → GPU 0 only',
+        flowDiagram: {
+          steps: [
+            { from: 'GPU 1', to: 'GPU 0', label: 'A₁×B' },
+            { from: 'GPU 2', to: 'GPU 0', label: 'A₂×B' },
+            { from: 'GPU 3', to: 'GPU 0', label: 'A₃×B' },
           ],
-        }
-      case 'broadcast':
-        return {
-          title: 'Example: Broadcasting Weight Matrix to All GPUs',
-          description: 'Root GPU broadcasts weight matrix W to all GPUs. Each GPU uses W for local computation.',
-          matrices: {
-            'Root (W)': exampleMatrices.A,
-          },
-          operation: 'COPY',
-          result: exampleMatrices.A,
-          formula: 'W → [W→GPU0, W→GPU1, W→GPU2, W→GPU3]',
-          flowDiagram: {
-            steps: [
-              { from: 'GPU 0 (Root)', to: 'GPU 1', label: 'W' },
-              { from: 'GPU 0 (Root)', to: 'GPU 2', label: 'W' },
-              { from: 'GPU 0 (Root)', to: 'GPU 3', label: 'W' },
-            ],
-          },
-          whenToUse: [
-            'Distributing model weights at start of training - Ensuring all GPUs start with identical model parameters',
-            'Broadcasting hyperparameters to all workers - Sharing learning rate, batch size, and other configs',
-            'Sending initial data to all processes - Distributing same input data when needed (e.g., validation set)',
-            'Synchronizing model state across replicas - Keeping model weights consistent after checkpoint loading',
-            'Real-world example: PyTorch DDP uses Broadcast to initialize all processes with the same model weights from rank 0',
-            'Performance note: Broadcast is highly optimized using tree algorithms, making it efficient even for large models',
+        },
+        whenToUse: [
+          'Collecting results to rank 0 for logging and checkpointing - Master process saves model state and training logs',
+          'Gathering metrics from all workers to master process - Aggregating validation results for monitoring',
+          'Saving model outputs from distributed inference - Collecting predictions from all GPUs to single location',
+          'When only one process needs the complete data - Efficient when other processes don\'t require gathered data',
+          'Real-world example: PyTorch Lightning uses Gather to collect validation metrics from all GPUs to rank 0 for logging',
+          'Performance note: More efficient than All-Gather when only root process needs the data, reducing unnecessary communication',
+        ],
+      }
+    case 'scatter':
+      return {
+        title: 'Example: Distributing Matrix Chunks for Parallel Computation',
+        description: 'Root GPU splits matrix A into chunks and distributes them. Each GPU computes its chunk × B.',
+        matrices: {
+          'Root (A)': exampleMatrices.A,
+        },
+        operation: 'SPLIT',
+        result: null,
+        formula: 'A → [A₀→GPU0, A₁→GPU1, A₂→GPU2, A₃→GPU3]',
+        flowDiagram: {
+          steps: [
+            { from: 'GPU 0 (Root)', to: 'GPU 0', label: 'A₀' },
+            { from: 'GPU 0 (Root)', to: 'GPU 1', label: 'A₁' },
+            { from: 'GPU 0 (Root)', to: 'GPU 2', label: 'A₂' },
+            { from: 'GPU 0 (Root)', to: 'GPU 3', label: 'A₃' },
           ],
-        }
-      case 'reduce':
-        return {
-          title: 'Example: Summing Loss Values from All GPUs',
-          description: 'Each GPU computed loss. Reduce sums all losses and sends result to root for logging.',
-          matrices: {
-            'GPU 0 (L₀)': exampleMatrices.A,
-            'GPU 1 (L₁)': exampleMatrices.B,
-            'GPU 2 (L₂)': exampleMatrices.C,
-            'GPU 3 (L₃)': exampleMatrices.D,
-          },
-          operation: 'SUM',
-          result: exampleMatrices.A.map((row, i) =>
-            row.map((_, j) =>
-              exampleMatrices.A[i][j] + exampleMatrices.B[i][j] + exampleMatrices.C[i][j] + exampleMatrices.D[i][j]
-            )
-          ),
-          formula: 'Σ(L₀ + L₁ + L₂ + L₃) → GPU 0 only',
-          flowDiagram: {
-            steps: [
-              { from: 'GPU 1', to: 'GPU 0', label: 'L₁' },
-              { from: 'GPU 2', to: 'GPU 0', label: 'L₂' },
-              { from: 'GPU 3', to: 'GPU 0', label: 'L₃' },
-              { from: 'GPU 0', to: 'GPU 0', label: 'ΣL', operation: 'SUM' },
-            ],
-          },
-          whenToUse: [
-            'Aggregating loss values to root for logging - Summing losses from all batches to compute total training loss',
-            'Computing global metrics (accuracy, F1-score) - Calculating overall model performance across all GPUs',
-            'Early stopping decisions based on validation loss - Root process needs aggregated validation loss to make decisions',
-            'When only root process needs the reduced result - Efficient when other processes don\'t need the aggregated value',
-            'Real-world example: TensorFlow uses Reduce to aggregate validation metrics to the chief worker for monitoring and checkpointing',
-            'Performance note: More efficient than All-Reduce when only root needs the result, saving bandwidth and computation',
+        },
+        whenToUse: [
+          'Data parallelism: splitting dataset across GPUs - Each GPU processes different subset of training data',
+          'Distributing input batches to workers - Efficiently sending different data chunks to each process',
+          'Initial data distribution in distributed training - Setting up data shards at the start of training',
+          'When root process needs to split and send data - Master process divides workload among workers',
+          'Real-world example: In data parallel training, Scatter distributes different mini-batches to each GPU for parallel processing',
+          'Use case: Implementing custom data loaders that split large datasets across multiple GPUs for parallel processing',
+        ],
+      }
+    case 'broadcast':
+      return {
+        title: 'Example: Broadcasting Weight Matrix to All GPUs',
+        description: 'Root GPU broadcasts weight matrix W to all GPUs. Each GPU uses W for local computation.',
+        matrices: {
+          'Root (W)': exampleMatrices.A,
+        },
+        operation: 'COPY',
+        result: exampleMatrices.A,
+        formula: 'W → [W→GPU0, W→GPU1, W→GPU2, W→GPU3]',
+        flowDiagram: {
+          steps: [
+            { from: 'GPU 0 (Root)', to: 'GPU 1', label: 'W' },
+            { from: 'GPU 0 (Root)', to: 'GPU 2', label: 'W' },
+            { from: 'GPU 0 (Root)', to: 'GPU 3', label: 'W' },
           ],
-        }
-      default:
-        return null
-    }
+        },
+        whenToUse: [
+          'Distributing model weights at start of training - Ensuring all GPUs start with identical model parameters',
+          'Broadcasting hyperparameters to all workers - Sharing learning rate, batch size, and other configs',
+          'Sending initial data to all processes - Distributing same input data when needed (e.g., validation set)',
+          'Synchronizing model state across replicas - Keeping model weights consistent after checkpoint loading',
+          'Real-world example: PyTorch DDP uses Broadcast to initialize all processes with the same model weights from rank 0',
+          'Performance note: Broadcast is highly optimized using tree algorithms, making it efficient even for large models',
+        ],
+      }
+    case 'reduce':
+      return {
+        title: 'Example: Summing Loss Values from All GPUs',
+        description: `Each GPU computed loss. Reduce combines all losses with ${reduction.label} and sends the result to root for logging.`,
+        matrices: {
+          'GPU 0 (L₀)': exampleMatrices.A,
+          'GPU 1 (L₁)': exampleMatrices.B,
+          'GPU 2 (L₂)': exampleMatrices.C,
+          'GPU 3 (L₃)': exampleMatrices.D,
+        },
+        operation: reduction.label,
+        result: exampleResult,
+        formula: `${reduction.expression(['L₀', 'L₁', 'L₂', 'L₃'])} → GPU 0 only`,
+        flowDiagram: {
+          steps: [
+            { from: 'GPU 1', to: 'GPU 0', label: 'L₁' },
+            { from: 'GPU 2', to: 'GPU 0', label: 'L₂' },
+            { from: 'GPU 3', to: 'GPU 0', label: 'L₃' },
+            { from: 'GPU 0', to: 'GPU 0', label: `${reduction.label}(L)`, operation: reduction.label },
+          ],
+        },
+        whenToUse: [
+          'Aggregating loss values to root for logging - Summing losses from all batches to compute total training loss',
+          'Computing global metrics (accuracy, F1-score) - Calculating overall model performance across all GPUs',
+          'Early stopping decisions based on validation loss - Root process needs aggregated validation loss to make decisions',
+          'When only root process needs the reduced result - Efficient when other processes don\'t need the aggregated value',
+          'Real-world example: TensorFlow uses Reduce to aggregate validation metrics to the chief worker for monitoring and checkpointing',
+          'Performance note: More efficient than All-Reduce when only root needs the result, saving bandwidth and computation',
+        ],
+      }
+    case 'all-to-all':
+      return {
+        title: 'Example: Routing Tokens to Experts (Mixture of Experts)',
+        description: 'Each GPU holds tokens for every expert. All-to-All sends the tokens for expert j to the GPU hosting expert j.',
+        matrices: {
+          'GPU 0 (X₀)': exampleMatrices.A,
+          'GPU 1 (X₁)': exampleMatrices.B,
+          'GPU 2 (X₂)': exampleMatrices.C,
+          'GPU 3 (X₃)': exampleMatrices.D,
+        },
+        operation: 'TRANSPOSE',
+        result: null,
+        formula: 'Xᵢ = [Xᵢ₀, Xᵢ₁, Xᵢ₂, Xᵢ₃], Xᵢⱼ → GPU j',
+        flowDiagram: {
+          steps: [
+            { from: 'GPU i', to: 'GPU i+1', label: 'Xᵢ,ᵢ₊₁' },
+            { from: 'GPU i', to: 'GPU i+2', label: 'Xᵢ,ᵢ₊₂' },
+            { from: 'GPU i', to: 'GPU i+3', label: 'Xᵢ,ᵢ₊₃' },
+          ],
+        },
+        whenToUse: [
+          'Expert parallelism in Mixture-of-Experts models - Dispatch tokens to their experts, then combine the outputs with a second All-to-All',
+          'Ulysses sequence parallelism - Switch activations from sequence sharding to head sharding before attention and back afterwards',
+          'Distributed FFTs and matrix transposes - Each process needs one block from every other process',
+          'Shuffling data between stages with a different partitioning - e.g. re-sharding embeddings by row instead of by column',
+          'Real-world example: DeepSpeed-MoE and Megatron-Core MoE layers issue two All-to-All calls per layer in the forward pass',
+          'Performance note: Every GPU talks to every other GPU, so All-to-All is sensitive to bisection bandwidth and usually kept within a node',
+        ],
+      }
+    default:
+      return null
   }
+}
 
-  const example = getExample()
+// Component to show matrix multiplication examples
+function OperationExample({ operation, reduction }: { operation: string; reduction: Reduction }) {
+  const example = getOperationExample(operation, reduction)
   if (!example) return null
 
   return (
@@ -1135,10 +2137,12 @@ function OperationExample({ operation }: { operation: string }) {
               <p className="text-xs text-gray-600 leading-relaxed">
                 {operation === 'all-reduce' && 'Each GPU computes gradients ∇L_i from its batch. All-Reduce computes Σ∇L_i and distributes the averaged gradient to all GPUs for synchronized weight updates.'}
                 {operation === 'all-gather' && 'Each GPU computes A_i × B where A is split across GPUs. All-Gather collects all A_i × B results so every GPU has the complete concatenated output [A₀×B, A₁×B, A₂×B, A₃×B].'}
+                {operation === 'reduce-scatter' && 'Each GPU computes a full partial product or gradient G_i. Reduce-Scatter computes ΣG_i and leaves row block j of the sum on GPU j, so the next sharded layer or optimizer step works on 1/N of the matrix.'}
                 {operation === 'gather' && 'Each GPU computes A_i × B independently. Gather collects all results [A₀×B, A₁×B, A₂×B, A₃×B] to GPU 0 only for final aggregation, checkpointing, or logging.'}
                 {operation === 'scatter' && 'Root GPU splits matrix A into chunks [A₀, A₁, A₂, A₃]. Scatter sends A_i to GPU i. Each GPU then computes A_i × B in parallel, enabling data parallelism.'}
                 {operation === 'broadcast' && 'Root GPU has weight matrix W (from model parameters). Broadcast sends identical copy of W to all GPUs. Each GPU uses W for local forward/backward pass computations.'}
                 {operation === 'reduce' && 'Each GPU computes loss L_i from its batch. Reduce computes ΣL_i (sum of all losses) and sends the total to root GPU only for logging, early stopping decisions, or monitoring.'}
+                {operation === 'all-to-all' && 'Each GPU holds a token matrix X_i whose row block j belongs to expert j. All-to-All transposes the blocks so GPU j can multiply all of its tokens by its expert weights W_j in one GEMM.'}
               </p>
             </div>
           </div>
@@ -1263,20 +2267,24 @@ function FlowDiagram({ steps, operation }: { steps: FlowStep[]; operation: strin
             <p className="text-xs text-gray-700 leading-relaxed mb-2">
               {operation === 'all-reduce' && 'All processes send their local data to a central reduction point. The reduction operation (SUM, MAX, MIN, etc.) is applied, and the result is sent back to all processes. This ensures all GPUs have the same aggregated value.'}
               {operation === 'all-gather' && 'Each process sends its local data to all other processes simultaneously. After completion, every process has a concatenated copy of all data from all processes. This creates a complete dataset on each GPU.'}
+              {operation === 'reduce-scatter' && 'Each process splits its data into N chunks. Chunk i from every process is reduced (SUM, MAX, MIN, etc.) onto process i, so each process ends up owning one fully reduced chunk. Following it with All-Gather gives an All-Reduce.'}
               {operation === 'gather' && 'All processes send their local data to the root process (typically GPU 0). Only the root process receives the complete collected data. Other processes do not receive the gathered data.'}
               {operation === 'scatter' && 'The root process (GPU 0) splits its data into chunks and distributes different chunks to each process. Each process receives a unique portion of the data. This is the inverse of gather.'}
               {operation === 'broadcast' && 'The root process (GPU 0) sends an identical copy of its data to all other processes. All processes end up with the same data. This is commonly used to distribute model weights or hyperparameters.'}
               {operation === 'reduce' && 'All processes send their local data to the root process, where a reduction operation (SUM, MAX, MIN, etc.) is applied. Only the root process receives the reduced result. This is useful for aggregating metrics or losses.'}
+              {operation === 'all-to-all' && 'Each process splits its data into N chunks and sends chunk j to process j. Every process receives a distinct chunk from every other process; the data is effectively transposed across GPUs. No reduction is applied.'}
             </p>
             <div className="mt-2 pt-2 border-t border-gray-200">
               <p className="text-xs text-gray-600">
                 <span className="font-semibold text-indigo-700">Communication Pattern:</span>{' '}
                 {operation === 'all-reduce' && 'Ring or Tree topology for efficient bandwidth usage'}
                 {operation === 'all-gather' && 'All-to-all communication pattern'}
+                {operation === 'reduce-scatter' && 'Ring or recursive halving, each rank receiving (N−1)/N of the data'}
                 {operation === 'gather' && 'Many-to-one communication (star topology)'}
                 {operation === 'scatter' && 'One-to-many communication (star topology)'}
                 {operation === 'broadcast' && 'One-to-many communication (star or tree topology)'}
                 {operation === 'reduce' && 'Many-to-one communication with reduction (star topology)'}
+                {operation === 'all-to-all' && 'Pairwise exchange between every pair of ranks (needs full bisection bandwidth)'}
               </p>
             </div>
           </div>
@@ -1316,7 +2324,7 @@ function MatrixDisplay({
                 }}
                 transition={{ duration: 0.4 }}
               >
-                {cell}
+                {formatCellValue(cell)}
               </motion.div>
             )
           })}
@@ -1327,124 +2335,55 @@ function MatrixDisplay({
 }
 
 interface AnimatedCellFlowProps {
-  processes: Process[]
-  resultMatrix: number[][] | null
-  currentStep: number
-  totalCells: number
-  direction: 'all-reduce' | 'gather' | 'scatter' | 'broadcast' | 'reduce'
+  schedule: CollectiveSchedule
+  payloads: Payload[]
+  cols: number
+  anchorOf?: (payload: Payload, end: 'src' | 'dst') => number | string // data-process-id to fly from / to
 }
 
 function AnimatedCellFlow({
-  processes,
-  resultMatrix,
-  currentStep,
-  totalCells,
-  direction,
+  schedule,
+  payloads,
+  cols,
+  anchorOf = (payload, end) => payload[end],
 }: AnimatedCellFlowProps) {
-  const sourceRefs = useRef<(HTMLDivElement | null)[]>([])
-  const targetRefs = useRef<(HTMLDivElement | null)[]>([])
-
-  useEffect(() => {
-    processes.forEach((process) => {
-      const sourceEl = document.querySelector(`[data-process-id="${process.id}"]`)
-      if (sourceEl) {
-        sourceRefs.current[process.id] = sourceEl as HTMLDivElement
-      }
-    })
-
-    if (direction === 'all-reduce') {
-      const centerEl = document.querySelector('[data-process-id="center"]')
-      if (centerEl) targetRefs.current[0] = centerEl as HTMLDivElement
-    } else if (direction === 'gather' || direction === 'reduce') {
-      const rootEl = document.querySelector('[data-process-id="0"]')
-      if (rootEl) targetRefs.current[0] = rootEl as HTMLDivElement
-    }
-  }, [processes, direction])
-
-  const getActiveCells = () => {
-    const cells: Array<{ value: number; sourceId: number; targetId: number | string; cellIndex: number }> = []
-    
-    if (direction === 'all-reduce') {
-      // Phase 1: Send to center
-      if (currentStep < totalCells) {
-        processes.forEach((process) => {
-          process.matrix.flat().forEach((value, idx) => {
-            const globalIndex = process.id * 9 + idx
-            if (globalIndex < currentStep && globalIndex >= currentStep - 3) {
-              cells.push({ value, sourceId: process.id, targetId: 'center', cellIndex: idx })
-            }
-          })
-        })
-      }
-      // Phase 2: Receive from center
-      else {
-        const receiveStep = currentStep - totalCells
-        processes.forEach((process) => {
-          if (resultMatrix) {
-            resultMatrix.flat().forEach((value, idx) => {
-              const globalIndex = process.id * 9 + idx
-              if (globalIndex < receiveStep && globalIndex >= receiveStep - 3) {
-                cells.push({ value, sourceId: 'center' as any, targetId: process.id, cellIndex: idx })
-              }
-            })
-          }
-        })
-      }
-    } else if (direction === 'gather' || direction === 'reduce') {
-      processes.forEach((process) => {
-        process.matrix.flat().forEach((value, idx) => {
-          const globalIndex = process.id * 9 + idx
-          if (globalIndex < currentStep && globalIndex >= currentStep - 3) {
-            cells.push({ value, sourceId: process.id, targetId: 0, cellIndex: idx })
-          }
-        })
-      })
-    } else if (direction === 'scatter') {
-      processes.forEach((process, processIdx) => {
-        process.matrix.flat().forEach((value, idx) => {
-          const globalIndex = processIdx * 9 + idx
-          if (globalIndex < currentStep && globalIndex >= currentStep - 3) {
-            cells.push({ value, sourceId: 0, targetId: process.id, cellIndex: idx })
-          }
-        })
-      })
-    } else if (direction === 'broadcast') {
-      processes.slice(1).forEach((process, processIdx) => {
-        processes[0].matrix.flat().forEach((value, idx) => {
-          const globalIndex = processIdx * 9 + idx
-          if (globalIndex < currentStep && globalIndex >= currentStep - 3) {
-            cells.push({ value, sourceId: 0, targetId: process.id, cellIndex: idx })
-          }
-        })
-      })
-    }
-
-    return cells
-  }
-
-  const activeCells = getActiveCells()
+  const anchor = (id: number | string) => document.querySelector<HTMLDivElement>(`[data-process-id="${id}"]`)
+
+  // One floating cell per value each payload carries
+  const activeCells = payloads.flatMap((payload) =>
+    schedule.chunks[payload.chunk].cells
+      .slice(0, payload.values.length)
+      .map((cellIndex, i) => ({
+        key: `${payload.step}-${payload.src}-${payload.dst}-${payload.chunk}-${cellIndex}`,
+        value: payload.values[i],
+        source: anchorOf(payload, 'src'),
+        target: anchorOf(payload, 'dst'),
+        cellIndex,
+      }))
+  )
 
   return (
     <div className="animated-cells-container">
       <AnimatePresence>
         {activeCells.map((cell, idx) => {
-          const sourceEl = sourceRefs.current[cell.sourceId as number]
-          const targetEl = targetRefs.current[0] || sourceRefs.current[cell.targetId as number]
+          const sourceEl = anchor(cell.source)
+          const targetEl = anchor(cell.target)
 
           if (!sourceEl || !targetEl) return null
 
           const sourceRect = sourceEl.getBoundingClientRect()
           const targetRect = targetEl.getBoundingClientRect()
-          const cellRow = Math.floor(cell.cellIndex / 3)
-          const cellCol = cell.cellIndex % 3
+          const cellRow = Math.floor(cell.cellIndex / cols)
+          const cellCol = cell.cellIndex % cols
 
           // Get container bounds - find the visualization container
           const container = sourceEl.closest('.bg-gradient-to-br') || document.querySelector('.bg-gradient-to-br.from-gray-50')
           const containerRect = container?.getBoundingClientRect() || { left: 0, top: 0, width: 0, height: 0 }
 
           // Calculate positions relative to container, ensuring they stay within bounds
-          const cellOffsetX = (cellCol - 1) * 45
-          const cellOffsetY = (cellRow - 1) * 45
+          const cellPitch = sourceRect.width / cols
+          const cellOffsetX = (cellCol - (cols - 1) / 2) * cellPitch
+          const cellOffsetY = (cellRow - (cols - 1) / 2) * cellPitch
           
           const sourceX = Math.max(0, Math.min(
             sourceRect.left - containerRect.left + sourceRect.width / 2 + cellOffsetX,
@@ -1465,7 +2404,7 @@ function AnimatedCellFlow({
 
           return (
             <motion.div
-              key={`${cell.sourceId}-${cell.targetId}-${cell.cellIndex}-${idx}`}
+              key={cell.key}
               className="floating-cell"
               initial={{
                 x: sourceX,
@@ -1490,7 +2429,7 @@ function AnimatedCellFlow({
                 top: 0,
               }}
             >
-              {cell.value}
+              {formatCellValue(cell.value)}
             </motion.div>
           )
         })}
@@ -0,0 +1,281 @@
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { findGpuByName, type NvidiaGpu, type PrecisionKey } from '../data/nvidiaGpus'
+import {
+  calculateExecutionTime,
+  getAdjustedTflops,
+  precisionTypes,
+  type ExecutionTime,
+  type ExecutionUnit,
+  type PrecisionType,
+} from '../utils/flops'
+import { getGpuOptions } from '../utils/selectOptions'
+import { useCustomGpus } from '../hooks/useCustomGpus'
+import MaterialSelect from './MaterialSelect'
+
+interface GpuComparisonProps {
+  totalFlops: number
+  executionUnit: ExecutionUnit
+  sparse: boolean
+  initialGpu: NvidiaGpu | null
+  initialPrecision: PrecisionType
+}
+
+interface ComparisonRow {
+  gpu: NvidiaGpu
+  precision: PrecisionType
+  tflops: number | null // null = precision not supported
+  time: ExecutionTime | null
+  speedup: number | null // Relative to the baseline GPU at the same precision
+}
+
+type SortKey = 'gpu' | 'precision' | 'tflops' | 'time' | 'speedup'
+
+const columns: Array<{ key: SortKey; label: string; align: 'left' | 'right' }> = [
+  { key: 'gpu', label: 'GPU', align: 'left' },
+  { key: 'precision', label: 'Precision', align: 'left' },
+  { key: 'tflops', label: 'Peak TFLOPS', align: 'right' },
+  { key: 'time', label: 'Execution Time', align: 'right' },
+  { key: 'speedup', label: 'Speedup', align: 'right' },
+]
+
+function compareRows(a: ComparisonRow, b: ComparisonRow, key: SortKey): number {
+  switch (key) {
+    case 'gpu':
+      return a.gpu.name.localeCompare(b.gpu.name)
+    case 'precision':
+      return precisionTypes.indexOf(a.precision) - precisionTypes.indexOf(b.precision)
+    case 'tflops':
+      return (a.tflops ?? 0) - (b.tflops ?? 0)
+    case 'time':
+      return (a.time?.seconds ?? 0) - (b.time?.seconds ?? 0)
+    case 'speedup':
+      return (a.speedup ?? 0) - (b.speedup ?? 0)
+  }
+}
+
+function sortValueMissing(row: ComparisonRow, key: SortKey): boolean {
+  if (key === 'tflops' || key === 'time') return row.tflops === null
+  if (key === 'speedup') return row.speedup === null
+  return false
+}
+
+export default function GpuComparison({
+  totalFlops,
+  executionUnit,
+  sparse,
+  initialGpu,
+  initialPrecision,
+}: GpuComparisonProps) {
+  const [gpuNames, setGpuNames] = useState<string[]>(initialGpu ? [initialGpu.name] : [])
+  const [precisionKeys, setPrecisionKeys] = useState<PrecisionKey[]>([initialPrecision.value])
+  const [baselineName, setBaselineName] = useState<string | null>(initialGpu?.name ?? null)
+  const [sortKey, setSortKey] = useState<SortKey>('time')
+  const [sortAscending, setSortAscending] = useState(true)
+
+  const customGpus = useCustomGpus()
+  const gpuOptions = useMemo(() => getGpuOptions(customGpus), [customGpus])
+  const availableOptions = gpuOptions.filter((option) => !gpuNames.includes(option.value))
+
+  const gpus = gpuNames
+    .map((name) => findGpuByName(name))
+    .filter((gpu): gpu is NvidiaGpu => gpu !== undefined)
+  const precisions = precisionTypes.filter((precision) => precisionKeys.includes(precision.value))
+  const baseline = gpus.find((gpu) => gpu.name === baselineName) ?? gpus[0] ?? null
+
+  const rows: ComparisonRow[] = gpus.flatMap((gpu) =>
+    precisions.map((precision) => {
+      const tflops = getAdjustedTflops(gpu, precision, executionUnit, sparse)
+      const baselineTflops = baseline ? getAdjustedTflops(baseline, precision, executionUnit, sparse) : null
+      return {
+        gpu,
+        precision,
+        tflops,
+        time: tflops !== null ? calculateExecutionTime(totalFlops, tflops) : null,
+        // Same FLOPs on both GPUs, so the speedup is the throughput ratio
+        speedup: tflops !== null && baselineTflops !== null ? tflops / baselineTflops : null,
+      }
+    })
+  )
+
+  // Rows without a value for the sort column always go last
+  const sortedRows = [...rows].sort((a, b) => {
+    const aMissing = sortValueMissing(a, sortKey)
+    const bMissing = sortValueMissing(b, sortKey)
+    if (aMissing !== bMissing) return aMissing ? 1 : -1
+    const order = compareRows(a, b, sortKey)
+    return sortAscending ? order : -order
+  })
+  const maxSeconds = Math.max(0, ...rows.map((row) => row.time?.seconds ?? 0))
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortKey(key)
+      setSortAscending(true)
+    }
+  }
+
+  const removeGpu = (name: string) => {
+    setGpuNames((prev) => prev.filter((gpuName) => gpuName !== name))
+    if (baselineName === name) setBaselineName(null)
+  }
+
+  const togglePrecision = (key: PrecisionKey) => {
+    setPrecisionKeys((prev) =>
+      prev.includes(key) ? prev.filter((value) => value !== key) : [...prev, key]
+    )
+  }
+
+  return (
+    <div className="border-t pt-6 space-y-6">
+      <div>
+        <h3 className="text-2xl font-semibold text-gray-800 mb-1">Compare GPUs</h3>
+        <p className="text-sm text-gray-600">
+          Execution time of the same operation ({totalFlops.toLocaleString()} FLOPs) at peak throughput on
+          several GPUs.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 items-start">
+        <div className="space-y-3">
+          <MaterialSelect
+            id="compare-gpu-select"
+            label="Add GPU"
+            value=""
+            onChange={(value) => {
+              setGpuNames((prev) => [...prev, value])
+              if (!baselineName) setBaselineName(value)
+            }}
+            options={availableOptions}
+          />
+          <div className="flex flex-wrap gap-2">
+            {gpus.map((gpu) => (
+              <span
+                key={gpu.name}
+                className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
+                  gpu === baseline ? 'bg-indigo-100 text-indigo-800' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => setBaselineName(gpu.name)}
+                  title="Use as baseline"
+                  className="font-medium"
+                >
+                  {gpu.name}
+                  {gpu === baseline && <span className="text-xs ml-1">(baseline)</span>}
+                </button>
+                <button
+                  onClick={() => removeGpu(gpu.name)}
+                  aria-label={`Remove ${gpu.name}`}
+                  className="text-gray-400 hover:text-red-500"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">Precisions</div>
+          <div className="flex flex-wrap gap-2">
+            {precisionTypes.map((precision) => (
+              <button
+                key={precision.value}
+                onClick={() => togglePrecision(precision.value)}
+                className={`
+                  px-3 py-1 rounded-md text-sm font-medium transition-all duration-200
+                  ${
+                    precisionKeys.includes(precision.value)
+                      ? 'bg-blue-500 text-white shadow-md'
+                      : 'bg-gray-100 text-gray-600 hover:text-gray-800'
+                  }
+                `}
+              >
+                {precision.value.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600">
+          Add at least one GPU and one precision to compare.
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-600 border-b">
+                  {columns.map((column) => (
+                    <th
+                      key={column.key}
+                      className={`py-2 pr-4 ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+                    >
+                      <button
+                        onClick={() => handleSort(column.key)}
+                        className="font-semibold hover:text-gray-900"
+                      >
+                        {column.label}
+                        {sortKey === column.key && (sortAscending ? ' ▲' : ' ▼')}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map((row) => (
+                  <tr key={`${row.gpu.name}-${row.precision.value}`} className="border-b last:border-b-0">
+                    <td className="py-2 pr-4 font-medium text-gray-800">{row.gpu.name}</td>
+                    <td className="py-2 pr-4 text-gray-700">{row.precision.value.toUpperCase()}</td>
+                    {row.tflops === null ? (
+                      <td colSpan={3} className="py-2 text-right text-gray-400">
+                        not supported
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-2 pr-4 text-right font-mono">{row.tflops}</td>
+                        <td className="py-2 pr-4 text-right font-mono">{row.time?.formatted}</td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {row.speedup !== null ? `${row.speedup.toFixed(2)}×` : '—'}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Bar chart of execution time, in table order */}
+          <div className="space-y-2">
+            {sortedRows.map((row) => (
+              <div key={`${row.gpu.name}-${row.precision.value}`} className="flex items-center gap-3 text-sm">
+                <div className="w-56 truncate text-gray-700">
+                  {row.gpu.name} · {row.precision.value.toUpperCase()}
+                </div>
+                <div className="flex-1 bg-gray-100 rounded-full h-4 overflow-hidden">
+                  {row.time && (
+                    <motion.div
+                      className={row.gpu === baseline ? 'bg-indigo-500 h-4' : 'bg-indigo-300 h-4'}
+                      initial={{ width: 0 }}
+                      animate={{ width: `${(row.time.seconds / maxSeconds) * 100}%` }}
+                      transition={{ duration: 0.4 }}
+                    />
+                  )}
+                </div>
+                <div className="w-28 text-right font-mono text-gray-600">
+                  {row.time ? row.time.formatted : 'n/a'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
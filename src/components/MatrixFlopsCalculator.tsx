@@ -1,339 +1,474 @@
 import { useState, useMemo } from 'react'
-import { nvidiaGpus, getGpusBySeries, type NvidiaGpu } from '../data/nvidiaGpus'
-import MaterialSelect, { type SelectOption } from './MaterialSelect'
+import { nvidiaGpus, findGpuByName, resolveGpu, type NvidiaGpu } from '../data/nvidiaGpus'
+import { useUrlState, type UrlCodec } from '../hooks/useUrlState'
+import {
+  calculateExecutionTime,
+  calculateFlops,
+  formatExecutionTime,
+  formatNumber,
+  getAdjustedTflops,
+  precisionTypes,
+  product,
+  type ExecutionTime,
+  type ExecutionUnit,
+  type FlopsCount,
+  type FlopsResult,
+  type MatrixDimensions,
+  type PrecisionType,
+} from '../utils/flops'
+import { getGpuOptions, getPrecisionOptions } from '../utils/selectOptions'
+import { useCustomGpus } from '../hooks/useCustomGpus'
+import CustomGpuEditor from './CustomGpuEditor'
+import GpuComparison from './GpuComparison'
+import MaterialSelect from './MaterialSelect'
+import RooflineChart from './RooflineChart'
 
-interface MatrixDimensions {
-  rows: number
-  cols: number
+interface EinsumSpec {
+  inputs: string[] // Index labels of each operand, e.g. ['bhqd', 'bhkd']
+  output: string
 }
 
-interface FlopsResult {
-  totalFlops: number
-  multiplications: number
-  additions: number
-  outputDimensions: MatrixDimensions
+interface EinsumResult extends FlopsCount {
+  outputShape: number[]
+  contractedIndices: string[]
+  elementsMoved: number // Elements read from every operand plus elements written
 }
 
-interface ExecutionTime {
-  seconds: number
-  milliseconds: number
-  microseconds: number
-  nanoseconds: number
-  formatted: string
+interface RooflineResult {
+  bytesMoved: number
+  arithmeticIntensity: number // FLOPs per byte of DRAM traffic
+  ridgePoint: number // Intensity where memory and compute roofs meet
+  attainableTflops: number
+  computeTime: ExecutionTime
+  memoryTime: ExecutionTime
+  time: ExecutionTime // max(compute, memory)
+  boundBy: 'compute' | 'memory'
 }
 
-export interface PrecisionType {
-  value: string
-  label: string
-  multiplier: number // Multiplier relative to FP32 (1.0 = FP32)
-  description: string
-}
+// URL-backed calculator state, e.g. ?a=3x4&b=4x5&gpu=H100+SXM&precision=bf16
+const DEFAULT_MATRIX_A: MatrixDimensions = { rows: 3, cols: 4 }
+const DEFAULT_MATRIX_B: MatrixDimensions = { rows: 4, cols: 5 }
+const DEFAULT_GPU: NvidiaGpu | null = nvidiaGpus[0]
 
-export const precisionTypes: PrecisionType[] = [
-  {
-    value: 'fp32',
-    label: 'FP32 (Single Precision)',
-    multiplier: 1.0,
-    description: '32-bit floating point (default)',
-  },
-  {
-    value: 'fp16',
-    label: 'FP16 (Half Precision)',
-    multiplier: 2.0,
-    description: '16-bit floating point (~2x faster)',
-  },
-  {
-    value: 'bf16',
-    label: 'BF16 (BFloat16)',
-    multiplier: 2.0,
-    description: 'Brain Float 16-bit (~2x faster)',
-  },
-  {
-    value: 'int8',
-    label: 'INT8 (8-bit Integer)',
-    multiplier: 4.0,
-    description: '8-bit integer quantization (~4x faster)',
-  },
-  {
-    value: 'int4',
-    label: 'INT4 (4-bit Integer)',
-    multiplier: 8.0,
-    description: '4-bit integer quantization (~8x faster)',
+const matrixCodec: UrlCodec<MatrixDimensions> = {
+  parse: (value) => {
+    const match = value.match(/^(\d+)x(\d+)$/)
+    if (!match) return null
+    const rows = parseInt(match[1])
+    const cols = parseInt(match[2])
+    return rows >= 1 && cols >= 1 ? { rows, cols } : null
   },
-  {
-    value: 'fp64',
-    label: 'FP64 (Double Precision)',
-    multiplier: 0.5,
-    description: '64-bit floating point (~2x slower)',
-  },
-]
+  serialize: (matrix) => `${matrix.rows}x${matrix.cols}`,
+}
+
+const gpuCodec: UrlCodec<NvidiaGpu | null> = {
+  parse: (value) => findGpuByName(value) ?? null,
+  serialize: (gpu) => gpu?.name ?? '',
+}
+
+const precisionCodec: UrlCodec<PrecisionType> = {
+  parse: (value) => precisionTypes.find((precision) => precision.value === value) ?? null,
+  serialize: (precision) => precision.value,
+}
+
+// Parse leading batch dimensions such as "8, 16" or "8 x 16"; empty means unbatched
+function parseBatchDims(text: string): number[] | null {
+  const dims = text.split(/[\s,×x]+/).filter(Boolean).map(Number)
+  return dims.every((dim) => Number.isInteger(dim) && dim >= 1) ? dims : null
+}
 
-// Get adjusted TFLOPS based on precision
-function getAdjustedTflops(baseTflops: number, precision: PrecisionType): number {
-  return baseTflops * precision.multiplier
+function formatShape(batch: number[], rows: number, cols: number): string {
+  return `[${[...batch, rows, cols].join(' × ')}]`
 }
 
-function calculateFlops(
+// Elements of A, B and C touched by a (batched) GEMM; a broadcast operand is read once
+function countGemmElements(
   matrixA: MatrixDimensions,
-  matrixB: MatrixDimensions
-): FlopsResult | null {
-  // Check if matrix multiplication is possible
-  if (matrixA.cols !== matrixB.rows) {
+  matrixB: MatrixDimensions,
+  batchA: number[],
+  batchB: number[],
+  result: FlopsResult
+): number {
+  return (
+    product(batchA) * matrixA.rows * matrixA.cols +
+    product(batchB) * matrixB.rows * matrixB.cols +
+    result.batchCount * matrixA.rows * matrixB.cols
+  )
+}
+
+const DEFAULT_INDEX_SIZE = 64
+
+function parseEinsum(expression: string): EinsumSpec | null {
+  const [lhs, rhs, ...rest] = expression.replace(/\s+/g, '').split('->')
+  if (rest.length > 0 || !lhs) {
     return null
   }
 
-  const m = matrixA.rows
-  const n = matrixA.cols // same as matrixB.rows
-  const p = matrixB.cols
+  const inputs = lhs.split(',')
+  if (inputs.some((operand) => !/^[a-zA-Z]+$/.test(operand))) {
+    return null
+  }
 
-  // Output matrix dimensions
-  const outputDimensions: MatrixDimensions = {
-    rows: m,
-    cols: p,
+  // Implicit mode (no "->"): indices appearing exactly once, in alphabetical order
+  const allIndices = inputs.join('')
+  const output = rhs ?? [...new Set(allIndices)]
+    .filter((index) => allIndices.split(index).length === 2)
+    .sort()
+    .join('')
+
+  // Output indices must be unique and come from the inputs
+  if (!/^[a-zA-Z]*$/.test(output) || new Set(output).size !== output.length) {
+    return null
   }
+  if ([...output].some((index) => !allIndices.includes(index))) {
+    return null
+  }
+
+  return { inputs, output }
+}
+
+function getEinsumIndices(spec: EinsumSpec): string[] {
+  return [...new Set(spec.inputs.join(''))]
+}
+
+function calculateEinsumFlops(
+  spec: EinsumSpec,
+  indexSizes: Record<string, number>
+): EinsumResult | null {
+  const sizeOf = (index: string) => indexSizes[index] ?? DEFAULT_INDEX_SIZE
+  if (getEinsumIndices(spec).some((index) => !Number.isInteger(sizeOf(index)) || sizeOf(index) < 1)) return null
+  const contractedIndices = getEinsumIndices(spec).filter((index) => !spec.output.includes(index))
+
+  const outputShape = [...spec.output].map(sizeOf)
+  const outputElements = product(outputShape)
+  const contractedElements = product(contractedIndices.map(sizeOf))
 
-  // For each element in the output matrix (m × p elements):
-  // - We need n multiplications
-  // - We need (n - 1) additions
-  const multiplications = m * p * n
-  const additions = m * p * (n - 1)
-  const totalFlops = multiplications + additions
+  // Naive evaluation over the full index space: each point multiplies all
+  // operands together, and each output element sums its contracted points
+  const multiplications = (spec.inputs.length - 1) * outputElements * contractedElements
+  const additions = outputElements * (contractedElements - 1)
+
+  const elementsMoved =
+    spec.inputs.reduce((acc, operand) => acc + product([...operand].map(sizeOf)), 0) +
+    outputElements
 
   return {
-    totalFlops,
+    totalFlops: multiplications + additions,
     multiplications,
     additions,
-    outputDimensions,
+    outputShape,
+    contractedIndices,
+    elementsMoved,
   }
 }
 
-function formatNumber(num: number): string {
-  if (num >= 1e12) {
-    return (num / 1e12).toFixed(2) + 'T'
-  }
-  if (num >= 1e9) {
-    return (num / 1e9).toFixed(2) + 'B'
-  }
-  if (num >= 1e6) {
-    return (num / 1e6).toFixed(2) + 'M'
-  }
-  if (num >= 1e3) {
-    return (num / 1e3).toFixed(2) + 'K'
-  }
-  return num.toString()
-}
-
-function calculateExecutionTime(
+function calculateRoofline(
+  elementsMoved: number,
   totalFlops: number,
-  gpuTflops: number,
-  precision: PrecisionType = precisionTypes[0]
-): ExecutionTime {
-  // Adjust TFLOPS based on precision
-  const adjustedTflops = getAdjustedTflops(gpuTflops, precision)
-  
-  // GPU TFLOPS is in TeraFLOPS (10^12 operations per second)
-  // Time in seconds = Total FLOPs / (Adjusted GPU TFLOPS * 10^12)
-  const seconds = totalFlops / (adjustedTflops * 1e12)
-  const milliseconds = seconds * 1000
-  const microseconds = milliseconds * 1000
-  const nanoseconds = microseconds * 1000
-
-  // Format time in the most appropriate unit
-  let formatted: string
-  if (seconds >= 1) {
-    formatted = `${seconds.toFixed(6)} s`
-  } else if (milliseconds >= 1) {
-    formatted = `${milliseconds.toFixed(6)} ms`
-  } else if (microseconds >= 1) {
-    formatted = `${microseconds.toFixed(6)} μs`
-  } else {
-    formatted = `${nanoseconds.toFixed(3)} ns`
-  }
+  gpu: NvidiaGpu,
+  peakTflops: number,
+  precision: PrecisionType
+): RooflineResult {
+  const bandwidth = gpu.memoryBandwidth * 1e9 // bytes per second
+
+  // Each operand is read once and the output written once (ideal caching)
+  const bytesMoved = elementsMoved * precision.bytesPerElement
+
+  const arithmeticIntensity = totalFlops / bytesMoved
+  const ridgePoint = (peakTflops * 1e12) / bandwidth
+  const attainableTflops = Math.min(peakTflops, (arithmeticIntensity * bandwidth) / 1e12)
+
+  const computeTime = formatExecutionTime(totalFlops / (peakTflops * 1e12))
+  const memoryTime = formatExecutionTime(bytesMoved / bandwidth)
+  const boundBy = memoryTime.seconds > computeTime.seconds ? 'memory' : 'compute'
 
   return {
-    seconds,
-    milliseconds,
-    microseconds,
-    nanoseconds,
-    formatted,
+    bytesMoved,
+    arithmeticIntensity,
+    ridgePoint,
+    attainableTflops,
+    computeTime,
+    memoryTime,
+    time: boundBy === 'memory' ? memoryTime : computeTime,
+    boundBy,
   }
 }
 
 export default function MatrixFlopsCalculator() {
-  const [matrixA, setMatrixA] = useState<MatrixDimensions>({ rows: 3, cols: 4 })
-  const [matrixB, setMatrixB] = useState<MatrixDimensions>({ rows: 4, cols: 5 })
-  const [selectedGpu, setSelectedGpu] = useState<NvidiaGpu | null>(nvidiaGpus[0])
-  const [selectedPrecision, setSelectedPrecision] = useState<PrecisionType>(precisionTypes[0])
+  const [matrixA, setMatrixA] = useUrlState('a', DEFAULT_MATRIX_A, matrixCodec)
+  const [matrixB, setMatrixB] = useUrlState('b', DEFAULT_MATRIX_B, matrixCodec)
+  const [batchTextA, setBatchTextA] = useState('')
+  const [batchTextB, setBatchTextB] = useState('')
+  const [inputMode, setInputMode] = useState<'matrix' | 'einsum'>('matrix')
+  const [einsumExpression, setEinsumExpression] = useState('bhqd,bhkd->bhqk')
+  const [indexSizes, setIndexSizes] = useState<Record<string, number>>({
+    b: 8,
+    h: 16,
+    q: 512,
+    k: 512,
+    d: 64,
+  })
+  const [pickedGpu, setSelectedGpu] = useUrlState('gpu', DEFAULT_GPU, gpuCodec)
+  const [selectedPrecision, setSelectedPrecision] = useUrlState('precision', precisionTypes[0], precisionCodec)
+  const [executionUnit, setExecutionUnit] = useState<ExecutionUnit>('auto')
+  const [sparse, setSparse] = useState(false)
+  const [timeModel, setTimeModel] = useState<'peak' | 'roofline'>('peak')
+  const [showCustomEditor, setShowCustomEditor] = useState(false)
 
-  const result = calculateFlops(matrixA, matrixB)
-  const isValid = result !== null
+  const customGpus = useCustomGpus()
+  const gpuOptions = useMemo(() => getGpuOptions(customGpus), [customGpus])
+  const precisionOptions = useMemo(() => getPrecisionOptions(), [])
+  const selectedGpu = resolveGpu(pickedGpu)
 
-  const gpusBySeries = getGpusBySeries()
-  const executionTime = result && selectedGpu
-    ? calculateExecutionTime(result.totalFlops, selectedGpu.tflops, selectedPrecision)
-    : null
+  const batchA = parseBatchDims(batchTextA)
+  const batchB = parseBatchDims(batchTextB)
+  const result = batchA && batchB ? calculateFlops(matrixA, matrixB, batchA, batchB) : null
+
+  const einsumSpec = parseEinsum(einsumExpression)
+  const einsumResult = einsumSpec ? calculateEinsumFlops(einsumSpec, indexSizes) : null
+
+  // Both input modes feed the same execution-time pipeline
+  const flops: FlopsCount | null = inputMode === 'matrix' ? result : einsumResult
+  const elementsMoved =
+    inputMode === 'matrix'
+      ? result && batchA && batchB
+        ? countGemmElements(matrixA, matrixB, batchA, batchB, result)
+        : 0
+      : einsumResult?.elementsMoved ?? 0
+  const isValid = flops !== null
 
-  // Convert GPU data to MaterialSelect options
-  const gpuOptions: SelectOption[] = useMemo(() => {
-    const options: SelectOption[] = []
-    Object.entries(gpusBySeries).forEach(([series, gpus]) => {
-      gpus.forEach((gpu) => {
-        options.push({
-          value: gpu.name,
-          label: `${gpu.name} (${gpu.tflops} TFLOPS${gpu.memory ? `, ${gpu.memory}` : ''})`,
-          group: series,
-        })
-      })
-    })
-    return options
-  }, [gpusBySeries])
-
-  // Convert precision types to MaterialSelect options
-  const precisionOptions: SelectOption[] = useMemo(() => {
-    return precisionTypes.map((precision) => ({
-      value: precision.value,
-      label: precision.label,
-    }))
-  }, [])
-
-  // Calculate adjusted TFLOPS for selected GPU and precision
+  // Peak TFLOPS for selected GPU, precision and execution units (null = unsupported)
   const adjustedTflops = selectedGpu
-    ? getAdjustedTflops(selectedGpu.tflops, selectedPrecision)
-    : 0
+    ? getAdjustedTflops(selectedGpu, selectedPrecision, executionUnit, sparse)
+    : null
+  const fp32Tflops = selectedGpu
+    ? getAdjustedTflops(selectedGpu, precisionTypes[0], 'cuda')
+    : null
+
+  const executionTime = flops && adjustedTflops !== null
+    ? calculateExecutionTime(flops.totalFlops, adjustedTflops)
+    : null
+  const perBatchTime = result && adjustedTflops !== null
+    ? calculateExecutionTime(result.perBatch.totalFlops, adjustedTflops)
+    : null
+  const roofline = flops && selectedGpu && adjustedTflops !== null && timeModel === 'roofline'
+    ? calculateRoofline(elementsMoved, flops.totalFlops, selectedGpu, adjustedTflops, selectedPrecision)
+    : null
+  // The roofline estimate replaces the peak-only one wherever a single time is shown
+  const estimatedTime = roofline ? roofline.time : executionTime
 
   return (
     <div className="max-w-6xl mx-auto">
       <div className="bg-white rounded-2xl shadow-xl p-8 space-y-8">
-        {/* Input Section */}
-        <div className="grid md:grid-cols-2 gap-8">
-          {/* Matrix A */}
-          <div className="space-y-4">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-              Matrix A
-            </h2>
-            <div className="space-y-3">
-              <div>
-                <label
-                  htmlFor="a-rows"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Rows (m)
-                </label>
-                <input
-                  id="a-rows"
-                  type="number"
-                  min="1"
-                  value={matrixA.rows}
-                  onChange={(e) =>
-                    setMatrixA({
-                      ...matrixA,
-                      rows: parseInt(e.target.value) || 1,
-                    })
+        {/* Input Mode */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium text-gray-700">Input Mode:</span>
+          <div className="inline-flex bg-gray-100 rounded-lg p-1">
+            {([
+              { value: 'matrix', label: 'Matrices (A × B)' },
+              { value: 'einsum', label: 'Einsum Expression' },
+            ] as const).map((mode) => (
+              <button
+                key={mode.value}
+                onClick={() => setInputMode(mode.value)}
+                className={`
+                  px-4 py-2 rounded-md text-sm font-medium transition-all duration-200
+                  ${
+                    inputMode === mode.value
+                      ? 'bg-blue-500 text-white shadow-md'
+                      : 'text-gray-600 hover:text-gray-800'
                   }
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+                `}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Input Section */}
+        {inputMode === 'matrix' ? (
+          <div className="grid md:grid-cols-2 gap-8">
+            {/* Matrix A */}
+            <div className="space-y-4">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+                Matrix A
+              </h2>
+              <div className="space-y-3">
+                <div>
+                  <label
+                    htmlFor="a-batch"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Batch Dimensions (optional)
+                  </label>
+                  <input
+                    id="a-batch"
+                    type="text"
+                    placeholder="e.g. 8, 16"
+                    value={batchTextA}
+                    onChange={(e) => setBatchTextA(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="a-rows"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Rows (m)
+                  </label>
+                  <input
+                    id="a-rows"
+                    type="number"
+                    min="1"
+                    value={matrixA.rows}
+                    onChange={(e) =>
+                      setMatrixA({
+                        ...matrixA,
+                        rows: parseInt(e.target.value) || 1,
+                      })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="a-cols"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Columns (n)
+                  </label>
+                  <input
+                    id="a-cols"
+                    type="number"
+                    min="1"
+                    value={matrixA.cols}
+                    onChange={(e) =>
+                      setMatrixA({
+                        ...matrixA,
+                        cols: parseInt(e.target.value) || 1,
+                      })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
               </div>
-              <div>
-                <label
-                  htmlFor="a-cols"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Columns (n)
-                </label>
-                <input
-                  id="a-cols"
-                  type="number"
-                  min="1"
-                  value={matrixA.cols}
-                  onChange={(e) =>
-                    setMatrixA({
-                      ...matrixA,
-                      cols: parseInt(e.target.value) || 1,
-                    })
-                  }
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+              <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+                <p className="text-sm text-gray-600">
+                  <span className="font-semibold">Size:</span>{' '}
+                  {batchA ? formatShape(batchA, matrixA.rows, matrixA.cols) : 'invalid batch dimensions'}
+                </p>
               </div>
             </div>
-            <div className="mt-4 p-4 bg-blue-50 rounded-lg">
-              <p className="text-sm text-gray-600">
-                <span className="font-semibold">Size:</span> {matrixA.rows} ×{' '}
-                {matrixA.cols}
-              </p>
-            </div>
-          </div>
 
-          {/* Matrix B */}
-          <div className="space-y-4">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-              Matrix B
-            </h2>
-            <div className="space-y-3">
-              <div>
-                <label
-                  htmlFor="b-rows"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Rows (n)
-                </label>
-                <input
-                  id="b-rows"
-                  type="number"
-                  min="1"
-                  value={matrixB.rows}
-                  onChange={(e) =>
-                    setMatrixB({
-                      ...matrixB,
-                      rows: parseInt(e.target.value) || 1,
-                    })
-                  }
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+            {/* Matrix B */}
+            <div className="space-y-4">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+                Matrix B
+              </h2>
+              <div className="space-y-3">
+                <div>
+                  <label
+                    htmlFor="b-batch"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Batch Dimensions (optional)
+                  </label>
+                  <input
+                    id="b-batch"
+                    type="text"
+                    placeholder="e.g. 8, 16"
+                    value={batchTextB}
+                    onChange={(e) => setBatchTextB(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="b-rows"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Rows (n)
+                  </label>
+                  <input
+                    id="b-rows"
+                    type="number"
+                    min="1"
+                    value={matrixB.rows}
+                    onChange={(e) =>
+                      setMatrixB({
+                        ...matrixB,
+                        rows: parseInt(e.target.value) || 1,
+                      })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="b-cols"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Columns (p)
+                  </label>
+                  <input
+                    id="b-cols"
+                    type="number"
+                    min="1"
+                    value={matrixB.cols}
+                    onChange={(e) =>
+                      setMatrixB({
+                        ...matrixB,
+                        cols: parseInt(e.target.value) || 1,
+                      })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
               </div>
-              <div>
-                <label
-                  htmlFor="b-cols"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Columns (p)
-                </label>
-                <input
-                  id="b-cols"
-                  type="number"
-                  min="1"
-                  value={matrixB.cols}
-                  onChange={(e) =>
-                    setMatrixB({
-                      ...matrixB,
-                      cols: parseInt(e.target.value) || 1,
-                    })
-                  }
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+              <div className="mt-4 p-4 bg-purple-50 rounded-lg">
+                <p className="text-sm text-gray-600">
+                  <span className="font-semibold">Size:</span>{' '}
+                  {batchB ? formatShape(batchB, matrixB.rows, matrixB.cols) : 'invalid batch dimensions'}
+                </p>
               </div>
             </div>
-            <div className="mt-4 p-4 bg-purple-50 rounded-lg">
-              <p className="text-sm text-gray-600">
-                <span className="font-semibold">Size:</span> {matrixB.rows} ×{' '}
-                {matrixB.cols}
-              </p>
-            </div>
           </div>
-        </div>
+        ) : (
+          <EinsumInputs
+            expression={einsumExpression}
+            onExpressionChange={setEinsumExpression}
+            spec={einsumSpec}
+            indexSizes={indexSizes}
+            onIndexSizeChange={(index, size) =>
+              setIndexSizes((prev) => ({ ...prev, [index]: size }))
+            }
+          />
+        )}
 
         {/* GPU Selection Section */}
         <div className="border-t pt-6">
-          <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-            Select NVIDIA GPU & Precision
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-2xl font-semibold text-gray-800">
+              Select NVIDIA GPU & Precision
+            </h2>
+            <button
+              onClick={() => setShowCustomEditor(!showCustomEditor)}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all duration-200"
+            >
+              {showCustomEditor ? 'Hide Custom GPUs' : 'Custom GPUs'}
+            </button>
+          </div>
           <div className="space-y-4">
+            {showCustomEditor && <CustomGpuEditor onSave={setSelectedGpu} />}
             <div className="grid md:grid-cols-2 gap-4">
               <MaterialSelect
                 id="gpu-select"
                 label="GPU Model"
                 value={selectedGpu?.name || ''}
                 onChange={(value) => {
-                  const gpu = nvidiaGpus.find(g => g.name === value)
+                  const gpu = findGpuByName(value)
                   setSelectedGpu(gpu || null)
                 }}
                 options={gpuOptions}
@@ -349,6 +484,64 @@ export default function MatrixFlopsCalculator() {
                 options={precisionOptions}
               />
             </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium text-gray-700">Execution Units:</span>
+              <div className="inline-flex bg-gray-100 rounded-lg p-1">
+                {([
+                  { value: 'auto', label: 'Best Available' },
+                  { value: 'tensor', label: 'Tensor Cores' },
+                  { value: 'cuda', label: 'CUDA Cores' },
+                ] as const).map((unit) => (
+                  <button
+                    key={unit.value}
+                    onClick={() => setExecutionUnit(unit.value)}
+                    className={`
+                      px-4 py-2 rounded-md text-sm font-medium transition-all duration-200
+                      ${
+                        executionUnit === unit.value
+                          ? 'bg-blue-500 text-white shadow-md'
+                          : 'text-gray-600 hover:text-gray-800'
+                      }
+                    `}
+                  >
+                    {unit.label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={sparse}
+                  onChange={(e) => setSparse(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                />
+                2:4 Structured Sparsity
+              </label>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-medium text-gray-700">Time Model:</span>
+              <div className="inline-flex bg-gray-100 rounded-lg p-1">
+                {([
+                  { value: 'peak', label: 'Peak Compute' },
+                  { value: 'roofline', label: 'Roofline (Memory Bandwidth)' },
+                ] as const).map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => setTimeModel(mode.value)}
+                    className={`
+                      px-4 py-2 rounded-md text-sm font-medium transition-all duration-200
+                      ${
+                        timeModel === mode.value
+                          ? 'bg-blue-500 text-white shadow-md'
+                          : 'text-gray-600 hover:text-gray-800'
+                      }
+                    `}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
             {selectedGpu && (
               <div className="bg-gradient-to-r from-green-50 to-emerald-50 rounded-lg p-4 border border-green-200">
                 <div className="grid md:grid-cols-4 gap-4">
@@ -367,21 +560,68 @@ export default function MatrixFlopsCalculator() {
                   </div>
                   <div>
                     <div className="text-sm text-gray-600 mb-1">Adjusted Performance</div>
-                    <div className="font-semibold text-blue-600">{adjustedTflops.toFixed(2)} TFLOPS</div>
-                    <div className="text-xs text-gray-500 mt-1">
-                      {selectedPrecision.multiplier > 1
-                        ? `${selectedPrecision.multiplier}x faster`
-                        : selectedPrecision.multiplier < 1
-                        ? `${(1 / selectedPrecision.multiplier).toFixed(1)}x slower`
-                        : 'Base performance'}
-                    </div>
+                    {adjustedTflops !== null ? (
+                      <>
+                        <div className="font-semibold text-blue-600">{adjustedTflops.toFixed(2)} TFLOPS</div>
+                        {fp32Tflops !== null && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {adjustedTflops > fp32Tflops
+                              ? `${(adjustedTflops / fp32Tflops).toFixed(1)}x faster than FP32`
+                              : adjustedTflops < fp32Tflops
+                              ? `${(fp32Tflops / adjustedTflops).toFixed(1)}x slower than FP32`
+                              : 'Base performance'}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <div className="font-semibold text-red-600">Not supported</div>
+                    )}
                   </div>
                   {selectedGpu.memory && (
-                    <div className="md:col-span-4">
+                    <div className="md:col-span-2">
                       <div className="text-sm text-gray-600 mb-1">Memory</div>
                       <div className="font-semibold text-gray-800">{selectedGpu.memory}</div>
                     </div>
                   )}
+                  <div className="md:col-span-2">
+                    <div className="text-sm text-gray-600 mb-1">Memory Bandwidth</div>
+                    <div className="font-semibold text-gray-800">{selectedGpu.memoryBandwidth} GB/s</div>
+                  </div>
+                  <div className="md:col-span-4">
+                    <div className="text-sm text-gray-600 mb-2">Peak Throughput by Precision (TFLOPS / TOPS)</div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-gray-600">
+                            <th className="px-2 py-1 text-left font-semibold">Precision</th>
+                            <th className="px-2 py-1 text-right font-semibold">CUDA Cores</th>
+                            <th className="px-2 py-1 text-right font-semibold">Tensor Cores</th>
+                            <th className="px-2 py-1 text-right font-semibold">Tensor Cores (Sparse)</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {precisionTypes.map((precision) => {
+                            const peak = selectedGpu.peakThroughput[precision.value]
+                            const cell = (value?: number) =>
+                              value !== undefined ? value : <span className="text-gray-400">not supported</span>
+                            return (
+                              <tr
+                                key={precision.value}
+                                className={`border-t border-green-100 ${
+                                  precision.value === selectedPrecision.value ? 'bg-green-100 font-semibold' : ''
+                                }`}
+                              >
+                                <td className="px-2 py-1 text-gray-800">{precision.value.toUpperCase()}</td>
+                                <td className="px-2 py-1 text-right font-mono">{cell(peak?.cudaCore)}</td>
+                                <td className="px-2 py-1 text-right font-mono">{cell(peak?.tensorCore)}</td>
+                                <td className="px-2 py-1 text-right font-mono">{cell(peak?.tensorCoreSparse)}</td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
                 </div>
               </div>
             )}
@@ -389,33 +629,77 @@ export default function MatrixFlopsCalculator() {
         </div>
 
         {/* Validation Message */}
-        {!isValid && (
+        {!isValid && inputMode === 'einsum' && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded">
+            <p className="text-red-700">
+              <span className="font-semibold">Invalid einsum expression:</span> Use
+              comma-separated operand indices, optionally followed by "-&gt;" and output
+              indices (e.g. bhqd,bhkd-&gt;bhqk). Output indices must be unique and appear
+              in at least one operand, and every index size must be a positive whole number.
+            </p>
+          </div>
+        )}
+        {!isValid && inputMode === 'matrix' && (
           <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded">
             <p className="text-red-700">
-              <span className="font-semibold">Invalid dimensions:</span> Matrix
-              A columns ({matrixA.cols}) must equal Matrix B rows ({matrixB.rows}
-              ) for matrix multiplication.
+              {!batchA || !batchB ? (
+                <>
+                  <span className="font-semibold">Invalid batch dimensions:</span> Enter
+                  positive integers separated by commas (e.g. 8, 16), or leave empty.
+                </>
+              ) : matrixA.cols !== matrixB.rows ? (
+                <>
+                  <span className="font-semibold">Invalid dimensions:</span> Matrix
+                  A columns ({matrixA.cols}) must equal Matrix B rows ({matrixB.rows}
+                  ) for matrix multiplication.
+                </>
+              ) : (
+                <>
+                  <span className="font-semibold">Batch dimensions do not broadcast:</span>{' '}
+                  [{batchA.join(' × ')}] and [{batchB.join(' × ')}] must match or be 1 in
+                  each position, aligned from the right.
+                </>
+              )}
             </p>
           </div>
         )}
 
         {/* Matrix Multiplication Visualization */}
-        {isValid && result && (
+        {isValid && flops && (
           <div className="border-t pt-6">
+            {inputMode === 'einsum' && einsumSpec && einsumResult && (
+              <div className="flex flex-wrap items-center justify-center gap-4 mb-6">
+                {einsumSpec.inputs.map((operand, idx) => (
+                  <div key={idx} className="flex items-center gap-4">
+                    {idx > 0 && <div className="text-3xl text-gray-600">×</div>}
+                    <div
+                      className={`${idx % 2 === 0 ? 'bg-blue-100' : 'bg-purple-100'} px-6 py-3 rounded-lg font-mono text-lg`}
+                    >
+                      {operand}[{[...operand].map((index) => indexSizes[index] ?? DEFAULT_INDEX_SIZE).join(' × ')}]
+                    </div>
+                  </div>
+                ))}
+                <div className="text-3xl text-gray-600">→</div>
+                <div className="bg-green-100 px-6 py-3 rounded-lg font-mono text-lg">
+                  {einsumSpec.output || 'scalar'}[{einsumResult.outputShape.join(' × ')}]
+                </div>
+              </div>
+            )}
+            {inputMode === 'matrix' && result && (
             <div className="flex items-center justify-center space-x-4 mb-6">
               <div className="bg-blue-100 px-6 py-3 rounded-lg font-mono text-lg">
-                [{matrixA.rows} × {matrixA.cols}]
+                {formatShape(batchA ?? [], matrixA.rows, matrixA.cols)}
               </div>
               <div className="text-3xl text-gray-600">×</div>
               <div className="bg-purple-100 px-6 py-3 rounded-lg font-mono text-lg">
-                [{matrixB.rows} × {matrixB.cols}]
+                {formatShape(batchB ?? [], matrixB.rows, matrixB.cols)}
               </div>
               <div className="text-3xl text-gray-600">=</div>
               <div className="bg-green-100 px-6 py-3 rounded-lg font-mono text-lg">
-                [{result.outputDimensions.rows} × {result.outputDimensions.cols}
-                ]
+                {formatShape(result.batchShape, result.outputDimensions.rows, result.outputDimensions.cols)}
               </div>
             </div>
+            )}
 
             {/* Results */}
             <div className="bg-gradient-to-r from-indigo-500 to-purple-600 rounded-xl p-6 text-white">
@@ -426,10 +710,10 @@ export default function MatrixFlopsCalculator() {
                     Total FLOPs
                   </div>
                   <div className="text-3xl font-bold">
-                    {formatNumber(result.totalFlops)}
+                    {formatNumber(flops.totalFlops)}
                   </div>
                   <div className="text-sm opacity-75 mt-1">
-                    ({result.totalFlops.toLocaleString()} operations)
+                    ({flops.totalFlops.toLocaleString()} operations)
                   </div>
                 </div>
                 <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
@@ -437,25 +721,60 @@ export default function MatrixFlopsCalculator() {
                     Multiplications
                   </div>
                   <div className="text-3xl font-bold">
-                    {formatNumber(result.multiplications)}
+                    {formatNumber(flops.multiplications)}
                   </div>
                   <div className="text-sm opacity-75 mt-1">
-                    ({result.multiplications.toLocaleString()} operations)
+                    ({flops.multiplications.toLocaleString()} operations)
                   </div>
                 </div>
                 <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
                   <div className="text-sm opacity-90 mb-1">Additions</div>
                   <div className="text-3xl font-bold">
-                    {formatNumber(result.additions)}
+                    {formatNumber(flops.additions)}
                   </div>
                   <div className="text-sm opacity-75 mt-1">
-                    ({result.additions.toLocaleString()} operations)
+                    ({flops.additions.toLocaleString()} operations)
                   </div>
                 </div>
               </div>
 
+              {inputMode === 'matrix' && result && result.batchCount > 1 && (
+                <div className="grid md:grid-cols-3 gap-4 mb-6">
+                  <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                    <div className="text-sm opacity-90 mb-1">Batch Shape</div>
+                    <div className="text-2xl font-bold font-mono">[{result.batchShape.join(' × ')}]</div>
+                    <div className="text-sm opacity-75 mt-1">
+                      ({result.batchCount.toLocaleString()} independent GEMMs)
+                    </div>
+                  </div>
+                  <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                    <div className="text-sm opacity-90 mb-1">FLOPs per Batch</div>
+                    <div className="text-2xl font-bold">{formatNumber(result.perBatch.totalFlops)}</div>
+                    <div className="text-sm opacity-75 mt-1">
+                      ({result.perBatch.totalFlops.toLocaleString()} operations)
+                    </div>
+                  </div>
+                  <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                    <div className="text-sm opacity-90 mb-1">Time per Batch</div>
+                    <div className="text-2xl font-bold">{perBatchTime ? perBatchTime.formatted : '—'}</div>
+                    <div className="text-sm opacity-75 mt-1">(at peak, strided batched GEMM)</div>
+                  </div>
+                </div>
+              )}
+
+              {selectedGpu && adjustedTflops === null && (
+                <div className="mt-6 bg-white/10 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+                  <h4 className="text-lg font-bold mb-1">Precision Not Supported</h4>
+                  <p className="text-sm opacity-90">
+                    {selectedPrecision.label} is not supported on {selectedGpu.name} ({selectedGpu.architecture})
+                    {executionUnit !== 'auto' && ` using ${executionUnit === 'tensor' ? 'Tensor Cores' : 'CUDA cores'}`}
+                    {sparse && ' with 2:4 structured sparsity'}.
+                  </p>
+                </div>
+              )}
+
               {/* Execution Time Calculation */}
-              {executionTime && selectedGpu && (
+              {estimatedTime && executionTime && selectedGpu && adjustedTflops !== null && (
                 <div>
                   <div className="mt-6 bg-white/10 backdrop-blur-sm rounded-lg p-4 border border-white/20">
                     <h4 className="text-lg font-bold mb-3">
@@ -464,24 +783,26 @@ export default function MatrixFlopsCalculator() {
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <span className="text-sm opacity-90">Estimated Time:</span>
-                      <span className="text-2xl font-bold">{executionTime.formatted}</span>
+                      <span className="text-2xl font-bold">
+                        {estimatedTime.formatted}
+                      </span>
                     </div>
                     <div className="grid grid-cols-4 gap-2 mt-4 text-xs">
                       <div>
                         <div className="opacity-75">Seconds</div>
-                        <div className="font-mono">{executionTime.seconds.toExponential(3)}</div>
+                        <div className="font-mono">{estimatedTime.seconds.toExponential(3)}</div>
                       </div>
                       <div>
                         <div className="opacity-75">Milliseconds</div>
-                        <div className="font-mono">{executionTime.milliseconds.toExponential(3)}</div>
+                        <div className="font-mono">{estimatedTime.milliseconds.toExponential(3)}</div>
                       </div>
                       <div>
                         <div className="opacity-75">Microseconds</div>
-                        <div className="font-mono">{executionTime.microseconds.toExponential(3)}</div>
+                        <div className="font-mono">{estimatedTime.microseconds.toExponential(3)}</div>
                       </div>
                       <div>
                         <div className="opacity-75">Nanoseconds</div>
-                        <div className="font-mono">{executionTime.nanoseconds.toExponential(3)}</div>
+                        <div className="font-mono">{estimatedTime.nanoseconds.toExponential(3)}</div>
                       </div>
                     </div>
                     <div className="mt-3 pt-3 border-t border-white/20 text-xs opacity-75">
@@ -491,13 +812,70 @@ export default function MatrixFlopsCalculator() {
                       <div className="font-mono mt-1">
                         Adjusted TFLOPS: {adjustedTflops.toFixed(2)} TFLOPS ({selectedPrecision.label})
                       </div>
-                      <div className="font-mono mt-1">
-                        Time = {result.totalFlops.toLocaleString()} FLOPs ÷ ({adjustedTflops.toFixed(2)} × 10¹² FLOPs/s) = {executionTime.formatted}
-                      </div>
+                      {!roofline && (
+                        <div className="font-mono mt-1">
+                          Time = {flops.totalFlops.toLocaleString()} FLOPs ÷ ({adjustedTflops.toFixed(2)} × 10¹² FLOPs/s) = {executionTime.formatted}
+                        </div>
+                      )}
                     </div>
                   </div>
                   </div>
 
+                  {/* Roofline Analysis */}
+                  {roofline && (
+                    <div className="mt-6 bg-white/10 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-lg font-bold">Roofline Analysis</h4>
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-bold uppercase ${
+                            roofline.boundBy === 'memory' ? 'bg-amber-400 text-amber-900' : 'bg-emerald-400 text-emerald-900'
+                          }`}
+                        >
+                          {roofline.boundBy}-bound
+                        </span>
+                      </div>
+                      <div className="grid md:grid-cols-4 gap-4 mb-4">
+                        <div>
+                          <div className="text-xs opacity-75">Bytes Moved (A + B + C)</div>
+                          <div className="text-lg font-bold">{formatNumber(roofline.bytesMoved)}B</div>
+                        </div>
+                        <div>
+                          <div className="text-xs opacity-75">Arithmetic Intensity</div>
+                          <div className="text-lg font-bold">{roofline.arithmeticIntensity.toFixed(2)} FLOPs/B</div>
+                        </div>
+                        <div>
+                          <div className="text-xs opacity-75">Ridge Point</div>
+                          <div className="text-lg font-bold">{roofline.ridgePoint.toFixed(2)} FLOPs/B</div>
+                        </div>
+                        <div>
+                          <div className="text-xs opacity-75">Attainable Performance</div>
+                          <div className="text-lg font-bold">{roofline.attainableTflops.toFixed(2)} TFLOPS</div>
+                        </div>
+                      </div>
+                      <div className="text-xs opacity-75 space-y-1 mb-4">
+                        <div className="font-mono">
+                          Compute time = FLOPs ÷ peak = {roofline.computeTime.formatted}
+                        </div>
+                        <div className="font-mono">
+                          Memory time = {roofline.bytesMoved.toLocaleString()} B ÷ ({selectedGpu.memoryBandwidth} × 10⁹ B/s) = {roofline.memoryTime.formatted}
+                        </div>
+                        <div className="font-mono">
+                          Time = max(compute, memory) = {roofline.time.formatted}
+                        </div>
+                      </div>
+                      <div className="bg-white rounded-lg p-4">
+                        <RooflineChart
+                          peakTflops={adjustedTflops}
+                          bandwidthGBs={selectedGpu.memoryBandwidth}
+                          ridgePoint={roofline.ridgePoint}
+                          arithmeticIntensity={roofline.arithmeticIntensity}
+                          attainableTflops={roofline.attainableTflops}
+                          boundBy={roofline.boundBy}
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {/* Performance Disclaimer */}
                   <div className="mt-4 bg-amber-50 border-l-4 border-amber-400 rounded-lg p-4">
                     <div className="flex items-start">
@@ -539,6 +917,33 @@ export default function MatrixFlopsCalculator() {
               )}
 
               {/* Formula Explanation */}
+              {inputMode === 'einsum' && einsumSpec && einsumResult && (
+                <div className="mt-6 bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm font-medium mb-2">Calculation Formula:</div>
+                  <div className="font-mono text-sm">
+                    For {einsumSpec.inputs.join(',')}-&gt;{einsumSpec.output}
+                  </div>
+                  <div className="font-mono text-sm mt-2">
+                    Output indices ({einsumSpec.output || 'none'}) = {einsumResult.outputShape.join(' × ') || '1'}
+                    {' '}= {product(einsumResult.outputShape)} elements
+                  </div>
+                  <div className="font-mono text-sm mt-2">
+                    Contracted indices ({einsumResult.contractedIndices.join('') || 'none'}) ={' '}
+                    {einsumResult.contractedIndices.map((index) => indexSizes[index] ?? DEFAULT_INDEX_SIZE).join(' × ') || '1'}
+                  </div>
+                  <div className="font-mono text-sm mt-2">
+                    Multiplications = (operands - 1) × output × contracted = {einsumResult.multiplications}
+                  </div>
+                  <div className="font-mono text-sm mt-2">
+                    Additions = output × (contracted - 1) = {einsumResult.additions}
+                  </div>
+                  <div className="font-mono text-sm mt-2 font-semibold">
+                    Total FLOPs = {einsumResult.multiplications} + {einsumResult.additions} ={' '}
+                    {einsumResult.totalFlops}
+                  </div>
+                </div>
+              )}
+              {inputMode === 'matrix' && result && (
               <div className="mt-6 bg-white/10 backdrop-blur-sm rounded-lg p-4">
                 <div className="text-sm font-medium mb-2">Calculation Formula:</div>
                 <div className="font-mono text-sm">
@@ -547,22 +952,109 @@ export default function MatrixFlopsCalculator() {
                 </div>
                 <div className="font-mono text-sm mt-2">
                   Multiplications = m × p × n = {matrixA.rows} × {matrixB.cols}{' '}
-                  × {matrixA.cols} = {result.multiplications}
+                  × {matrixA.cols} = {result.perBatch.multiplications}
                 </div>
                 <div className="font-mono text-sm mt-2">
                   Additions = m × p × (n - 1) = {matrixA.rows} × {matrixB.cols}{' '}
-                  × ({matrixA.cols} - 1) = {result.additions}
+                  × ({matrixA.cols} - 1) = {result.perBatch.additions}
                 </div>
+                {result.batchShape.length > 0 && (
+                  <div className="font-mono text-sm mt-2">
+                    Batch = {result.batchShape.join(' × ')} = {result.batchCount} (broadcast of [
+                    {(batchA ?? []).join(' × ')}] and [{(batchB ?? []).join(' × ')}])
+                  </div>
+                )}
                 <div className="font-mono text-sm mt-2 font-semibold">
-                  Total FLOPs = {result.multiplications} + {result.additions} ={' '}
-                  {result.totalFlops}
+                  Total FLOPs ={' '}
+                  {result.batchShape.length > 0
+                    ? `${result.batchCount} × (${result.perBatch.multiplications} + ${result.perBatch.additions})`
+                    : `${result.perBatch.multiplications} + ${result.perBatch.additions}`}{' '}
+                  = {result.totalFlops}
                 </div>
               </div>
+              )}
             </div>
           </div>
         )}
+
+        {/* Multi-GPU Comparison */}
+        {isValid && flops && (
+          <GpuComparison
+            totalFlops={flops.totalFlops}
+            executionUnit={executionUnit}
+            sparse={sparse}
+            initialGpu={selectedGpu}
+            initialPrecision={selectedPrecision}
+          />
+        )}
       </div>
     </div>
   )
 }
 
+interface EinsumInputsProps {
+  expression: string
+  onExpressionChange: (expression: string) => void
+  spec: EinsumSpec | null
+  indexSizes: Record<string, number>
+  onIndexSizeChange: (index: string, size: number) => void
+}
+
+function EinsumInputs({
+  expression,
+  onExpressionChange,
+  spec,
+  indexSizes,
+  onIndexSizeChange,
+}: EinsumInputsProps) {
+  const indices = spec ? getEinsumIndices(spec) : []
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+        Einsum Expression
+      </h2>
+      <div>
+        <label
+          htmlFor="einsum-expression"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Expression
+        </label>
+        <input
+          id="einsum-expression"
+          type="text"
+          value={expression}
+          onChange={(e) => onExpressionChange(e.target.value)}
+          placeholder="e.g. bhqd,bhkd->bhqk"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+      {indices.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {indices.map((index) => (
+            <div key={index}>
+              <label
+                htmlFor={`einsum-index-${index}`}
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Size of <span className="font-mono">{index}</span>
+                {spec && !spec.output.includes(index) && (
+                  <span className="text-xs text-purple-600 ml-1">(contracted)</span>
+                )}
+              </label>
+              <input
+                id={`einsum-index-${index}`}
+                type="number"
+                min="1"
+                value={indexSizes[index] ?? DEFAULT_INDEX_SIZE}
+                onChange={(e) => onIndexSizeChange(index, Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
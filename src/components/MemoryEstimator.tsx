@@ -0,0 +1,349 @@
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { nvidiaGpus, findGpuByName, resolveGpu, parseMemoryGB, type NvidiaGpu } from '../data/nvidiaGpus'
+import { precisionTypes, type PrecisionType } from '../utils/flops'
+import { getGpuOptions, getPrecisionOptions } from '../utils/selectOptions'
+import { useCustomGpus } from '../hooks/useCustomGpus'
+import MaterialSelect from './MaterialSelect'
+import type { TransformerConfig } from './TransformerFlopsEstimator'
+
+interface MemoryEstimatorProps {
+  config: TransformerConfig
+  parameters: number
+}
+
+type Workload = 'training' | 'inference'
+type ZeroStage = 0 | 1 | 2 | 3
+
+interface MemoryItem {
+  key: string
+  label: string
+  bytes: number // Per GPU
+  detail: string
+  color: string
+}
+
+const GB = 1024 ** 3
+
+const zeroStages: Array<{ value: ZeroStage; label: string; description: string }> = [
+  { value: 0, label: 'None', description: 'Every GPU holds a full replica' },
+  { value: 1, label: 'ZeRO-1', description: 'Optimizer states sharded' },
+  { value: 2, label: 'ZeRO-2', description: 'Optimizer states and gradients sharded' },
+  { value: 3, label: 'ZeRO-3', description: 'Optimizer states, gradients and weights sharded' },
+]
+
+// Activation bytes for one layer with 16-bit activations (Korthikanti et al., 2022):
+// s·b·h·(34 + 5·a·s/h), where 5·a·s²·b covers attention scores, softmax and dropout mask
+function layerActivationBytes(config: TransformerConfig, bytesPerElement: number): number {
+  const { hiddenSize: h, heads: a, seqLength: s, batchSize: b } = config
+  return s * b * h * (34 + (5 * a * s) / h) * (bytesPerElement / 2)
+}
+
+function estimateTrainingMemory(
+  config: TransformerConfig,
+  parameters: number,
+  precision: PrecisionType,
+  zeroStage: ZeroStage,
+  gpuCount: number,
+  checkpointing: boolean
+): MemoryItem[] {
+  const bytes = precision.bytesPerElement
+  const shard = (stage: ZeroStage) => (zeroStage >= stage ? gpuCount : 1)
+
+  // Adam keeps fp32 momentum and variance, plus an fp32 master copy when
+  // training in lower precision
+  const optimizerBytesPerParam = bytes < 4 ? 12 : 8
+
+  // Full checkpointing stores each layer's input and recomputes one layer at a time
+  const { layers, hiddenSize: h, seqLength: s, batchSize: b } = config
+  const activations = checkpointing
+    ? layers * s * b * h * bytes + layerActivationBytes(config, bytes)
+    : layers * layerActivationBytes(config, bytes)
+
+  return [
+    {
+      key: 'weights',
+      label: 'Weights',
+      bytes: (parameters * bytes) / shard(3),
+      detail: `${bytes} bytes/param${zeroStage >= 3 ? ` ÷ ${gpuCount} GPUs` : ''}`,
+      color: 'bg-blue-500',
+    },
+    {
+      key: 'gradients',
+      label: 'Gradients',
+      bytes: (parameters * bytes) / shard(2),
+      detail: `${bytes} bytes/param${zeroStage >= 2 ? ` ÷ ${gpuCount} GPUs` : ''}`,
+      color: 'bg-purple-500',
+    },
+    {
+      key: 'optimizer',
+      label: 'Optimizer States (Adam)',
+      bytes: (parameters * optimizerBytesPerParam) / shard(1),
+      detail: `${bytes < 4 ? 'fp32 master + ' : ''}fp32 momentum + variance = ${optimizerBytesPerParam} bytes/param${
+        zeroStage >= 1 ? ` ÷ ${gpuCount} GPUs` : ''
+      }`,
+      color: 'bg-amber-500',
+    },
+    {
+      key: 'activations',
+      label: checkpointing ? 'Activations (checkpointed)' : 'Activations',
+      bytes: activations,
+      detail: checkpointing
+        ? `${layers} layer inputs + 1 layer recomputed`
+        : `${layers} layers × s·b·h·(34 + 5·a·s/h)`,
+      color: 'bg-green-500',
+    },
+  ]
+}
+
+function estimateInferenceMemory(
+  config: TransformerConfig,
+  parameters: number,
+  precision: PrecisionType
+): MemoryItem[] {
+  const bytes = precision.bytesPerElement
+  const { layers, hiddenSize: h, heads, kvHeads, seqLength: s, batchSize: b } = config
+  const headDim = h / heads
+
+  // Keys and values for every layer, token and KV head
+  const kvCache = 2 * layers * b * s * kvHeads * headDim * bytes
+
+  return [
+    {
+      key: 'weights',
+      label: 'Weights',
+      bytes: parameters * bytes,
+      detail: `${bytes} bytes/param`,
+      color: 'bg-blue-500',
+    },
+    {
+      key: 'kv-cache',
+      label: 'KV Cache',
+      bytes: kvCache,
+      detail: `2 × ${layers} layers × ${b} × ${s} tokens × ${kvHeads} KV heads × ${headDim} × ${bytes} bytes`,
+      color: 'bg-teal-500',
+    },
+  ]
+}
+
+function formatGB(bytes: number): string {
+  const gb = bytes / GB
+  return gb >= 100 ? `${gb.toFixed(0)} GB` : gb >= 1 ? `${gb.toFixed(1)} GB` : `${(gb * 1024).toFixed(0)} MB`
+}
+
+export default function MemoryEstimator({ config, parameters }: MemoryEstimatorProps) {
+  const [workload, setWorkload] = useState<Workload>('training')
+  const [pickedGpu, setSelectedGpu] = useState<NvidiaGpu | null>(
+    findGpuByName('H100 SXM') ?? nvidiaGpus[0]
+  )
+  const [selectedPrecision, setSelectedPrecision] = useState<PrecisionType>(
+    precisionTypes.find((p) => p.value === 'bf16') ?? precisionTypes[0]
+  )
+  const [zeroStage, setZeroStage] = useState<ZeroStage>(0)
+  const [gpuCount, setGpuCount] = useState(8)
+  const [checkpointing, setCheckpointing] = useState(false)
+
+  const customGpus = useCustomGpus()
+  const gpuOptions = useMemo(() => getGpuOptions(customGpus), [customGpus])
+  const selectedGpu = resolveGpu(pickedGpu)
+  const precisionOptions = useMemo(() => getPrecisionOptions(), [])
+
+  const items =
+    workload === 'training'
+      ? estimateTrainingMemory(config, parameters, selectedPrecision, zeroStage, gpuCount, checkpointing)
+      : estimateInferenceMemory(config, parameters, selectedPrecision)
+  const totalBytes = items.reduce((acc, item) => acc + item.bytes, 0)
+
+  const capacityGB = selectedGpu ? parseMemoryGB(selectedGpu.memory) : null
+  const capacityBytes = capacityGB !== null ? capacityGB * GB : null
+  const fits = capacityBytes !== null && totalBytes <= capacityBytes
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-xl p-8 space-y-8">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-800 mb-2">GPU Memory Footprint</h2>
+        <p className="text-gray-600">
+          Estimate per-GPU memory for the model above and check it against the selected GPU's capacity.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Workload:</span>
+        <div className="inline-flex bg-gray-100 rounded-lg p-1">
+          {([
+            { value: 'training', label: 'Training (Adam)' },
+            { value: 'inference', label: 'Inference (KV Cache)' },
+          ] as const).map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setWorkload(option.value)}
+              className={`
+                px-4 py-2 rounded-md text-sm font-medium transition-all duration-200
+                ${
+                  workload === option.value
+                    ? 'bg-blue-500 text-white shadow-md'
+                    : 'text-gray-600 hover:text-gray-800'
+                }
+              `}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <MaterialSelect
+          id="memory-gpu-select"
+          label="GPU Model"
+          value={selectedGpu?.name || ''}
+          onChange={(value) => {
+            const gpu = findGpuByName(value)
+            setSelectedGpu(gpu || null)
+          }}
+          options={gpuOptions}
+        />
+        <MaterialSelect
+          id="memory-precision-select"
+          label="Weight & Activation Precision"
+          value={selectedPrecision.value}
+          onChange={(value) => {
+            const precision = precisionTypes.find((p) => p.value === value)
+            if (precision) setSelectedPrecision(precision)
+          }}
+          options={precisionOptions}
+        />
+      </div>
+
+      {workload === 'training' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-gray-700">ZeRO Stage:</span>
+            <div className="inline-flex bg-gray-100 rounded-lg p-1">
+              {zeroStages.map((stage) => (
+                <button
+                  key={stage.value}
+                  onClick={() => setZeroStage(stage.value)}
+                  title={stage.description}
+                  className={`
+                    px-4 py-2 rounded-md text-sm font-medium transition-all duration-200
+                    ${
+                      zeroStage === stage.value
+                        ? 'bg-blue-500 text-white shadow-md'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }
+                  `}
+                >
+                  {stage.label}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs text-gray-500">
+              {zeroStages.find((stage) => stage.value === zeroStage)?.description}
+            </span>
+          </div>
+          <div className="grid md:grid-cols-2 gap-6 items-end">
+            <div>
+              <label htmlFor="memory-gpu-count" className="block text-sm font-medium text-gray-700 mb-1">
+                Data-Parallel GPUs (sharding degree)
+              </label>
+              <input
+                id="memory-gpu-count"
+                type="number"
+                min="1"
+                value={gpuCount}
+                onChange={(e) => setGpuCount(parseInt(e.target.value) || 1)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={checkpointing}
+                onChange={(e) => setCheckpointing(e.target.checked)}
+                className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              Activation Checkpointing (full recomputation)
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Verdict */}
+      <div
+        className={`rounded-xl p-6 border-l-4 ${
+          capacityBytes === null
+            ? 'bg-gray-50 border-gray-400'
+            : fits
+              ? 'bg-green-50 border-green-500'
+              : 'bg-red-50 border-red-500'
+        }`}
+      >
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <div>
+            <div className="text-sm text-gray-600">Estimated per-GPU memory</div>
+            <div className="text-3xl font-bold text-gray-800">{formatGB(totalBytes)}</div>
+          </div>
+          <div className="text-right">
+            {capacityBytes === null ? (
+              <div className="text-gray-600">Memory capacity unknown for this GPU</div>
+            ) : fits ? (
+              <div className="text-green-700 font-semibold">
+                Fits in {selectedGpu?.memory} ({formatGB(capacityBytes - totalBytes)} free)
+              </div>
+            ) : (
+              <div className="text-red-700 font-semibold">
+                Does not fit in {selectedGpu?.memory} (needs {formatGB(totalBytes - capacityBytes)} more)
+              </div>
+            )}
+          </div>
+        </div>
+
+        {capacityBytes !== null && (
+          <div className="mt-4 h-4 bg-gray-200 rounded-full overflow-hidden flex">
+            {items.map((item) => (
+              <motion.div
+                key={item.key}
+                className={item.color}
+                initial={{ width: 0 }}
+                animate={{ width: `${(item.bytes / Math.max(totalBytes, capacityBytes)) * 100}%` }}
+                transition={{ duration: 0.4 }}
+                title={`${item.label}: ${formatGB(item.bytes)}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Breakdown */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-4">Item</th>
+              <th className="py-2 pr-4">How it is counted</th>
+              <th className="py-2 text-right">Per GPU</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.key} className="border-b last:border-b-0">
+                <td className="py-2 pr-4 font-medium text-gray-800">
+                  <span className={`inline-block w-3 h-3 rounded-sm mr-2 ${item.color}`} />
+                  {item.label}
+                </td>
+                <td className="py-2 pr-4 font-mono text-xs text-gray-600">{item.detail}</td>
+                <td className="py-2 text-right font-mono">{formatGB(item.bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Estimates exclude CUDA context, framework workspace and memory fragmentation, which typically add a few
+        GB. Activation sizes assume a 4 × hidden FFN and no tensor or sequence parallelism.
+      </p>
+    </div>
+  )
+}
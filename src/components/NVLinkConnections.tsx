@@ -1,238 +1,237 @@
-import { useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
+import type { CollectiveSchedule } from '../utils/collectiveSchedule'
+import {
+  analyzeTraffic,
+  buildTopology,
+  topologies,
+  type TopologyGraph,
+  type TopologyId,
+  type TopologyNode,
+} from '../data/topologies'
 
 interface NVLinkConnectionsProps {
-  processes: Array<{ id: number }>
-  operation: 'all-reduce' | 'all-gather' | 'gather' | 'scatter' | 'broadcast' | 'reduce'
+  schedule: CollectiveSchedule
+  topology: TopologyId
+  nodes?: number // Servers, for the InfiniBand topology and hierarchical all-reduce
   isPlaying: boolean
   currentStep: number
+  still?: boolean // Bare, unanimated SVG for export
 }
 
-export default function NVLinkConnections({
-  processes,
-  operation,
-  isPlaying,
-  currentStep,
-}: NVLinkConnectionsProps) {
-  const containerRef = useRef<HTMLDivElement>(null)
-  const connectionsRef = useRef<Array<{ from: number; to: number | string; active: boolean }>>([])
-
-  useEffect(() => {
-    const updateConnections = () => {
-      const connections: Array<{ from: number; to: number | string; active: boolean }> = []
-
-      switch (operation) {
-        case 'all-reduce':
-          // Phase 1: All to center
-          if (currentStep < processes.length * 9) {
-            processes.forEach((p) => {
-              connections.push({ from: p.id, to: 'center', active: isPlaying && currentStep >= p.id * 3 })
-            })
-          }
-          // Phase 2: Center to all
-          else {
-            const receiveStep = currentStep - processes.length * 9
-            processes.forEach((p) => {
-              connections.push({
-                from: 'center' as any,
-                to: p.id,
-                active: isPlaying && receiveStep >= p.id * 3,
-              })
-            })
-          }
-          break
-
-        case 'all-gather':
-          processes.forEach((from) => {
-            processes.forEach((to) => {
-              if (from.id !== to.id) {
-                connections.push({
-                  from: from.id,
-                  to: to.id,
-                  active: isPlaying && currentStep >= (from.id * processes.length + to.id) * 3,
-                })
-              }
-            })
-          })
-          break
-
-        case 'gather':
-          processes.forEach((p) => {
-            if (p.id !== 0) {
-              connections.push({
-                from: p.id,
-                to: 0,
-                active: isPlaying && currentStep >= p.id * 3,
-              })
-            }
-          })
-          break
-
-        case 'scatter':
-          processes.forEach((p) => {
-            connections.push({
-              from: 0,
-              to: p.id,
-              active: isPlaying && currentStep >= p.id * 3,
-            })
-          })
-          break
-
-        case 'broadcast':
-          processes.slice(1).forEach((p) => {
-            connections.push({
-              from: 0,
-              to: p.id,
-              active: isPlaying && currentStep >= (p.id - 1) * 3,
-            })
-          })
-          break
-
-        case 'reduce':
-          processes.forEach((p) => {
-            if (p.id !== 0) {
-              connections.push({
-                from: p.id,
-                to: 0,
-                active: isPlaying && currentStep >= p.id * 3,
-              })
-            }
-          })
-          break
-      }
-
-      connectionsRef.current = connections
-    }
-
-    updateConnections()
-  }, [processes, operation, isPlaying, currentStep])
-
-  const getConnectionLine = (from: number | string, to: number | string) => {
-    if (!containerRef.current) return null
-
-    const fromEl =
-      from === 'center'
-        ? document.querySelector('[data-process-id="center"]')
-        : document.querySelector(`[data-process-id="${from}"]`)
-    const toEl = document.querySelector(`[data-process-id="${to}"]`)
-
-    if (!fromEl || !toEl) return null
-
-    const fromRect = fromEl.getBoundingClientRect()
-    const toRect = toEl.getBoundingClientRect()
-    const containerRect = containerRef.current.getBoundingClientRect()
-
-    const fromX = fromRect.left + fromRect.width / 2 - containerRect.left
-    const fromY = fromRect.top + fromRect.height / 2 - containerRect.top
-    const toX = toRect.left + toRect.width / 2 - containerRect.left
-    const toY = toRect.top + toRect.height / 2 - containerRect.top
-
-    const dx = toX - fromX
-    const dy = toY - fromY
-    const length = Math.sqrt(dx * dx + dy * dy)
-    const angle = (Math.atan2(dy, dx) * 180) / Math.PI
+interface Transfer {
+  from: number
+  to: number
+}
 
-    const connection = connectionsRef.current.find(
-      (c) => String(c.from) === String(from) && String(c.to) === String(to)
-    )
+const WIDTH = 800
+const HEIGHT = 260
+
+// Rank pairs communicating at `step`; local transfers and extra chunks between the same pair don't add link load
+function activeTransfers(schedule: CollectiveSchedule, step: number): Transfer[] {
+  const pairs = new Map<string, Transfer>()
+  const transfers = schedule.steps[step - 1] ?? []
+  transfers.forEach(({ src, dst }) => {
+    if (src !== dst) pairs.set(`${src}->${dst}`, { from: src, to: dst })
+  })
+  return [...pairs.values()]
+}
 
-    return {
-      x: fromX,
-      y: fromY,
-      length,
-      angle,
-      active: connection?.active || false,
-    }
-  }
+function spread(count: number, start: number, end: number): number[] {
+  if (count === 1) return [(start + end) / 2]
+  return Array.from({ length: count }, (_, i) => start + ((end - start) * i) / (count - 1))
+}
 
-  const allConnections: Array<{ from: number | string; to: number | string }> = []
-  
-  switch (operation) {
-    case 'all-reduce':
-      processes.forEach((p) => {
-        allConnections.push({ from: p.id, to: 'center' })
-        allConnections.push({ from: 'center', to: p.id })
-      })
+function layoutTopology(
+  graph: TopologyGraph,
+  ranks: number,
+  nodes: number
+): Map<TopologyNode, { x: number; y: number }> {
+  const positions = new Map<TopologyNode, { x: number; y: number }>()
+
+  switch (graph.id) {
+    case 'nvswitch':
+    case 'pcie':
+      spread(ranks, 50, WIDTH - 50).forEach((x, rank) => positions.set(rank, { x, y: 50 }))
+      positions.set(graph.hubs[0].id, { x: WIDTH / 2, y: 200 })
       break
-    case 'all-gather':
-      processes.forEach((from) => {
-        processes.forEach((to) => {
-          if (from.id !== to.id) {
-            allConnections.push({ from: from.id, to: to.id })
-          }
-        })
-      })
-      break
-    case 'gather':
-      processes.forEach((p) => {
-        if (p.id !== 0) allConnections.push({ from: p.id, to: 0 })
-      })
-      break
-    case 'scatter':
-      processes.forEach((p) => {
-        allConnections.push({ from: 0, to: p.id })
-      })
-      break
-    case 'broadcast':
-      processes.slice(1).forEach((p) => {
-        allConnections.push({ from: 0, to: p.id })
-      })
+    case 'nvlink-mesh':
+      if (ranks === 8) {
+        // Two quads side by side so the i ↔ i+4 links run across
+        const corners = [[-70, -70], [70, -70], [70, 70], [-70, 70]]
+        for (let rank = 0; rank < 8; rank++) {
+          const [dx, dy] = corners[rank % 4]
+          positions.set(rank, { x: (rank < 4 ? 240 : 560) + dx, y: HEIGHT / 2 + dy })
+        }
+      } else {
+        for (let rank = 0; rank < ranks; rank++) {
+          const angle = (2 * Math.PI * rank) / ranks - Math.PI / 2
+          positions.set(rank, { x: WIDTH / 2 + 200 * Math.cos(angle), y: HEIGHT / 2 + 100 * Math.sin(angle) })
+        }
+      }
       break
-    case 'reduce':
-      processes.forEach((p) => {
-        if (p.id !== 0) allConnections.push({ from: p.id, to: 0 })
-      })
+    case 'infiniband': {
+      const nodeWidth = WIDTH / nodes
+      for (let node = 0; node < nodes; node++) {
+        const ranksInNode = Array.from({ length: ranks }, (_, i) => i).filter((r) => graph.nodeOfRank(r) === node)
+        const left = node * nodeWidth + 30
+        spread(ranksInNode.length, left, left + nodeWidth - 60).forEach((x, i) =>
+          positions.set(ranksInNode[i], { x, y: 40 })
+        )
+        positions.set(`switch-${node}`, { x: (node + 0.5) * nodeWidth, y: 140 })
+      }
+      positions.set('ib', { x: WIDTH / 2, y: 225 })
       break
+    }
   }
 
-  return (
-    <div ref={containerRef} className="nvlink-container">
-      {allConnections.map((conn, idx) => {
-        const lineData = getConnectionLine(conn.from, conn.to)
-        if (!lineData) return null
+  return positions
+}
+
+function nodeName(node: TopologyNode, graph: TopologyGraph): string {
+  if (typeof node === 'number') return `GPU ${node}`
+  return graph.hubs.find((hub) => hub.id === node)?.label ?? node
+}
+
+export default function NVLinkConnections({
+  schedule,
+  topology,
+  nodes = 2,
+  isPlaying,
+  currentStep,
+  still = false,
+}: NVLinkConnectionsProps) {
+  const ranks = schedule.ranks
+  const graph = buildTopology(topology, ranks, nodes)
+  const positions = layoutTopology(graph, ranks, nodes)
+  const transfers = isPlaying && currentStep > 0 ? activeTransfers(schedule, currentStep) : []
+  const { loads, bottleneck } = analyzeTraffic(graph, transfers)
+  const topologyInfo = topologies.find((t) => t.id === topology)
+
+  const diagram = (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width={WIDTH}
+      height={HEIGHT}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Interconnect topology"
+    >
+      {graph.links.map((link, idx) => {
+        const a = positions.get(link.a)
+        const b = positions.get(link.b)
+        if (!a || !b) return null
+        const used = loads.some((load) => load.link === link)
+        const isBottleneck = bottleneck?.link === link
+        const stroke = isBottleneck ? '#ef4444' : used ? '#3b82f6' : '#d1d5db'
+        return (
+          <g key={idx}>
+            <line
+              x1={a.x}
+              y1={a.y}
+              x2={b.x}
+              y2={b.y}
+              stroke={stroke}
+              strokeWidth={used ? 3 : 1.5}
+              strokeDasharray={used ? '8 4' : undefined}
+            >
+              {used && !still && (
+                <animate attributeName="stroke-dashoffset" from="24" to="0" dur="0.6s" repeatCount="indefinite" />
+              )}
+            </line>
+            <text
+              x={(a.x + b.x) / 2}
+              y={(a.y + b.y) / 2 - 4}
+              textAnchor="middle"
+              fontSize={9}
+              fill={isBottleneck ? '#b91c1c' : '#6b7280'}
+            >
+              {link.bandwidth} GB/s
+            </text>
+          </g>
+        )
+      })}
+
+      {/* Packets travelling along each used link direction */}
+      {loads.map((load) => {
+        const from = positions.get(load.from)
+        const to = positions.get(load.to)
+        if (!from || !to) return null
+        const fill = bottleneck === load ? '#ef4444' : '#10b981'
+        if (still) {
+          // Two thirds of the way along, so the direction still reads
+          const cx = from.x + ((to.x - from.x) * 2) / 3
+          const cy = from.y + ((to.y - from.y) * 2) / 3
+          return <circle key={`${load.from}->${load.to}`} cx={cx} cy={cy} r={5} fill={fill} />
+        }
+        return (
+          <motion.circle
+            key={`${load.from}->${load.to}-${currentStep}`}
+            r={5}
+            fill={fill}
+            initial={{ cx: from.x, cy: from.y, opacity: 0 }}
+            animate={{ cx: to.x, cy: to.y, opacity: [0, 1, 1, 0] }}
+            transition={{ duration: 0.7, repeat: Infinity }}
+          />
+        )
+      })}
 
-        const connection = connectionsRef.current.find(
-          (c) => String(c.from) === String(conn.from) && String(c.to) === String(conn.to)
+      {graph.hubs.map((hub) => {
+        const pos = positions.get(hub.id)
+        if (!pos) return null
+        return (
+          <g key={hub.id}>
+            <rect x={pos.x - 60} y={pos.y - 14} width={120} height={28} rx={6} fill="#ede9fe" stroke="#8b5cf6" />
+            <text x={pos.x} y={pos.y + 4} textAnchor="middle" fontSize={11} fontWeight={600} fill="#5b21b6">
+              {hub.label}
+            </text>
+          </g>
         )
+      })}
 
+      {Array.from({ length: ranks }, (_, rank) => {
+        const pos = positions.get(rank)
+        if (!pos) return null
+        const sending = transfers.some((t) => t.from === rank)
+        const receiving = transfers.some((t) => t.to === rank)
         return (
-          <motion.div
-            key={`${conn.from}-${conn.to}-${idx}`}
-            className={`nvlink-line ${connection?.active ? 'active flowing' : ''} ${
-              operation === 'all-reduce' && (String(conn.to) === 'center' ? 'to-center' : 'from-center')
-            }`}
-            style={{
-              left: `${lineData.x}px`,
-              top: `${lineData.y}px`,
-              width: `${lineData.length}px`,
-              transform: `rotate(${lineData.angle}deg)`,
-              opacity: connection?.active ? 1 : 0.2,
-            }}
-            initial={{ opacity: 0.2, scaleX: 0 }}
-            animate={{
-              opacity: connection?.active ? 1 : 0.2,
-              scaleX: connection?.active ? 1 : 0.3,
-            }}
-            transition={{ duration: 0.4, ease: 'easeOut' }}
-          >
-            {connection?.active && (
-              <motion.div
-                className="nvlink-label"
-                style={{
-                  left: '50%',
-                  top: '-10px',
-                }}
-                initial={{ opacity: 0, scale: 0.5, y: -5 }}
-                animate={{ opacity: 1, scale: 1, y: 0 }}
-                transition={{ delay: 0.2 }}
-              >
-                <span className="text-xs">NVLink</span>
-              </motion.div>
-            )}
-          </motion.div>
+          <g key={rank}>
+            <circle
+              cx={pos.x}
+              cy={pos.y}
+              r={16}
+              fill={receiving ? '#dbeafe' : sending ? '#d1fae5' : '#f9fafb'}
+              stroke={receiving || sending ? '#2563eb' : '#9ca3af'}
+              strokeWidth={2}
+            />
+            <text x={pos.x} y={pos.y + 4} textAnchor="middle" fontSize={10} fontWeight={700} fill="#1f2937">
+              {rank}
+            </text>
+          </g>
         )
       })}
+    </svg>
+  )
+
+  if (still) return diagram
+
+  return (
+    <div className="w-full bg-white/70 rounded-lg border border-gray-200 p-3">
+      {diagram}
+
+      <div className="text-xs text-gray-600 mt-2 space-y-1">
+        <p>{topologyInfo?.description}</p>
+        {bottleneck ? (
+          <p>
+            <span className="font-semibold text-red-600">Bottleneck:</span> {nodeName(bottleneck.from, graph)} →{' '}
+            {nodeName(bottleneck.to, graph)} ({bottleneck.link.label}, {bottleneck.link.bandwidth} GB/s) carries{' '}
+            {bottleneck.flows} concurrent {bottleneck.flows === 1 ? 'transfer' : 'transfers'}, so each gets{' '}
+            {bottleneck.perFlowBandwidth.toFixed(1)} GB/s.
+          </p>
+        ) : (
+          <p className="text-gray-500">Links used by the current step light up while the animation plays.</p>
+        )}
+      </div>
     </div>
   )
 }
-
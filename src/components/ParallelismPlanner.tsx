@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react'
+import { nvidiaGpus, findGpuByName, resolveGpu, parseMemoryGB, type NvidiaGpu } from '../data/nvidiaGpus'
+import { getAdjustedTflops, precisionTypes } from '../utils/flops'
+import {
+  planParallelism,
+  type ParallelDimension,
+  type ParallelPlan,
+  type PlanFlag,
+} from '../utils/parallelismPlanner'
+import { getGpuOptions } from '../utils/selectOptions'
+import { useCustomGpus } from '../hooks/useCustomGpus'
+import MaterialSelect from './MaterialSelect'
+
+const GB = 1024 ** 3
+const MAX_ROWS = 25
+
+const dimensions: Array<{ key: ParallelDimension; label: string }> = [
+  { key: 'dp', label: 'DP' },
+  { key: 'tp', label: 'TP' },
+  { key: 'pp', label: 'PP' },
+  { key: 'cp', label: 'CP' },
+  { key: 'ep', label: 'EP' },
+]
+
+const flagLabels: Record<PlanFlag, string> = {
+  'out-of-memory': 'Exceeds GPU memory',
+  'tp-across-nodes': 'TP crosses nodes',
+}
+
+function formatBytes(bytes: number): string {
+  const gb = bytes / GB
+  if (gb >= 1024) return `${(gb / 1024).toFixed(1)} TB`
+  return gb >= 1 ? `${gb.toFixed(1)} GB` : `${(gb * 1024).toFixed(0)} MB`
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds >= 1 ? `${seconds.toFixed(2)} s` : `${(seconds * 1000).toFixed(0)} ms`
+}
+
+export default function ParallelismPlanner() {
+  const [parametersB, setParametersB] = useState(70)
+  const [layers, setLayers] = useState(80)
+  const [hiddenSize, setHiddenSize] = useState(8192)
+  const [seqLength, setSeqLength] = useState(4096)
+  const [globalBatch, setGlobalBatch] = useState(1024)
+  const [experts, setExperts] = useState(1)
+  const [topK, setTopK] = useState(2)
+  const [gpuCount, setGpuCount] = useState(512)
+  const [gpusPerNode, setGpusPerNode] = useState(8)
+  const [pickedGpu, setSelectedGpu] = useState<NvidiaGpu | null>(findGpuByName('H100 SXM') ?? nvidiaGpus[0])
+  const [fitsOnly, setFitsOnly] = useState(false)
+
+  const customGpus = useCustomGpus()
+  const gpuOptions = useMemo(() => getGpuOptions(customGpus), [customGpus])
+  const selectedGpu = resolveGpu(pickedGpu)
+
+  const capacityGB = selectedGpu ? parseMemoryGB(selectedGpu.memory) : null
+  const bf16 = precisionTypes.find((p) => p.value === 'bf16') ?? precisionTypes[0]
+  const peakTflops = selectedGpu ? getAdjustedTflops(selectedGpu, bf16) : null
+  const valid =
+    [parametersB, layers, hiddenSize, seqLength, globalBatch, experts, topK, gpuCount, gpusPerNode].every(
+      (value) => value > 0
+    ) && gpuCount <= 65536
+
+  const plans = useMemo(
+    () =>
+      valid
+        ? planParallelism(
+            { parameters: parametersB * 1e9, layers, hiddenSize, seqLength, globalBatch, experts, topK },
+            { gpuCount, gpusPerNode, memoryBytes: capacityGB !== null ? capacityGB * GB : null, peakTflops }
+          )
+        : [],
+    [
+      valid,
+      parametersB,
+      layers,
+      hiddenSize,
+      seqLength,
+      globalBatch,
+      experts,
+      topK,
+      gpuCount,
+      gpusPerNode,
+      capacityGB,
+      peakTflops,
+    ]
+  )
+  const shown = (fitsOnly ? plans.filter((plan) => !plan.flags.includes('out-of-memory')) : plans).slice(0, MAX_ROWS)
+  const fitting = plans.filter((plan) => !plan.flags.includes('out-of-memory')).length
+
+  const numberInput = (id: string, label: string, value: number, onChange: (value: number) => void, step = '1') => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min="1"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </div>
+  )
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-lg p-8 space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-800 mb-2">3D Parallelism Planner</h2>
+        <p className="text-gray-600">
+          Enumerate every way to split the GPUs into data (DP), tensor (TP), pipeline (PP), context (CP) and expert
+          (EP) parallel groups, estimate per-GPU memory, communication and pipeline bubble for each, and rank them.
+        </p>
+      </div>
+
+      {/* Model */}
+      <div className="grid md:grid-cols-4 gap-4">
+        {numberInput('plan-params', 'Parameters (billions)', parametersB, setParametersB, '0.1')}
+        {numberInput('plan-layers', 'Layers', layers, setLayers)}
+        {numberInput('plan-hidden', 'Hidden Size', hiddenSize, setHiddenSize)}
+        {numberInput('plan-seq', 'Sequence Length', seqLength, setSeqLength)}
+        {numberInput('plan-batch', 'Global Batch (sequences)', globalBatch, setGlobalBatch)}
+        {numberInput('plan-experts', 'Experts (1 = dense)', experts, setExperts)}
+        {experts > 1 && numberInput('plan-top-k', 'Experts per Token (top-k)', topK, setTopK)}
+      </div>
+
+      {/* Cluster */}
+      <div className="grid md:grid-cols-3 gap-4 items-end">
+        <MaterialSelect
+          id="plan-gpu-select"
+          label="GPU Model"
+          value={selectedGpu?.name || ''}
+          onChange={(value) => setSelectedGpu(findGpuByName(value) || null)}
+          options={gpuOptions}
+        />
+        {numberInput('plan-gpus', 'Number of GPUs', gpuCount, (value) => setGpuCount(Math.round(value)))}
+        {numberInput('plan-node', 'GPUs per Node', gpusPerNode, (value) => setGpusPerNode(Math.round(value)))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          {valid ? (
+            <>
+              {plans.length} valid configurations,{' '}
+              {capacityGB !== null ? `${fitting} fit in ${capacityGB} GB` : 'GPU memory unknown'}
+              {peakTflops === null && ' · no BF16 peak for this GPU, ranked by communication time'}
+            </>
+          ) : (
+            'Every field must be a positive number.'
+          )}
+        </p>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={fitsOnly} onChange={(e) => setFitsOnly(e.target.checked)} />
+          Only configurations that fit
+        </label>
+      </div>
+
+      {shown.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+                <th className="py-2 px-2 font-semibold">#</th>
+                {dimensions.map((dim) => (
+                  <th key={dim.key} className="py-2 px-2 font-semibold text-right">
+                    {dim.label}
+                  </th>
+                ))}
+                <th className="py-2 px-2 font-semibold text-right">Memory / GPU</th>
+                <th className="py-2 px-2 font-semibold text-right">Comm / GPU / Step</th>
+                <th className="py-2 px-2 font-semibold text-right">Bubble</th>
+                <th className="py-2 px-2 font-semibold text-right">Step Time</th>
+                <th className="py-2 px-2 font-semibold">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((plan, idx) => (
+                <PlanRow key={dimensions.map((dim) => plan.config[dim.key]).join('-')} plan={plan} rank={idx + 1} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
+        <p className="text-xs text-gray-700">
+          <span className="font-semibold">Assumptions:</span> BF16 weights and gradients, FP32 Adam states sharded
+          across data-parallel copies (distributed optimizer), one sequence per micro-batch with a 1F1B schedule,
+          sequence parallelism inside TP, and 34·s·h bytes of activations per layer. Ranks are laid out TP first, then
+          CP, DP (with EP inside it) and PP; a group that leaves the node runs at InfiniBand speed instead of
+          NVLink. Step time adds compute at peak BF16, stretched by the bubble, to
+          communication with no overlap, so it is a pessimistic ranking aid rather than a prediction.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function PlanRow({ plan, rank }: { plan: ParallelPlan; rank: number }) {
+  const outOfMemory = plan.flags.includes('out-of-memory')
+  const breakdown = dimensions
+    .filter((dim) => plan.comm[dim.key] > 0)
+    .map((dim) => `${dim.label} ${formatBytes(plan.comm[dim.key])}${plan.crossNode.includes(dim.key) ? ' (IB)' : ''}`)
+    .join(', ')
+
+  return (
+    <tr className={`border-b border-gray-200 ${outOfMemory ? 'text-gray-400' : 'text-gray-700'}`}>
+      <td className="py-2 px-2">{rank}</td>
+      {dimensions.map((dim) => (
+        <td
+          key={dim.key}
+          className={`py-2 px-2 text-right font-mono ${
+            plan.crossNode.includes(dim.key) ? 'text-amber-600 font-semibold' : ''
+          }`}
+          title={plan.crossNode.includes(dim.key) ? 'Group spans nodes' : undefined}
+        >
+          {plan.config[dim.key]}
+        </td>
+      ))}
+      <td
+        className="py-2 px-2 text-right font-mono"
+        title={`Weights ${formatBytes(plan.memory.weights)}, gradients ${formatBytes(
+          plan.memory.gradients
+        )}, optimizer ${formatBytes(plan.memory.optimizer)}, activations ${formatBytes(plan.memory.activations)}`}
+      >
+        {formatBytes(plan.memory.total)}
+      </td>
+      <td className="py-2 px-2 text-right font-mono" title={breakdown}>
+        {formatBytes(plan.commBytes)}
+      </td>
+      <td className="py-2 px-2 text-right font-mono" title={`${plan.microBatches} micro-batches per replica`}>
+        {(plan.bubble * 100).toFixed(1)}%
+      </td>
+      <td className="py-2 px-2 text-right font-mono">
+        {plan.stepSeconds !== null ? formatSeconds(plan.stepSeconds) : formatSeconds(plan.commSeconds)}
+      </td>
+      <td className="py-2 px-2">
+        <div className="flex flex-wrap gap-1">
+          {plan.flags.map((flag) => (
+            <span
+              key={flag}
+              className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                flag === 'out-of-memory' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+              }`}
+            >
+              {flagLabels[flag]}
+            </span>
+          ))}
+        </div>
+      </td>
+    </tr>
+  )
+}
@@ -1,5 +1,47 @@
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import ParallelismPlanner from './ParallelismPlanner'
+import {
+  BF16_BYTES,
+  tensorParallelError,
+  tensorParallelSteps,
+  type TensorParallelBlock,
+  type TensorParallelComm,
+  type TensorParallelPass,
+  type WeightSplit,
+} from '../utils/tensorParallel'
+import {
+  buildPipelineSchedule,
+  pipelineScheduleError,
+  pipelineScheduleLabels,
+  type PipelineOpKind,
+  type PipelineResult,
+  type PipelineScheduleKind,
+} from '../utils/pipelineSchedule'
+import {
+  MOE_MAX_EXPERTS,
+  moeOptionsError,
+  routingWeights,
+  simulateMoeRouting,
+  type MoeOptions,
+  type MoeResult,
+  type RoutingDistribution,
+} from '../utils/moeRouting'
+import {
+  isZeroSharded,
+  zeroMemory,
+  zeroStageLabels,
+  zeroTransfers,
+  type ZeroCollective,
+  type ZeroStage,
+  type ZeroState,
+} from '../utils/zeroSharding'
+import {
+  estimateSequenceParallel,
+  sequenceParallelApproaches,
+  sequenceParallelLabels,
+  type SequenceParallelApproach,
+} from '../utils/sequenceParallel'
 
 interface ParallelismType {
   id: string
@@ -10,7 +52,7 @@ interface ParallelismType {
   cons: string[]
   useCases: string[]
   frameworks: string[]
-  visualization: 'data' | 'model' | 'pipeline' | 'tensor' | 'sequence' | 'expert'
+  visualization: 'data' | 'zero' | 'model' | 'pipeline' | 'tensor' | 'sequence' | 'expert'
 }
 
 const parallelismTypes: ParallelismType[] = [
@@ -41,6 +83,32 @@ const parallelismTypes: ParallelismType[] = [
     frameworks: ['PyTorch DDP', 'TensorFlow MirroredStrategy', 'Horovod', 'DeepSpeed ZeRO-1'],
     visualization: 'data'
   },
+  {
+    id: 'zero',
+    name: 'ZeRO / FSDP',
+    shortName: 'ZeRO',
+    description: 'Data parallelism that shards the training state instead of replicating it. Stage 1 shards the optimizer states, stage 2 also the gradients and stage 3 also the parameters, which are all-gathered layer by layer when needed.',
+    pros: [
+      'Per-GPU memory for model state falls almost linearly with the GPU count',
+      'No model code changes; the same data-parallel training loop',
+      'Stages 1 and 2 cost no more communication than DDP',
+      'Combines with tensor and pipeline parallelism'
+    ],
+    cons: [
+      'Stage 3 adds 50% more communication than DDP',
+      'Per-layer all-gathers must overlap with compute to stay fast',
+      'Activations are not sharded',
+      'Small per-GPU batches at large scale hurt efficiency'
+    ],
+    useCases: [
+      'Training models whose optimizer states do not fit on one GPU',
+      'Fine-tuning large models on a single node',
+      'PyTorch FSDP with FULL_SHARD or SHARD_GRAD_OP',
+      'Megatron-LM distributed optimizer (ZeRO-1)'
+    ],
+    frameworks: ['DeepSpeed ZeRO', 'PyTorch FSDP', 'FairScale', 'Megatron-LM'],
+    visualization: 'zero'
+  },
   {
     id: 'model',
     name: 'Model Parallelism',
@@ -121,7 +189,7 @@ const parallelismTypes: ParallelismType[] = [
     id: 'sequence',
     name: 'Sequence Parallelism',
     shortName: 'SP',
-    description: 'The sequence dimension (sequence length) is split across GPUs. Each GPU processes a chunk of the sequence tokens.',
+    description: 'The sequence dimension (sequence length) is split across GPUs. Each GPU processes a chunk of the sequence tokens. Megatron SP, Ring Attention and DeepSpeed Ulysses differ in how attention, which needs every token, gets them.',
     pros: [
       'Reduces activation memory per GPU',
       'Enables longer sequences',
@@ -139,7 +207,7 @@ const parallelismTypes: ParallelismType[] = [
       'Combined with tensor parallelism',
       'Long context language models'
     ],
-    frameworks: ['DeepSpeed', 'Megatron-LM', 'Colossal-AI'],
+    frameworks: ['DeepSpeed Ulysses', 'Megatron-LM', 'Ring Attention', 'Colossal-AI'],
     visualization: 'sequence'
   },
   {
@@ -172,6 +240,12 @@ const parallelismTypes: ParallelismType[] = [
 
 export default function ParallelismTypes() {
   const [selectedType, setSelectedType] = useState<ParallelismType>(parallelismTypes[0])
+  // Lifted so the comparison table can quote the simulator's numbers for EP
+  const [moeOptions, setMoeOptions] = useState<MoeOptions>(defaultMoeOptions)
+  const moeResult = useMemo(
+    () => (moeOptionsError(moeOptions) ? null : simulateMoeRouting(moeOptions)),
+    [moeOptions]
+  )
 
   return (
     <div className="max-w-7xl mx-auto">
@@ -187,7 +261,7 @@ export default function ParallelismTypes() {
 
         {/* Parallelism Type Selector */}
         <div className="mb-8">
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-3">
             {parallelismTypes.map((type) => (
               <button
                 key={type.id}
@@ -234,7 +308,12 @@ export default function ParallelismTypes() {
                 </svg>
                 Visualization
               </h4>
-              <ParallelismVisualization type={selectedType.visualization} />
+              <ParallelismVisualization
+                type={selectedType.visualization}
+                moeOptions={moeOptions}
+                moeResult={moeResult}
+                onMoeOptionsChange={setMoeOptions}
+              />
             </div>
 
             {/* Pros and Cons */}
@@ -314,21 +393,40 @@ export default function ParallelismTypes() {
             </div>
 
             {/* Comparison Table */}
-            <ComparisonTable selectedType={selectedType} allTypes={parallelismTypes} />
+            <ComparisonTable
+              selectedType={selectedType}
+              allTypes={parallelismTypes}
+              moeOptions={moeOptions}
+              moeResult={moeResult}
+            />
           </motion.div>
         </AnimatePresence>
       </div>
+
+      <ParallelismPlanner />
     </div>
   )
 }
 
 // Visualization Component
-function ParallelismVisualization({ type }: { type: string }) {
+function ParallelismVisualization({
+  type,
+  moeOptions,
+  moeResult,
+  onMoeOptionsChange,
+}: {
+  type: string
+  moeOptions: MoeOptions
+  moeResult: MoeResult | null
+  onMoeOptionsChange: (options: MoeOptions) => void
+}) {
   const numGpus = 4
 
   switch (type) {
     case 'data':
       return <DataParallelismViz numGpus={numGpus} />
+    case 'zero':
+      return <ZeroShardingViz numGpus={numGpus} />
     case 'model':
       return <ModelParallelismViz numGpus={numGpus} />
     case 'pipeline':
@@ -338,7 +436,7 @@ function ParallelismVisualization({ type }: { type: string }) {
     case 'sequence':
       return <SequenceParallelismViz numGpus={numGpus} />
     case 'expert':
-      return <ExpertParallelismViz numGpus={numGpus} />
+      return <ExpertParallelismViz options={moeOptions} result={moeResult} onChange={onMoeOptionsChange} />
     default:
       return null
   }
@@ -395,6 +493,221 @@ function DataParallelismViz({ numGpus }: { numGpus: number }) {
   )
 }
 
+// ZeRO / FSDP Visualization
+const zeroStages: ZeroStage[] = [0, 1, 2, 3]
+
+const zeroStateLabels: Record<ZeroState, { label: string; color: string }> = {
+  parameters: { label: 'Parameters', color: '#3b82f6' },
+  gradients: { label: 'Gradients', color: '#f59e0b' },
+  optimizer: { label: 'Optimizer States', color: '#8b5cf6' },
+}
+
+const zeroCollectiveLabels: Record<ZeroCollective, string> = {
+  'all-reduce': 'All-Reduce',
+  'all-gather': 'All-Gather',
+  'reduce-scatter': 'Reduce-Scatter',
+}
+
+function ZeroShardingViz({ numGpus }: { numGpus: number }) {
+  const [stage, setStage] = useState<ZeroStage>(3)
+  const [parametersB, setParametersB] = useState(7)
+  const [gpus, setGpus] = useState(numGpus)
+
+  const valid = parametersB > 0 && Number.isInteger(gpus) && gpus >= 1
+  const options = { parameters: parametersB * 1e9, gpus }
+  const rows = zeroStages.map((value) => ({
+    stage: value,
+    memory: zeroMemory(value, options),
+    commBytes: zeroTransfers(value, options).reduce((sum, transfer) => sum + transfer.bytes, 0),
+  }))
+  const baselineComm = rows[0].commBytes
+  const shownGpus = Math.min(gpus, 8)
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center mb-4">
+        <p className="text-sm text-gray-600">
+          Data parallelism without the redundancy: each GPU keeps only its shard of the optimizer states, gradients
+          and, at stage 3, the parameters, and gathers the rest when it needs them
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Stage:</span>
+        {zeroStages.map((value) => (
+          <button
+            key={value}
+            onClick={() => setStage(value)}
+            className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+              stage === value
+                ? 'bg-teal-500 text-white shadow-md'
+                : 'bg-white border border-gray-300 text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {zeroStageLabels[value]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 max-w-md">
+        <div>
+          <label htmlFor="zero-params" className="block text-xs font-medium text-gray-700 mb-1">
+            Parameters (billions)
+          </label>
+          <input
+            id="zero-params"
+            type="number"
+            min="0.1"
+            step="0.1"
+            value={parametersB}
+            onChange={(e) => setParametersB(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="zero-gpus" className="block text-xs font-medium text-gray-700 mb-1">
+            Data-Parallel GPUs
+          </label>
+          <input
+            id="zero-gpus"
+            type="number"
+            min="1"
+            value={gpus}
+            onChange={(e) => setGpus(parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {!valid ? (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded text-sm text-amber-800">
+          The parameter count must be positive and the GPU count a positive whole number.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Array.from({ length: shownGpus }, (_, gpu) => (
+              <motion.div
+                key={gpu}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: gpu * 0.05 }}
+                className="bg-white rounded-lg p-4 border-2 border-teal-300 shadow-md"
+              >
+                <div className="text-center font-bold text-teal-600 mb-3">GPU {gpu}</div>
+                <div className="space-y-2">
+                  {(Object.keys(zeroStateLabels) as ZeroState[]).map((state) => {
+                    const sharded = isZeroSharded(state, stage)
+                    return (
+                      <div key={state}>
+                        <div className="flex justify-between text-xs text-gray-600 mb-0.5">
+                          <span>{zeroStateLabels[state].label}</span>
+                          <span className="font-mono">{sharded ? `1/${gpus}` : 'full'}</span>
+                        </div>
+                        <div className="relative h-3 rounded bg-gray-100 overflow-hidden">
+                          <motion.div
+                            className="absolute inset-y-0 rounded"
+                            style={{ backgroundColor: zeroStateLabels[state].color }}
+                            initial={false}
+                            animate={{
+                              left: sharded ? `${(gpu / gpus) * 100}%` : '0%',
+                              width: sharded ? `${100 / gpus}%` : '100%',
+                            }}
+                            transition={{ duration: 0.4 }}
+                          />
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+                <div className="mt-3 pt-3 border-t border-gray-200 text-xs text-center text-gray-600">
+                  {formatMB(rows[stage].memory.total)} of model state
+                </div>
+              </motion.div>
+            ))}
+          </div>
+          {gpus > shownGpus && (
+            <p className="text-xs text-gray-500 text-center">…and {gpus - shownGpus} more GPUs holding the other shards</p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+                  <th className="py-2 px-3 font-semibold">Collective</th>
+                  <th className="py-2 px-3 font-semibold">Of</th>
+                  <th className="py-2 px-3 font-semibold">When</th>
+                  <th className="py-2 px-3 font-semibold text-right">Sent per GPU</th>
+                </tr>
+              </thead>
+              <tbody>
+                {zeroTransfers(stage, options).map((transfer) => (
+                  <tr key={`${transfer.collective}-${transfer.when}`} className="border-b border-gray-200">
+                    <td className="py-2 px-3 font-semibold">{zeroCollectiveLabels[transfer.collective]}</td>
+                    <td className="py-2 px-3">{zeroStateLabels[transfer.state].label}</td>
+                    <td className="py-2 px-3 text-gray-600">{transfer.when}</td>
+                    <td className="py-2 px-3 text-right font-mono">{formatMB(transfer.bytes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+                  <th className="py-2 px-3 font-semibold">Stage</th>
+                  <th className="py-2 px-3 font-semibold text-right">Parameters</th>
+                  <th className="py-2 px-3 font-semibold text-right">Gradients</th>
+                  <th className="py-2 px-3 font-semibold text-right">Optimizer</th>
+                  <th className="py-2 px-3 font-semibold text-right">Total / GPU</th>
+                  <th className="py-2 px-3 font-semibold text-right">Comm / GPU / Step</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.stage}
+                    onClick={() => setStage(row.stage)}
+                    className={`border-b border-gray-200 cursor-pointer ${
+                      row.stage === stage ? 'bg-teal-50 font-semibold' : ''
+                    }`}
+                  >
+                    <td className="py-2 px-3">{zeroStageLabels[row.stage]}</td>
+                    <td className="py-2 px-3 text-right font-mono">{formatMB(row.memory.parameters)}</td>
+                    <td className="py-2 px-3 text-right font-mono">{formatMB(row.memory.gradients)}</td>
+                    <td className="py-2 px-3 text-right font-mono">{formatMB(row.memory.optimizer)}</td>
+                    <td className="py-2 px-3 text-right font-mono">{formatMB(row.memory.total)}</td>
+                    <td className="py-2 px-3 text-right font-mono">
+                      {formatMB(row.commBytes)}
+                      {baselineComm > 0 && row.commBytes > baselineComm && (
+                        <span className="text-red-600"> (+{((row.commBytes / baselineComm - 1) * 100).toFixed(0)}%)</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
+        <p className="text-xs text-gray-700">
+          <span className="font-semibold">Key:</span> BF16 parameters and gradients take 2 bytes each per parameter
+          and Adam&apos;s FP32 master weights, momentum and variance take 12. Stages 1 and 2 replace DDP&apos;s
+          gradient all-reduce with a reduce-scatter plus an all-gather of the updated weights, so they cost no extra
+          traffic. Stage 3 gathers every layer&apos;s weights before forward and again before backward, 1.5× the
+          traffic, and briefly holds one gathered layer on top of the shard. Activations are not included.
+        </p>
+      </div>
+    </div>
+  )
+}
+
 // Model Parallelism Visualization
 function ModelParallelismViz({ numGpus }: { numGpus: number }) {
   return (
@@ -449,118 +762,742 @@ function ModelParallelismViz({ numGpus }: { numGpus: number }) {
 }
 
 // Pipeline Parallelism Visualization
+const pipelineSchedules: PipelineScheduleKind[] = ['gpipe', '1f1b', 'interleaved', 'zero-bubble']
+
+const pipelineOpColors: Record<PipelineOpKind, string> = {
+  F: '#3b82f6',
+  B: '#10b981',
+  W: '#8b5cf6',
+}
+
+const GANTT_WIDTH = 800
+const GANTT_LABEL_WIDTH = 56
+const GANTT_ROW_HEIGHT = 30
+const GANTT_AXIS_HEIGHT = 24
+
+function formatPipelineTime(ms: number): string {
+  return `${Number(ms.toFixed(2))} ms`
+}
+
 function PipelineParallelismViz({ numGpus }: { numGpus: number }) {
+  const [scheduleKind, setScheduleKind] = useState<PipelineScheduleKind>('1f1b')
+  const [stages, setStages] = useState(numGpus)
+  const [microBatches, setMicroBatches] = useState(8)
+  const [forwardTime, setForwardTime] = useState(1)
+  const [backwardTime, setBackwardTime] = useState(2)
+  const [virtualStages, setVirtualStages] = useState(2)
+
+  const options = useMemo(
+    () => ({ stages, microBatches, forwardTime, backwardTime, virtualStages }),
+    [stages, microBatches, forwardTime, backwardTime, virtualStages]
+  )
+  const valid = forwardTime > 0 && backwardTime > 0
+  const results = useMemo(
+    () =>
+      pipelineSchedules.map((kind) => ({
+        kind,
+        error: pipelineScheduleError(kind, options),
+        result: valid && !pipelineScheduleError(kind, options) ? buildPipelineSchedule(kind, options) : null,
+      })),
+    [options, valid]
+  )
+  const { error, result } = results[pipelineSchedules.indexOf(scheduleKind)]
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-4">
-        <p className="text-sm text-gray-600">Model split across GPUs, micro-batches processed in parallel</p>
-      </div>
-      <div className="space-y-3">
-        {['Micro-batch 1', 'Micro-batch 2', 'Micro-batch 3'].map((batch, batchIdx) => (
-          <div key={batchIdx} className="flex items-center gap-2">
-            <div className="w-24 text-xs font-semibold text-gray-600">{batch}</div>
-            <div className="flex-1 flex items-center gap-2">
-              {Array.from({ length: numGpus }).map((_, gpuIdx) => {
-                const stage = (batchIdx + gpuIdx) % 3
-                return (
-                  <motion.div
-                    key={gpuIdx}
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: stage === 0 ? 1 : stage === 1 ? 0.6 : 0.3 }}
-                    transition={{ delay: gpuIdx * 0.1 }}
-                    className="flex-1 bg-white rounded p-3 border-2 border-indigo-300 shadow-sm"
-                  >
-                    <div className="text-center text-xs font-bold text-indigo-600">GPU {gpuIdx}</div>
-                    <div className="text-center text-xs mt-1">
-                      {stage === 0 ? '🔄 Processing' : stage === 1 ? '⏳ Waiting' : '✓ Done'}
-                    </div>
-                  </motion.div>
-                )
-              })}
+        <p className="text-sm text-gray-600">
+          Model split into stages across GPUs; micro-batches flow through the pipeline forward, then backward
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Schedule:</span>
+        {pipelineSchedules.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => setScheduleKind(kind)}
+            className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+              scheduleKind === kind
+                ? 'bg-indigo-500 text-white shadow-md'
+                : 'bg-white border border-gray-300 text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {pipelineScheduleLabels[kind]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div>
+          <label htmlFor="pp-stages" className="block text-xs font-medium text-gray-700 mb-1">
+            Stages (GPUs): {stages}
+          </label>
+          <input
+            id="pp-stages"
+            type="range"
+            min="2"
+            max="8"
+            value={stages}
+            onChange={(e) => setStages(parseInt(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label htmlFor="pp-micro-batches" className="block text-xs font-medium text-gray-700 mb-1">
+            Micro-batches: {microBatches}
+          </label>
+          <input
+            id="pp-micro-batches"
+            type="range"
+            min="1"
+            max="32"
+            value={microBatches}
+            onChange={(e) => setMicroBatches(parseInt(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label htmlFor="pp-forward" className="block text-xs font-medium text-gray-700 mb-1">
+            Forward per Stage (ms)
+          </label>
+          <input
+            id="pp-forward"
+            type="number"
+            min="0"
+            step="0.1"
+            value={forwardTime}
+            onChange={(e) => setForwardTime(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="pp-backward" className="block text-xs font-medium text-gray-700 mb-1">
+            Backward per Stage (ms)
+          </label>
+          <input
+            id="pp-backward"
+            type="number"
+            min="0"
+            step="0.1"
+            value={backwardTime}
+            onChange={(e) => setBackwardTime(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        {scheduleKind === 'interleaved' && (
+          <div>
+            <label htmlFor="pp-virtual" className="block text-xs font-medium text-gray-700 mb-1">
+              Virtual Stages per GPU: {virtualStages}
+            </label>
+            <input
+              id="pp-virtual"
+              type="range"
+              min="2"
+              max="4"
+              value={virtualStages}
+              onChange={(e) => setVirtualStages(parseInt(e.target.value))}
+              className="w-full"
+            />
+          </div>
+        )}
+      </div>
+
+      {error || !result ? (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded text-sm text-amber-800">
+          {error ?? 'Forward and backward times must be positive.'}
+        </div>
+      ) : (
+        <>
+          <PipelineGantt
+            result={result}
+            stages={stages}
+            virtualStages={scheduleKind === 'interleaved' ? virtualStages : 1}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Total Step Time</div>
+              <div className="text-xl font-bold text-gray-800">{formatPipelineTime(result.totalTime)}</div>
+              <div className="text-xs text-gray-500">
+                {formatPipelineTime(microBatches * (forwardTime + backwardTime))} of work per GPU
+              </div>
+            </div>
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Bubble Fraction</div>
+              <div className="text-xl font-bold text-gray-800">{(result.bubbleFraction * 100).toFixed(1)}%</div>
+              <div className="text-xs text-gray-500">Idle share of {stages} GPUs × step time</div>
+            </div>
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Peak In-Flight Activations per Stage</div>
+              <div className="text-sm font-mono font-semibold text-gray-800 mt-1">
+                {result.peakInFlight.map((peak) => Number(peak.toFixed(2))).join(' · ')}
+              </div>
+              <div className="text-xs text-gray-500">Micro-batches whose activations a stage holds at once</div>
             </div>
           </div>
-        ))}
+        </>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+              <th className="py-2 px-3 font-semibold">Schedule</th>
+              <th className="py-2 px-3 font-semibold">Step Time</th>
+              <th className="py-2 px-3 font-semibold">Bubble</th>
+              <th className="py-2 px-3 font-semibold">Peak In-Flight</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(({ kind, result: row }) => (
+              <tr
+                key={kind}
+                className={`border-b border-gray-200 ${kind === scheduleKind ? 'bg-indigo-50 font-semibold' : ''}`}
+              >
+                <td className="py-2 px-3">{pipelineScheduleLabels[kind]}</td>
+                <td className="py-2 px-3 font-mono">{row ? formatPipelineTime(row.totalTime) : '—'}</td>
+                <td className="py-2 px-3 font-mono">{row ? `${(row.bubbleFraction * 100).toFixed(1)}%` : '—'}</td>
+                <td className="py-2 px-3 font-mono">{row ? Number(Math.max(...row.peakInFlight).toFixed(2)) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
       </div>
+
       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
         <p className="text-xs text-gray-700">
-          <span className="font-semibold">Key:</span> Different micro-batches are processed simultaneously across the pipeline. GPUs work on different stages concurrently, improving utilization.
+          <span className="font-semibold">Key:</span> GPipe runs every forward before any backward, so each stage holds
+          all micro-batches. 1F1B alternates forwards and backwards to cap stage s at stages − s in-flight micro-batches
+          with the same bubble. Interleaving gives each GPU several smaller model chunks, shrinking the bubble by the
+          number of virtual stages at the cost of more point-to-point traffic. Zero Bubble splits the backward into
+          input gradients (B) and weight gradients (W) and delays W to fill the cool-down.
         </p>
       </div>
     </div>
   )
 }
 
+function PipelineGantt({
+  result,
+  stages,
+  virtualStages,
+}: {
+  result: PipelineResult
+  stages: number
+  virtualStages: number
+}) {
+  const plotWidth = GANTT_WIDTH - GANTT_LABEL_WIDTH - 8
+  const height = stages * GANTT_ROW_HEIGHT + GANTT_AXIS_HEIGHT
+  const x = (time: number) => GANTT_LABEL_WIDTH + (time / result.totalTime) * plotWidth
+  const ticks = Array.from({ length: 6 }, (_, i) => (result.totalTime * i) / 5)
+  const splitBackward = result.ops.some((op) => op.kind === 'W')
+
+  return (
+    <div className="bg-white rounded-lg p-3 border border-gray-200">
+      <svg viewBox={`0 0 ${GANTT_WIDTH} ${height}`} className="w-full" role="img" aria-label="Pipeline schedule per GPU">
+        {Array.from({ length: stages }, (_, gpu) => (
+          <g key={gpu}>
+            <text
+              x={GANTT_LABEL_WIDTH - 8}
+              y={gpu * GANTT_ROW_HEIGHT + GANTT_ROW_HEIGHT / 2 + 4}
+              textAnchor="end"
+              className="fill-gray-600 text-xs font-semibold"
+            >
+              GPU {gpu}
+            </text>
+            <rect
+              x={GANTT_LABEL_WIDTH}
+              y={gpu * GANTT_ROW_HEIGHT + 2}
+              width={plotWidth}
+              height={GANTT_ROW_HEIGHT - 4}
+              fill="#f3f4f6"
+            />
+          </g>
+        ))}
+        {result.ops.map((op) => {
+          const width = x(op.end) - x(op.start)
+          // Later model chunks of an interleaved GPU are drawn lighter
+          const opacity = 1 - (Math.floor(op.chunk / stages) / virtualStages) * 0.6
+          return (
+            <g key={`${op.kind}-${op.microBatch}-${op.chunk}`}>
+              <rect
+                x={x(op.start)}
+                y={op.gpu * GANTT_ROW_HEIGHT + 2}
+                width={width}
+                height={GANTT_ROW_HEIGHT - 4}
+                fill={pipelineOpColors[op.kind]}
+                fillOpacity={opacity}
+                stroke="#fff"
+                strokeWidth={1}
+              >
+                <title>
+                  {op.kind} micro-batch {op.microBatch + 1}, chunk {op.chunk}: {formatPipelineTime(op.start)} –{' '}
+                  {formatPipelineTime(op.end)}
+                </title>
+              </rect>
+              {width >= 16 && (
+                <text
+                  x={x(op.start) + width / 2}
+                  y={op.gpu * GANTT_ROW_HEIGHT + GANTT_ROW_HEIGHT / 2 + 4}
+                  textAnchor="middle"
+                  className="fill-white text-[10px] font-semibold pointer-events-none"
+                >
+                  {op.microBatch + 1}
+                </text>
+              )}
+            </g>
+          )
+        })}
+        {ticks.map((tick) => (
+          <text
+            key={tick}
+            x={x(tick)}
+            y={height - 6}
+            textAnchor={tick === 0 ? 'start' : tick === result.totalTime ? 'end' : 'middle'}
+            className="fill-gray-500 text-[10px]"
+          >
+            {formatPipelineTime(tick)}
+          </text>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        {(Object.keys(pipelineOpColors) as PipelineOpKind[])
+          .filter((kind) => kind !== 'W' || splitBackward)
+          .map((kind) => (
+            <span key={kind} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: pipelineOpColors[kind] }} />
+              {kind === 'F' ? 'Forward' : kind === 'W' ? 'Weight gradients' : splitBackward ? 'Input gradients' : 'Backward'}
+            </span>
+          ))}
+        <span>Numbers are micro-batches</span>
+      </div>
+    </div>
+  )
+}
+
 // Tensor Parallelism Visualization
+const gpuColors = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16']
+
+const commLabels: Record<TensorParallelComm, string> = {
+  'all-reduce': 'All-Reduce',
+  'all-gather': 'All-Gather',
+  'reduce-scatter': 'Reduce-Scatter',
+}
+
+function formatShape(shape: number[]): string {
+  return `[${shape.join(' × ')}]`
+}
+
+function formatMB(bytes: number): string {
+  const mb = bytes / 1024 ** 2
+  return mb >= 1024 ? `${(mb / 1024).toFixed(2)} GB` : `${mb.toFixed(1)} MB`
+}
+
 function TensorParallelismViz({ numGpus }: { numGpus: number }) {
+  const [block, setBlock] = useState<TensorParallelBlock>('mlp')
+  const [pass, setPass] = useState<TensorParallelPass>('forward')
+  const [sequenceParallel, setSequenceParallel] = useState(false)
+  const [hiddenSize, setHiddenSize] = useState(4096)
+  const [ffnSize, setFfnSize] = useState(16384)
+  const [heads, setHeads] = useState(32)
+  const [batchSize, setBatchSize] = useState(2)
+  const [seqLength, setSeqLength] = useState(2048)
+  const [tp, setTp] = useState(numGpus)
+  const [stepIdx, setStepIdx] = useState(0)
+
+  const options = { hiddenSize, ffnSize, heads, batchSize, seqLength, tp, sequenceParallel }
+  const error = tensorParallelError(options)
+  const steps = error ? [] : tensorParallelSteps(block, pass, options)
+  const step = steps[Math.min(stepIdx, steps.length - 1)]
+  const shownGpus = Math.min(tp, gpuColors.length)
+  const commBytes = (step?.commShape ?? []).reduce((a, b) => a * b, 1) * BF16_BYTES
+  // A ring all-reduce is a reduce-scatter plus an all-gather, each sending (tp - 1) / tp of the buffer
+  const ringBytes = (commBytes * (tp - 1) * (step?.comm === 'all-reduce' ? 2 : 1)) / tp
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  const toggle = <T extends string>(value: T, current: T, set: (value: T) => void, label: string) => (
+    <button
+      key={value}
+      onClick={() => {
+        set(value)
+        setStepIdx(0)
+      }}
+      className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+        current === value
+          ? 'bg-orange-500 text-white shadow-md'
+          : 'bg-white border border-gray-300 text-gray-600 hover:text-gray-800'
+      }`}
+    >
+      {label}
+    </button>
+  )
+  const sizeInput = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min="1"
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+        className={inputClass}
+      />
+    </div>
+  )
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-4">
-        <p className="text-sm text-gray-600">Matrix operations split across GPUs (e.g., attention heads)</p>
+        <p className="text-sm text-gray-600">
+          Megatron-style tensor parallelism: a column-parallel GEMM followed by a row-parallel GEMM, with one collective
+          on each side of the block
+        </p>
       </div>
-      <div className="bg-gray-100 rounded-lg p-4 mb-4">
-        <div className="text-center text-sm font-semibold text-gray-700 mb-3">Attention Layer</div>
-        <div className="grid grid-cols-4 gap-2">
-          {Array.from({ length: numGpus }).map((_, idx) => (
-            <motion.div
-              key={idx}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: idx * 0.1 }}
-              className="bg-white rounded p-3 border-2 border-orange-300 shadow-sm"
-            >
-              <div className="text-center text-xs font-bold text-orange-600">GPU {idx}</div>
-              <div className="text-center text-xs mt-1 text-gray-600">Head {idx + 1}</div>
-            </motion.div>
-          ))}
-        </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Block:</span>
+        {toggle<TensorParallelBlock>('mlp', block, setBlock, 'MLP')}
+        {toggle<TensorParallelBlock>('attention', block, setBlock, 'Attention')}
+        <span className="text-sm font-medium text-gray-700 ml-4">Pass:</span>
+        {toggle<TensorParallelPass>('forward', pass, setPass, 'Forward')}
+        {toggle<TensorParallelPass>('backward', pass, setPass, 'Backward')}
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700 ml-4">
+          <input
+            type="checkbox"
+            checked={sequenceParallel}
+            onChange={(e) => {
+              setSequenceParallel(e.target.checked)
+              setStepIdx(0)
+            }}
+          />
+          Sequence parallelism
+        </label>
       </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        {sizeInput('tp-hidden', 'Hidden Size h', hiddenSize, setHiddenSize)}
+        {sizeInput('tp-ffn', 'FFN Size', ffnSize, setFfnSize)}
+        {sizeInput('tp-heads', 'Attention Heads', heads, setHeads)}
+        {sizeInput('tp-batch', 'Batch Size', batchSize, setBatchSize)}
+        {sizeInput('tp-seq', 'Sequence Length', seqLength, setSeqLength)}
+        {sizeInput('tp-degree', 'TP Degree', tp, setTp)}
+      </div>
+
+      {error || !step ? (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded text-sm text-amber-800">{error}</div>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-4">
+          {/* Step list */}
+          <ol className="space-y-2">
+            {steps.map((s, idx) => (
+              <li key={idx}>
+                <button
+                  onClick={() => setStepIdx(idx)}
+                  className={`w-full text-left rounded-lg p-3 border-2 transition-all duration-200 ${
+                    s === step ? 'border-orange-400 bg-orange-50' : 'border-gray-200 bg-white hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-semibold text-gray-800">
+                      {idx + 1}. {s.title}
+                    </span>
+                    {s.comm && (
+                      <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-purple-100 text-purple-700 whitespace-nowrap">
+                        {commLabels[s.comm]}
+                      </span>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {/* Selected step */}
+          <div className="md:col-span-2 space-y-4">
+            <div className="bg-white rounded-lg p-4 border border-gray-200">
+              <h5 className="font-semibold text-gray-800 mb-1">{step.title}</h5>
+              <p className="text-sm text-gray-600">{step.description}</p>
+              {step.comm && step.commShape && (
+                <p className="text-xs text-purple-700 mt-2 font-mono">
+                  {commLabels[step.comm]} across {tp} GPUs on {formatShape(step.commShape)} = {formatMB(commBytes)} in
+                  BF16; each GPU sends {formatMB(ringBytes)} with a ring
+                </p>
+              )}
+            </div>
+
+            {step.weight && <WeightSplitDiagram weight={step.weight} tp={tp} shownGpus={shownGpus} />}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {Array.from({ length: shownGpus }, (_, gpu) => (
+                <div
+                  key={gpu}
+                  className="bg-white rounded-lg p-3 border-2 shadow-sm"
+                  style={{ borderColor: gpuColors[gpu] }}
+                >
+                  <div className="text-center text-xs font-bold mb-2" style={{ color: gpuColors[gpu] }}>
+                    GPU {gpu}
+                  </div>
+                  <div className="space-y-1">
+                    {step.tensors.map((tensor, idx) => (
+                      <div key={idx} className="text-[11px] font-mono text-gray-700">
+                        <span className="font-semibold">{tensor.name}</span> {formatShape(tensor.shape)}
+                        {tensor.split !== undefined && (
+                          <span className="text-gray-500">
+                            {' '}
+                            {tensor.split === 0 ? 'rows' : 'cols'} {gpu * tensor.shape[tensor.split]}–
+                            {(gpu + 1) * tensor.shape[tensor.split] - 1}
+                          </span>
+                        )}
+                        {tensor.partial && <span className="text-red-500"> partial Σ</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {tp > shownGpus && (
+              <p className="text-xs text-gray-500">
+                Showing the first {shownGpus} of {tp} GPUs; the rest follow the same pattern.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setStepIdx(Math.max(0, stepIdx - 1))}
+                disabled={stepIdx === 0}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-white border border-gray-300 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setStepIdx(Math.min(steps.length - 1, stepIdx + 1))}
+                disabled={stepIdx >= steps.length - 1}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-white border border-gray-300 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
         <p className="text-xs text-gray-700">
-          <span className="font-semibold">Key:</span> Each GPU computes part of the matrix multiplication. For attention, each GPU handles different attention heads. Communication happens within each layer.
+          <span className="font-semibold">Key:</span> Splitting the first weight by columns and the second by rows lets
+          the intermediate activation stay sharded, so each block needs only two collectives per pass. Without sequence
+          parallelism they are all-reduces (g in forward, f in backward); with it each becomes a reduce-scatter plus
+          all-gather pair that moves the same bytes but keeps LayerNorm and dropout activations sharded too.
         </p>
       </div>
     </div>
   )
 }
 
+function WeightSplitDiagram({ weight, tp, shownGpus }: { weight: WeightSplit; tp: number; shownGpus: number }) {
+  const [rows, cols] = weight.shape
+  const byColumns = weight.split === 'columns'
+  const shard = byColumns ? [rows, cols / tp] : [rows / tp, cols]
+
+  return (
+    <div className="bg-white rounded-lg p-4 border border-gray-200">
+      <div className="text-xs text-gray-600 mb-2">
+        <span className="font-semibold text-gray-800">{weight.name}</span> {formatShape(weight.shape)} split by{' '}
+        {weight.split}: each GPU holds {formatShape(shard)}
+      </div>
+      <div
+        className={`flex ${
+          byColumns ? 'flex-row h-24' : 'flex-col h-32'
+        } w-full max-w-md rounded overflow-hidden border border-gray-300`}
+      >
+        {Array.from({ length: tp }, (_, gpu) => (
+          <div
+            key={gpu}
+            className="flex-1 flex items-center justify-center text-[10px] font-semibold text-white border-white"
+            style={{
+              backgroundColor: gpuColors[gpu % gpuColors.length],
+              opacity: gpu < shownGpus ? 1 : 0.5,
+              borderRightWidth: byColumns ? 1 : 0,
+              borderBottomWidth: byColumns ? 0 : 1,
+            }}
+          >
+            {tp <= 16 && `GPU ${gpu}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 // Sequence Parallelism Visualization
+const sequenceDegrees = [2, 4, 8, 16, 32]
+
 function SequenceParallelismViz({ numGpus }: { numGpus: number }) {
+  const [approach, setApproach] = useState<SequenceParallelApproach>('ring-attention')
+  const [seqLength, setSeqLength] = useState(32768)
+  const [heads, setHeads] = useState(32)
+  const [hiddenSize, setHiddenSize] = useState(4096)
+  const [degree, setDegree] = useState(numGpus)
+
+  const options = { seqLength, heads, hiddenSize, degree }
+  const estimates = sequenceParallelApproaches.map((value) => estimateSequenceParallel(value, options))
+  const selected = estimates[sequenceParallelApproaches.indexOf(approach)]
+  const valid = estimates.filter((estimate) => !estimate.error)
+  const leastComm = Math.min(...valid.map((estimate) => estimate.commBytes))
+  const leastMemory = Math.min(...valid.map((estimate) => estimate.activationBytes))
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  const numberInput = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min="1"
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+        className={inputClass}
+      />
+    </div>
+  )
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-4">
-        <p className="text-sm text-gray-600">Sequence length split across GPUs</p>
+        <p className="text-sm text-gray-600">
+          One sequence split across GPUs; the approaches differ in how attention, which needs every token, gets them
+        </p>
       </div>
-      <div className="space-y-3">
-        {Array.from({ length: numGpus }).map((_, idx) => (
-          <motion.div
-            key={idx}
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: idx * 0.1 }}
-            className="bg-white rounded-lg p-4 border-2 border-teal-300 shadow-md"
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {numberInput('sp-seq', 'Sequence Length', seqLength, setSeqLength)}
+        {numberInput('sp-heads', 'Attention Heads', heads, setHeads)}
+        {numberInput('sp-hidden', 'Hidden Size', hiddenSize, setHiddenSize)}
+        {numberInput('sp-degree', 'Degree (GPUs)', degree, setDegree)}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {estimates.map((estimate) => (
+          <button
+            key={estimate.approach}
+            onClick={() => setApproach(estimate.approach)}
+            className={`text-left bg-white rounded-lg p-3 border-2 transition-all duration-200 ${
+              estimate.approach === approach ? 'border-teal-500 shadow-md' : 'border-gray-200 hover:border-teal-300'
+            }`}
           >
-            <div className="flex items-center justify-between">
-              <div className="font-bold text-teal-600">GPU {idx}</div>
-              <div className="flex gap-1">
-                {Array.from({ length: 8 }).map((_, tokenIdx) => (
-                  <div
-                    key={tokenIdx}
-                    className="w-6 h-6 bg-teal-100 rounded text-xs flex items-center justify-center font-semibold"
+            <div className="font-semibold text-gray-800 mb-2">{sequenceParallelLabels[estimate.approach]}</div>
+            {estimate.error ? (
+              <div className="text-xs text-amber-700">{estimate.error}</div>
+            ) : (
+              <div className="space-y-1 text-xs text-gray-600">
+                <div className="flex justify-between">
+                  <span>Comm / GPU / layer</span>
+                  <span
+                    className={`font-mono font-semibold ${
+                      estimate.commBytes === leastComm ? 'text-green-600' : 'text-gray-800'
+                    }`}
                   >
-                    {idx * 8 + tokenIdx + 1}
-                  </div>
-                ))}
+                    {formatMB(estimate.commBytes)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Activations / GPU / layer</span>
+                  <span
+                    className={`font-mono font-semibold ${
+                      estimate.activationBytes === leastMemory ? 'text-green-600' : 'text-gray-800'
+                    }`}
+                  >
+                    {formatMB(estimate.activationBytes)}
+                  </span>
+                </div>
               </div>
-            </div>
-            <div className="text-xs text-gray-600 mt-2 text-center">
-              Tokens {idx * 8 + 1} - {(idx + 1) * 8}
-            </div>
-          </motion.div>
+            )}
+          </button>
         ))}
       </div>
+
+      {selected.error ? (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded text-sm text-amber-800">
+          {selected.error}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {selected.phases.map((phase, idx) => (
+            <motion.div
+              key={`${approach}-${phase.label}`}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: idx * 0.1 }}
+              className="bg-white rounded-lg p-3 border-2 border-teal-300 shadow-md flex flex-wrap items-center gap-3"
+            >
+              <div className="w-6 h-6 rounded-full bg-teal-500 text-white text-xs font-bold flex items-center justify-center">
+                {idx + 1}
+              </div>
+              <div className="font-semibold text-gray-800 text-sm">{phase.label}</div>
+              <div className="text-xs text-gray-600">Each GPU holds {phase.holds}</div>
+              {phase.comm && (
+                <span className="ml-auto px-2 py-0.5 rounded-full text-xs font-semibold bg-teal-100 text-teal-700">
+                  {phase.comm}
+                </span>
+              )}
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+              <th className="py-2 px-3 font-semibold">Degree</th>
+              {sequenceParallelApproaches.map((value) => (
+                <th key={value} className="py-2 px-3 font-semibold text-right">
+                  {sequenceParallelLabels[value]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sequenceDegrees.map((value) => (
+              <tr
+                key={value}
+                className={`border-b border-gray-200 ${value === degree ? 'bg-teal-50 font-semibold' : ''}`}
+              >
+                <td className="py-2 px-3">{value} GPUs</td>
+                {sequenceParallelApproaches.map((kind) => {
+                  const row = estimateSequenceParallel(kind, { ...options, degree: value })
+                  return (
+                    <td key={kind} className="py-2 px-3 text-right font-mono">
+                      {row.error ? '—' : `${formatMB(row.commBytes)} · ${formatMB(row.activationBytes)}`}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-1">Communication · activations per GPU per layer</p>
+      </div>
+
       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
         <p className="text-xs text-gray-700">
-          <span className="font-semibold">Key:</span> Each GPU processes a chunk of the sequence. Reduces activation memory per GPU and enables longer sequences.
+          <span className="font-semibold">Key:</span> Megatron SP is tensor parallelism that also shards LayerNorm
+          and dropout along the sequence: it splits the weights too, but every layer all-gathers and reduce-scatters
+          the full activation, so its traffic does not shrink as GPUs are added. Ring Attention keeps every GPU on its
+          own tokens and passes K/V blocks round the ring, which overlaps with attention compute and has no head
+          limit. Ulysses swaps sequence shards for head shards with all-to-alls, so its traffic falls as 1/degree,
+          but the degree can&apos;t exceed the head count. BF16, batch 1, multi-head attention without
+          FlashAttention, so every approach keeps the scores of its queries against all keys for backward.
+          Communication counts bytes each GPU sends, forward and backward, including Megatron&apos;s second
+          all-gather of X for the weight gradients.
         </p>
       </div>
     </div>
@@ -568,58 +1505,350 @@ function SequenceParallelismViz({ numGpus }: { numGpus: number }) {
 }
 
 // Expert Parallelism Visualization
-function ExpertParallelismViz({ numGpus }: { numGpus: number }) {
+const moeDistributions: Array<{ value: RoutingDistribution; label: string }> = [
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'zipf', label: 'Zipf-skewed' },
+  { value: 'custom', label: 'Custom' },
+]
+
+const defaultMoeOptions: MoeOptions = {
+  experts: 8,
+  topK: 2,
+  tokens: 4096,
+  epDegree: 4,
+  capacityFactor: 1.25,
+  hiddenSize: 4096,
+  distribution: 'zipf',
+  zipfExponent: 1,
+  customWeights: [],
+  seed: 1,
+}
+
+const EXPERT_BAR_WIDTH = 28
+const EXPERT_CHART_HEIGHT = 180
+const EXPERT_AXIS_HEIGHT = 20
+
+function ExpertParallelismViz({
+  options,
+  result,
+  onChange,
+}: {
+  options: MoeOptions
+  result: MoeResult | null
+  onChange: (options: MoeOptions) => void
+}) {
+  const error = moeOptionsError(options)
+  const set = (patch: Partial<MoeOptions>) => onChange({ ...options, ...patch })
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  // Start editing from whatever distribution is showing, scaled so the favourite expert is 1
+  const selectDistribution = (distribution: RoutingDistribution) => {
+    if (distribution !== 'custom' || options.distribution === 'custom') return set({ distribution })
+    const weights = routingWeights(options)
+    const max = Math.max(...weights)
+    set({ distribution, customWeights: weights.map((weight) => Number((weight / max).toFixed(2))) })
+  }
+  const setWeight = (expert: number, weight: number) => {
+    const customWeights = Array.from({ length: options.experts }, (_, idx) => options.customWeights[idx] ?? 1)
+    customWeights[expert] = weight
+    set({ customWeights })
+  }
+
+  const numberInput = (
+    id: string,
+    label: string,
+    key: 'experts' | 'topK' | 'tokens' | 'epDegree' | 'capacityFactor' | 'hiddenSize',
+    step = '1'
+  ) => (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min={step}
+        step={step}
+        value={options[key]}
+        onChange={(e) => set({ [key]: parseFloat(e.target.value) || 0 })}
+        className={inputClass}
+      />
+    </div>
+  )
+
+  const stragglers = result?.gpus.filter((gpu) => gpu.straggler) ?? []
+  // Weights stay editable while routing errors out, so an all-zero set can be fixed
+  const editableWeights =
+    options.distribution === 'custom' &&
+    Number.isInteger(options.experts) &&
+    options.experts >= 1 &&
+    options.experts <= MOE_MAX_EXPERTS
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-4">
-        <p className="text-sm text-gray-600">Different experts (MoE) placed on different GPUs</p>
+        <p className="text-sm text-gray-600">
+          Experts (MoE) are spread over the EP group; a router sends each token to its top-k experts through an
+          all-to-all, and the results come back through a second one
+        </p>
       </div>
-      <div className="grid grid-cols-4 gap-4">
-        {Array.from({ length: numGpus }).map((_, idx) => (
-          <motion.div
-            key={idx}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: idx * 0.1 }}
-            className="bg-white rounded-lg p-4 border-2 border-pink-300 shadow-md"
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        {numberInput('ep-experts', 'Experts', 'experts')}
+        {numberInput('ep-top-k', 'Top-k', 'topK')}
+        {numberInput('ep-tokens', 'Tokens per Batch', 'tokens')}
+        {numberInput('ep-degree', 'EP Degree (GPUs)', 'epDegree')}
+        {numberInput('ep-capacity', 'Capacity Factor', 'capacityFactor', '0.05')}
+        {numberInput('ep-hidden', 'Hidden Size', 'hiddenSize')}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Routing:</span>
+        {moeDistributions.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => selectDistribution(value)}
+            className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+              options.distribution === value
+                ? 'bg-pink-500 text-white shadow-md'
+                : 'bg-white border border-gray-300 text-gray-600 hover:text-gray-800'
+            }`}
           >
-            <div className="text-center font-bold text-pink-600 mb-3">GPU {idx}</div>
-            <div className="space-y-2">
-              <div className="bg-pink-100 rounded p-2 text-xs text-center font-semibold">
-                Expert {idx * 2 + 1}
+            {label}
+          </button>
+        ))}
+        {options.distribution === 'zipf' && (
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-700 ml-2">
+            Exponent: {options.zipfExponent.toFixed(1)}
+            <input
+              type="range"
+              min="0"
+              max="3"
+              step="0.1"
+              value={options.zipfExponent}
+              onChange={(e) => set({ zipfExponent: parseFloat(e.target.value) })}
+            />
+          </label>
+        )}
+        <button
+          onClick={() => set({ seed: options.seed + 1 })}
+          className="px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 bg-white border border-gray-300 text-gray-600 hover:text-gray-800 ml-auto"
+        >
+          Resample Routing
+        </button>
+      </div>
+
+      {editableWeights && (
+        <div className="grid grid-cols-4 md:grid-cols-8 gap-2">
+          {Array.from({ length: options.experts }, (_, expert) => (
+            <div key={expert}>
+              <label htmlFor={`ep-weight-${expert}`} className="block text-xs font-medium text-gray-700 mb-1">
+                Expert {expert}
+              </label>
+              <input
+                id={`ep-weight-${expert}`}
+                type="number"
+                min="0"
+                step="0.1"
+                value={options.customWeights[expert] ?? 1}
+                onChange={(e) => setWeight(expert, parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error || !result ? (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded text-sm text-amber-800">{error}</div>
+      ) : (
+        <>
+          <ExpertLoadChart result={result} />
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Capacity per Expert</div>
+              <div className="text-xl font-bold text-gray-800">{result.capacity.toLocaleString()}</div>
+              <div className="text-xs text-gray-500">
+                {options.capacityFactor} × {options.tokens.toLocaleString()} tokens × {options.topK} / {options.experts}
               </div>
-              <div className="bg-pink-100 rounded p-2 text-xs text-center font-semibold">
-                Expert {idx * 2 + 2}
+            </div>
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Dropped Assignments</div>
+              <div className="text-xl font-bold text-gray-800">
+                {((result.droppedAssignments / result.assignments) * 100).toFixed(1)}%
+              </div>
+              <div className="text-xs text-gray-500">
+                {result.droppedAssignments.toLocaleString()} of {result.assignments.toLocaleString()};{' '}
+                {result.droppedTokens.toLocaleString()} tokens lost every expert
               </div>
             </div>
-            <motion.div
-              animate={{
-                scale: [1, 1.05, 1],
-              }}
-              transition={{
-                duration: 2,
-                repeat: Infinity,
-                ease: 'easeInOut',
-              }}
-              className="mt-3 pt-3 border-t border-gray-300"
-            >
-              <div className="text-xs text-center text-gray-600">Tokens routed</div>
-              <div className="text-xs text-center font-semibold text-pink-600 mt-1">→</div>
-            </motion.div>
-          </motion.div>
-        ))}
-      </div>
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Load Imbalance</div>
+              <div className="text-xl font-bold text-gray-800">{result.imbalance.toFixed(2)}×</div>
+              <div className="text-xs text-gray-500">Busiest GPU over the mean; the layer waits for it</div>
+            </div>
+            <div className="bg-white rounded-lg p-3 border border-gray-200">
+              <div className="text-xs text-gray-500">Largest All-to-All Send</div>
+              <div className="text-xl font-bold text-gray-800">{formatMB(result.maxAllToAllBytes)}</div>
+              <div className="text-xs text-gray-500">Per GPU, for dispatch and again for combine</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {result.gpus.map((gpu) => (
+              <motion.div
+                key={gpu.gpu}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(gpu.gpu, 8) * 0.05 }}
+                className={`bg-white rounded-lg p-4 border-2 shadow-md ${
+                  gpu.straggler ? 'border-red-400 bg-red-50' : 'border-pink-300'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold text-pink-600">GPU {gpu.gpu}</span>
+                  {gpu.straggler && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+                      Straggler
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mb-2">
+                  Experts {gpu.experts[0]}–{gpu.experts[gpu.experts.length - 1]}
+                </div>
+                <div className="space-y-1 text-xs text-gray-700">
+                  <div className="flex justify-between">
+                    <span>Tokens processed</span>
+                    <span className="font-mono font-semibold">{gpu.processed.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Dispatch send / recv</span>
+                    <span className="font-mono">
+                      {formatMB(gpu.dispatchSent)} / {formatMB(gpu.dispatchReceived)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Combine send / recv</span>
+                    <span className="font-mono">
+                      {formatMB(gpu.dispatchReceived)} / {formatMB(gpu.dispatchSent)}
+                    </span>
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+
+          {stragglers.length > 0 && (
+            <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded text-sm text-amber-800">
+              {stragglers.length > 1 ? 'GPUs' : 'GPU'} {stragglers.map((gpu) => gpu.gpu).join(', ')}{' '}
+              {stragglers.length > 1 ? 'process' : 'processes'} at least 10% more tokens than the average, so every
+              other GPU idles at the combine all-to-all until {stragglers.length > 1 ? 'they finish' : 'it finishes'}.
+            </div>
+          )}
+        </>
+      )}
+
       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
         <p className="text-xs text-gray-700">
-          <span className="font-semibold">Key:</span> Tokens are routed to appropriate experts based on routing logic. Only active experts process tokens, enabling sparse activation.
+          <span className="font-semibold">Key:</span> Each GPU starts with an equal share of the tokens. An expert
+          accepts at most capacity-factor × its even share of assignments; the rest are dropped and skip the expert
+          through the residual connection. Dispatch sends each kept assignment&apos;s BF16 hidden state to the GPU
+          owning the expert, and combine returns it, so skewed routing both drops tokens and turns the busiest GPU
+          into the straggler the whole layer waits for.
         </p>
       </div>
     </div>
   )
 }
 
+function ExpertLoadChart({ result }: { result: MoeResult }) {
+  const width = Math.max(400, result.experts.length * EXPERT_BAR_WIDTH + 16)
+  const height = EXPERT_CHART_HEIGHT + EXPERT_AXIS_HEIGHT
+  const max = Math.max(result.capacity, ...result.experts.map((expert) => expert.routed)) * 1.1
+  const y = (count: number) => EXPERT_CHART_HEIGHT - (count / max) * (EXPERT_CHART_HEIGHT - 8)
+  const barX = (expert: number) => 8 + expert * ((width - 16) / result.experts.length)
+  const barWidth = (width - 16) / result.experts.length - 4
+  const showLabels = result.experts.length <= 32
+
+  return (
+    <div className="bg-white rounded-lg p-3 border border-gray-200 overflow-x-auto">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full min-w-[400px]" role="img" aria-label="Tokens per expert">
+        {result.experts.map((expert) => (
+          <g key={expert.expert}>
+            <rect
+              x={barX(expert.expert)}
+              y={y(expert.processed)}
+              width={barWidth}
+              height={EXPERT_CHART_HEIGHT - y(expert.processed)}
+              fill={gpuColors[expert.gpu % gpuColors.length]}
+            >
+              <title>
+                Expert {expert.expert} on GPU {expert.gpu}: {expert.routed} routed, {expert.dropped} dropped
+              </title>
+            </rect>
+            {expert.dropped > 0 && (
+              <rect
+                x={barX(expert.expert)}
+                y={y(expert.routed)}
+                width={barWidth}
+                height={y(expert.processed) - y(expert.routed)}
+                fill="#ef4444"
+                fillOpacity={0.35}
+                stroke="#ef4444"
+                strokeDasharray="3 2"
+              />
+            )}
+            {showLabels && (
+              <text
+                x={barX(expert.expert) + barWidth / 2}
+                y={height - 6}
+                textAnchor="middle"
+                className="fill-gray-500 text-[10px]"
+              >
+                {expert.expert}
+              </text>
+            )}
+          </g>
+        ))}
+        <line
+          x1={4}
+          x2={width - 4}
+          y1={y(result.capacity)}
+          y2={y(result.capacity)}
+          stroke="#1f2937"
+          strokeDasharray="6 4"
+        />
+        <text x={width - 6} y={y(result.capacity) - 4} textAnchor="end" className="fill-gray-700 text-[10px]">
+          capacity {result.capacity}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        <span>Bars are token assignments per expert, coloured by the GPU that hosts it</span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm border border-dashed border-red-500 bg-red-200" />
+          Dropped over capacity
+        </span>
+      </div>
+    </div>
+  )
+}
+
 // Comparison Table Component
-function ComparisonTable({ selectedType, allTypes }: { selectedType: ParallelismType; allTypes: ParallelismType[] }) {
+function ComparisonTable({
+  selectedType,
+  allTypes,
+  moeOptions,
+  moeResult,
+}: {
+  selectedType: ParallelismType
+  allTypes: ParallelismType[]
+  moeOptions: MoeOptions
+  moeResult: MoeResult | null
+}) {
+  // The EP column quotes the routing simulator with its current settings
+  const expertsPerGpu = moeOptions.epDegree > 0 ? moeOptions.experts / moeOptions.epDegree : 0
   return (
     <div className="bg-white rounded-lg p-6 border-2 border-gray-200">
       <h4 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
@@ -649,33 +1878,57 @@ function ComparisonTable({ selectedType, allTypes }: { selectedType: Parallelism
             <tr className="border-b">
               <td className="px-4 py-3 font-medium text-gray-700">Communication Frequency</td>
               <td className="px-4 py-3 text-center text-gray-600">Every iteration</td>
+              <td className="px-4 py-3 text-center text-gray-600">Every iteration (every layer at stage 3)</td>
               <td className="px-4 py-3 text-center text-gray-600">Every layer</td>
               <td className="px-4 py-3 text-center text-gray-600">Every micro-batch</td>
               <td className="px-4 py-3 text-center text-gray-600">Every layer</td>
               <td className="px-4 py-3 text-center text-gray-600">Every layer</td>
-              <td className="px-4 py-3 text-center text-gray-600">Per token</td>
+              <td className="px-4 py-3 text-center text-gray-600">
+                2 all-to-alls per MoE layer
+                {moeResult && (
+                  <div className="text-xs text-gray-500">≤ {formatMB(moeResult.maxAllToAllBytes)} per GPU each</div>
+                )}
+              </td>
             </tr>
             <tr className="border-b bg-gray-50">
               <td className="px-4 py-3 font-medium text-gray-700">Memory per GPU</td>
               <td className="px-4 py-3 text-center text-gray-600">Full model</td>
+              <td className="px-4 py-3 text-center text-gray-600">State/N, model/N at stage 3</td>
               <td className="px-4 py-3 text-center text-gray-600">Model/N</td>
               <td className="px-4 py-3 text-center text-gray-600">Model/N</td>
               <td className="px-4 py-3 text-center text-gray-600">Model/N</td>
               <td className="px-4 py-3 text-center text-gray-600">Model/N</td>
-              <td className="px-4 py-3 text-center text-gray-600">Experts/N</td>
+              <td className="px-4 py-3 text-center text-gray-600">
+                Experts/N
+                {moeResult && (
+                  <div className="text-xs text-gray-500">
+                    {expertsPerGpu} of {moeOptions.experts} experts per GPU
+                  </div>
+                )}
+              </td>
             </tr>
             <tr className="border-b">
               <td className="px-4 py-3 font-medium text-gray-700">GPU Utilization</td>
               <td className="px-4 py-3 text-center text-green-600 font-semibold">High</td>
+              <td className="px-4 py-3 text-center text-green-600 font-semibold">High</td>
               <td className="px-4 py-3 text-center text-yellow-600 font-semibold">Low</td>
               <td className="px-4 py-3 text-center text-green-600 font-semibold">Medium-High</td>
               <td className="px-4 py-3 text-center text-green-600 font-semibold">High</td>
               <td className="px-4 py-3 text-center text-green-600 font-semibold">High</td>
-              <td className="px-4 py-3 text-center text-yellow-600 font-semibold">Variable</td>
+              <td className="px-4 py-3 text-center text-yellow-600 font-semibold">
+                Variable
+                {moeResult && (
+                  <div className="text-xs font-normal text-gray-500">
+                    {(100 / moeResult.imbalance).toFixed(0)}% (mean / busiest GPU),{' '}
+                    {((moeResult.droppedAssignments / moeResult.assignments) * 100).toFixed(1)}% dropped
+                  </div>
+                )}
+              </td>
             </tr>
             <tr className="border-b bg-gray-50">
               <td className="px-4 py-3 font-medium text-gray-700">Scalability</td>
               <td className="px-4 py-3 text-center text-gray-600">Limited by model size</td>
+              <td className="px-4 py-3 text-center text-gray-600">High, bounded by global batch</td>
               <td className="px-4 py-3 text-center text-gray-600">Limited by layers</td>
               <td className="px-4 py-3 text-center text-gray-600">Very high</td>
               <td className="px-4 py-3 text-center text-gray-600">High</td>
@@ -685,6 +1938,7 @@ function ComparisonTable({ selectedType, allTypes }: { selectedType: Parallelism
             <tr>
               <td className="px-4 py-3 font-medium text-gray-700">Best For</td>
               <td className="px-4 py-3 text-center text-gray-600">Small-medium models</td>
+              <td className="px-4 py-3 text-center text-gray-600">Models too large to replicate</td>
               <td className="px-4 py-3 text-center text-gray-600">Large models (legacy)</td>
               <td className="px-4 py-3 text-center text-gray-600">Very large models</td>
               <td className="px-4 py-3 text-center text-gray-600">Transformer layers</td>
@@ -0,0 +1,187 @@
+interface RooflineChartProps {
+  peakTflops: number
+  bandwidthGBs: number
+  ridgePoint: number
+  arithmeticIntensity: number
+  attainableTflops: number
+  boundBy: 'compute' | 'memory'
+}
+
+const WIDTH = 560
+const HEIGHT = 320
+const PADDING = { top: 20, right: 24, bottom: 48, left: 64 }
+
+function decadeFloor(value: number): number {
+  return Math.pow(10, Math.floor(Math.log10(value)))
+}
+
+function decadeCeil(value: number): number {
+  return Math.pow(10, Math.ceil(Math.log10(value)))
+}
+
+function formatTick(value: number): string {
+  if (value >= 1000 || value < 0.01) {
+    return value.toExponential(0)
+  }
+  return value.toString()
+}
+
+// Log-log roofline: attainable TFLOPS = min(peak, intensity × bandwidth)
+export default function RooflineChart({
+  peakTflops,
+  bandwidthGBs,
+  ridgePoint,
+  arithmeticIntensity,
+  attainableTflops,
+  boundBy,
+}: RooflineChartProps) {
+  const xMin = decadeFloor(Math.min(arithmeticIntensity, ridgePoint) / 10)
+  const xMax = decadeCeil(Math.max(arithmeticIntensity, ridgePoint) * 10)
+  const memoryRoofAt = (intensity: number) => (intensity * bandwidthGBs) / 1000
+  const yMin = decadeFloor(Math.min(memoryRoofAt(xMin), attainableTflops))
+  const yMax = decadeCeil(peakTflops * 2)
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const scaleX = (value: number) =>
+    PADDING.left +
+    ((Math.log10(value) - Math.log10(xMin)) / (Math.log10(xMax) - Math.log10(xMin))) * plotWidth
+  const scaleY = (value: number) =>
+    PADDING.top +
+    plotHeight -
+    ((Math.log10(value) - Math.log10(yMin)) / (Math.log10(yMax) - Math.log10(yMin))) * plotHeight
+
+  const decades = (min: number, max: number) => {
+    const ticks: number[] = []
+    for (let exp = Math.log10(min); exp <= Math.log10(max) + 1e-9; exp++) {
+      ticks.push(Math.pow(10, Math.round(exp)))
+    }
+    return ticks
+  }
+  const xTicks = decades(xMin, xMax)
+  const yTicks = decades(yMin, yMax)
+
+  const roofPath = [
+    `M ${scaleX(xMin)} ${scaleY(Math.max(memoryRoofAt(xMin), yMin))}`,
+    `L ${scaleX(ridgePoint)} ${scaleY(peakTflops)}`,
+    `L ${scaleX(xMax)} ${scaleY(peakTflops)}`,
+  ].join(' ')
+
+  const pointX = scaleX(arithmeticIntensity)
+  const pointY = scaleY(attainableTflops)
+  const pointColor = boundBy === 'memory' ? '#f59e0b' : '#10b981'
+  const labelOnLeft = pointX > PADDING.left + plotWidth * 0.6
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Roofline chart"
+    >
+      {/* Grid */}
+      {xTicks.map((tick) => (
+        <g key={`x-${tick}`}>
+          <line
+            x1={scaleX(tick)}
+            x2={scaleX(tick)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke="#e5e7eb"
+          />
+          <text
+            x={scaleX(tick)}
+            y={PADDING.top + plotHeight + 16}
+            textAnchor="middle"
+            className="fill-gray-500"
+            fontSize={11}
+          >
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      {yTicks.map((tick) => (
+        <g key={`y-${tick}`}>
+          <line
+            x1={PADDING.left}
+            x2={PADDING.left + plotWidth}
+            y1={scaleY(tick)}
+            y2={scaleY(tick)}
+            stroke="#e5e7eb"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={scaleY(tick) + 4}
+            textAnchor="end"
+            className="fill-gray-500"
+            fontSize={11}
+          >
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+
+      {/* Axis labels */}
+      <text
+        x={PADDING.left + plotWidth / 2}
+        y={HEIGHT - 8}
+        textAnchor="middle"
+        className="fill-gray-700"
+        fontSize={12}
+      >
+        Arithmetic Intensity (FLOPs/byte)
+      </text>
+      <text
+        x={16}
+        y={PADDING.top + plotHeight / 2}
+        textAnchor="middle"
+        transform={`rotate(-90 16 ${PADDING.top + plotHeight / 2})`}
+        className="fill-gray-700"
+        fontSize={12}
+      >
+        Attainable TFLOPS
+      </text>
+
+      {/* Roof */}
+      <path d={roofPath} fill="none" stroke="#4f46e5" strokeWidth={3} />
+      <line
+        x1={scaleX(ridgePoint)}
+        x2={scaleX(ridgePoint)}
+        y1={scaleY(peakTflops)}
+        y2={PADDING.top + plotHeight}
+        stroke="#4f46e5"
+        strokeDasharray="4 4"
+      />
+      <text
+        x={scaleX(ridgePoint) + 6}
+        y={PADDING.top + plotHeight - 6}
+        className="fill-indigo-600"
+        fontSize={11}
+      >
+        ridge {ridgePoint.toFixed(1)}
+      </text>
+
+      {/* GEMM point */}
+      <line
+        x1={pointX}
+        x2={pointX}
+        y1={pointY}
+        y2={PADDING.top + plotHeight}
+        stroke={pointColor}
+        strokeDasharray="2 3"
+      />
+      <circle cx={pointX} cy={pointY} r={7} fill={pointColor} stroke="white" strokeWidth={2} />
+      <text
+        x={labelOnLeft ? pointX - 10 : pointX + 10}
+        y={pointY - 10}
+        textAnchor={labelOnLeft ? 'end' : 'start'}
+        className="fill-gray-800"
+        fontSize={12}
+        fontWeight={600}
+      >
+        {attainableTflops.toFixed(2)} TFLOPS ({boundBy}-bound)
+      </text>
+    </svg>
+  )
+}
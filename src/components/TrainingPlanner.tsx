@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react'
+import { nvidiaGpus, findGpuByName, resolveGpu, type NvidiaGpu } from '../data/nvidiaGpus'
+import {
+  calculateExecutionTime,
+  formatNumber,
+  getAdjustedTflops,
+  precisionTypes,
+  type ExecutionTime,
+  type PrecisionType,
+} from '../utils/flops'
+import { getGpuOptions, getPrecisionOptions } from '../utils/selectOptions'
+import { useCustomGpus } from '../hooks/useCustomGpus'
+import MaterialSelect from './MaterialSelect'
+import TrainingSweepChart from './TrainingSweepChart'
+
+interface TrainingPlannerProps {
+  modelParameters: number // Parameter count from the transformer estimator
+}
+
+interface TrainingPlan {
+  gpuCount: number
+  time: ExecutionTime
+  days: number
+  gpuHours: number
+  cost: number
+}
+
+const SWEEP_GPU_COUNTS = [8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384]
+
+function planTraining(
+  totalFlops: number,
+  peakTflops: number,
+  mfu: number,
+  gpuCount: number,
+  pricePerGpuHour: number
+): TrainingPlan {
+  // The cluster sustains MFU × peak on every GPU
+  const time = calculateExecutionTime(totalFlops, peakTflops * mfu * gpuCount)
+  const gpuHours = (time.seconds / 3600) * gpuCount
+  return {
+    gpuCount,
+    time,
+    days: time.seconds / 86400,
+    gpuHours,
+    cost: gpuHours * pricePerGpuHour,
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const days = seconds / 86400
+  if (days >= 1) return `${days.toFixed(1)} days`
+  const hours = seconds / 3600
+  if (hours >= 1) return `${hours.toFixed(1)} hours`
+  return `${(seconds / 60).toFixed(1)} minutes`
+}
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString(undefined, {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  })
+}
+
+export default function TrainingPlanner({ modelParameters }: TrainingPlannerProps) {
+  const [parametersB, setParametersB] = useState(Number((modelParameters / 1e9).toFixed(2)))
+  const [tokensB, setTokensB] = useState(2000)
+  const [pickedGpu, setSelectedGpu] = useState<NvidiaGpu | null>(
+    findGpuByName('H100 SXM') ?? nvidiaGpus[0]
+  )
+  const [selectedPrecision, setSelectedPrecision] = useState<PrecisionType>(
+    precisionTypes.find((p) => p.value === 'bf16') ?? precisionTypes[0]
+  )
+  const [mfuPercent, setMfuPercent] = useState(40)
+  const [gpuCount, setGpuCount] = useState(1024)
+  const [pricePerGpuHour, setPricePerGpuHour] = useState(2.5)
+
+  const customGpus = useCustomGpus()
+  const gpuOptions = useMemo(() => getGpuOptions(customGpus), [customGpus])
+  const selectedGpu = resolveGpu(pickedGpu)
+  const precisionOptions = useMemo(() => getPrecisionOptions(), [])
+
+  // 6 FLOPs per parameter per token: 2 forward, 4 backward
+  const totalFlops = 6 * parametersB * 1e9 * tokensB * 1e9
+  const peakTflops = selectedGpu ? getAdjustedTflops(selectedGpu, selectedPrecision) : null
+  const mfu = mfuPercent / 100
+
+  const plan =
+    peakTflops !== null && totalFlops > 0 && mfu > 0
+      ? planTraining(totalFlops, peakTflops, mfu, gpuCount, pricePerGpuHour)
+      : null
+  const sweep =
+    plan && peakTflops !== null
+      ? SWEEP_GPU_COUNTS.map((count) => planTraining(totalFlops, peakTflops, mfu, count, pricePerGpuHour))
+      : []
+
+  const modelParametersB = Number((modelParameters / 1e9).toFixed(2))
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-xl p-8 space-y-8">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-800 mb-2">Training Run Planner</h2>
+        <p className="text-gray-600">
+          Estimate wall-clock time, GPU-hours and cost for a full training run from total training
+          FLOPs (6 × parameters × tokens).
+        </p>
+      </div>
+
+      {/* Workload */}
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="planner-params" className="block text-sm font-medium text-gray-700 mb-1">
+            Parameters (billions)
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="planner-params"
+              type="number"
+              min="0"
+              step="0.1"
+              value={parametersB}
+              onChange={(e) => setParametersB(parseFloat(e.target.value) || 0)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {modelParametersB > 0 && modelParametersB !== parametersB && (
+              <button
+                onClick={() => setParametersB(modelParametersB)}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 whitespace-nowrap"
+              >
+                Use model ({modelParametersB}B)
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label htmlFor="planner-tokens" className="block text-sm font-medium text-gray-700 mb-1">
+            Training Tokens (billions)
+          </label>
+          <input
+            id="planner-tokens"
+            type="number"
+            min="0"
+            value={tokensB}
+            onChange={(e) => setTokensB(parseFloat(e.target.value) || 0)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Hardware */}
+      <div className="grid md:grid-cols-2 gap-6">
+        <MaterialSelect
+          id="planner-gpu-select"
+          label="GPU Model"
+          value={selectedGpu?.name || ''}
+          onChange={(value) => {
+            const gpu = findGpuByName(value)
+            setSelectedGpu(gpu || null)
+          }}
+          options={gpuOptions}
+        />
+        <MaterialSelect
+          id="planner-precision-select"
+          label="Precision Type"
+          value={selectedPrecision.value}
+          onChange={(value) => {
+            const precision = precisionTypes.find((p) => p.value === value)
+            if (precision) setSelectedPrecision(precision)
+          }}
+          options={precisionOptions}
+        />
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div>
+          <label htmlFor="planner-mfu" className="block text-sm font-medium text-gray-700 mb-1">
+            Model FLOPs Utilization: {mfuPercent}%
+          </label>
+          <input
+            id="planner-mfu"
+            type="range"
+            min="1"
+            max="100"
+            value={mfuPercent}
+            onChange={(e) => setMfuPercent(parseInt(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label htmlFor="planner-gpu-count" className="block text-sm font-medium text-gray-700 mb-1">
+            Number of GPUs
+          </label>
+          <input
+            id="planner-gpu-count"
+            type="number"
+            min="1"
+            value={gpuCount}
+            onChange={(e) => setGpuCount(parseInt(e.target.value) || 1)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label htmlFor="planner-price" className="block text-sm font-medium text-gray-700 mb-1">
+            Price ($ per GPU-hour)
+          </label>
+          <input
+            id="planner-price"
+            type="number"
+            min="0"
+            step="0.1"
+            value={pricePerGpuHour}
+            onChange={(e) => setPricePerGpuHour(parseFloat(e.target.value) || 0)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {peakTflops === null && selectedGpu && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded">
+          <p className="text-red-700">
+            <span className="font-semibold">Precision Not Supported:</span> {selectedGpu.name} has no{' '}
+            {selectedPrecision.label} throughput.
+          </p>
+        </div>
+      )}
+
+      {plan && peakTflops !== null && (
+        <div className="border-t pt-6 space-y-6">
+          <div className="bg-gradient-to-r from-indigo-500 to-purple-600 rounded-xl p-6 text-white">
+            <h3 className="text-2xl font-bold mb-4">Training Run Estimate</h3>
+            <div className="grid md:grid-cols-4 gap-4">
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                <div className="text-sm opacity-90 mb-1">Total Training FLOPs</div>
+                <div className="text-2xl font-bold">{formatNumber(totalFlops)}</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                <div className="text-sm opacity-90 mb-1">Wall-clock Time</div>
+                <div className="text-2xl font-bold">{formatDuration(plan.time.seconds)}</div>
+                <div className="text-sm opacity-75 mt-1">on {gpuCount.toLocaleString()} GPUs</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                <div className="text-sm opacity-90 mb-1">GPU-hours</div>
+                <div className="text-2xl font-bold">{formatNumber(Math.round(plan.gpuHours))}</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                <div className="text-sm opacity-90 mb-1">Total Cost</div>
+                <div className="text-2xl font-bold">{formatCurrency(plan.cost)}</div>
+                <div className="text-sm opacity-75 mt-1">at ${pricePerGpuHour}/GPU-hour</div>
+              </div>
+            </div>
+            <div className="mt-6 bg-white/10 backdrop-blur-sm rounded-lg p-4 font-mono text-sm">
+              Time = {formatNumber(totalFlops)} FLOPs ÷ ({peakTflops} TFLOPS × {mfuPercent}% MFU ×{' '}
+              {gpuCount.toLocaleString()} GPUs × 10¹²)
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800 mb-1">GPU Count Sweep</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              With a fixed MFU, time scales inversely with GPU count and the cost stays at{' '}
+              {formatCurrency(plan.cost)}. In practice MFU drops as communication grows with cluster size.
+            </p>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <TrainingSweepChart
+                points={sweep.map((point) => ({ gpuCount: point.gpuCount, days: point.days }))}
+                selectedGpuCount={gpuCount}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
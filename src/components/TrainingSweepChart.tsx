@@ -0,0 +1,129 @@
+interface SweepPoint {
+  gpuCount: number
+  days: number
+}
+
+interface TrainingSweepChartProps {
+  points: SweepPoint[]
+  selectedGpuCount: number
+}
+
+const WIDTH = 560
+const HEIGHT = 280
+const PADDING = { top: 28, right: 16, bottom: 48, left: 56 }
+
+function formatDays(days: number): string {
+  if (days >= 100) return days.toFixed(0)
+  if (days >= 1) return days.toFixed(1)
+  return days.toFixed(2)
+}
+
+// Bar chart of wall-clock days per GPU count on a log scale
+export default function TrainingSweepChart({ points, selectedGpuCount }: TrainingSweepChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const maxDays = Math.max(...points.map((point) => point.days))
+  const minDays = Math.min(...points.map((point) => point.days))
+  const yMax = Math.pow(10, Math.ceil(Math.log10(maxDays)))
+  const yMin = Math.pow(10, Math.floor(Math.log10(minDays)) - 1)
+  const scaleY = (days: number) =>
+    PADDING.top +
+    plotHeight -
+    ((Math.log10(days) - Math.log10(yMin)) / (Math.log10(yMax) - Math.log10(yMin))) * plotHeight
+
+  const yTicks: number[] = []
+  for (let exp = Math.log10(yMin); exp <= Math.log10(yMax) + 1e-9; exp++) {
+    yTicks.push(Math.pow(10, Math.round(exp)))
+  }
+
+  const slot = plotWidth / points.length
+  const barWidth = slot * 0.6
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Training days by GPU count"
+    >
+      {yTicks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={PADDING.left + plotWidth}
+            y1={scaleY(tick)}
+            y2={scaleY(tick)}
+            stroke="#e5e7eb"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={scaleY(tick) + 4}
+            textAnchor="end"
+            className="fill-gray-500"
+            fontSize={11}
+          >
+            {tick}
+          </text>
+        </g>
+      ))}
+
+      {points.map((point, idx) => {
+        const x = PADDING.left + idx * slot + (slot - barWidth) / 2
+        const y = scaleY(point.days)
+        const selected = point.gpuCount === selectedGpuCount
+        return (
+          <g key={point.gpuCount}>
+            <rect
+              x={x}
+              y={y}
+              width={barWidth}
+              height={PADDING.top + plotHeight - y}
+              rx={3}
+              fill={selected ? '#4f46e5' : '#a5b4fc'}
+            />
+            <text
+              x={x + barWidth / 2}
+              y={y - 6}
+              textAnchor="middle"
+              className={selected ? 'fill-indigo-700' : 'fill-gray-600'}
+              fontSize={10}
+              fontWeight={selected ? 600 : 400}
+            >
+              {formatDays(point.days)}
+            </text>
+            <text
+              x={x + barWidth / 2}
+              y={PADDING.top + plotHeight + 16}
+              textAnchor="middle"
+              className="fill-gray-500"
+              fontSize={10}
+            >
+              {point.gpuCount}
+            </text>
+          </g>
+        )
+      })}
+
+      <text
+        x={PADDING.left + plotWidth / 2}
+        y={HEIGHT - 8}
+        textAnchor="middle"
+        className="fill-gray-700"
+        fontSize={12}
+      >
+        Number of GPUs
+      </text>
+      <text
+        x={16}
+        y={PADDING.top + plotHeight / 2}
+        textAnchor="middle"
+        transform={`rotate(-90 16 ${PADDING.top + plotHeight / 2})`}
+        className="fill-gray-700"
+        fontSize={12}
+      >
+        Wall-clock Days
+      </text>
+    </svg>
+  )
+}
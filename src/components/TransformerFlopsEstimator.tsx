@@ -0,0 +1,413 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { calculateFlops, formatNumber } from '../utils/flops'
+import MemoryEstimator from './MemoryEstimator'
+import TrainingPlanner from './TrainingPlanner'
+
+export interface TransformerConfig {
+  layers: number
+  hiddenSize: number
+  heads: number
+  kvHeads: number // Fewer than heads for grouped-query attention
+  ffnSize: number
+  vocabSize: number
+  seqLength: number
+  batchSize: number
+  gatedMlp: boolean // SwiGLU-style MLP with separate gate and up projections
+  tiedEmbeddings: boolean // LM head reuses the input embedding table
+}
+
+interface ComponentFlops {
+  key: string
+  label: string
+  shape: string
+  perLayer: boolean
+  forward: number // Across all layers for per-layer components
+  backward: number
+}
+
+const presets: Array<{ name: string; config: TransformerConfig }> = [
+  {
+    name: 'GPT-2 Small',
+    config: {
+      layers: 12,
+      hiddenSize: 768,
+      heads: 12,
+      kvHeads: 12,
+      ffnSize: 3072,
+      vocabSize: 50257,
+      seqLength: 1024,
+      batchSize: 8,
+      gatedMlp: false,
+      tiedEmbeddings: true,
+    },
+  },
+  {
+    name: 'Llama 2 7B',
+    config: {
+      layers: 32,
+      hiddenSize: 4096,
+      heads: 32,
+      kvHeads: 32,
+      ffnSize: 11008,
+      vocabSize: 32000,
+      seqLength: 4096,
+      batchSize: 1,
+      gatedMlp: true,
+      tiedEmbeddings: false,
+    },
+  },
+  {
+    name: 'Llama 3 8B',
+    config: {
+      layers: 32,
+      hiddenSize: 4096,
+      heads: 32,
+      kvHeads: 8,
+      ffnSize: 14336,
+      vocabSize: 128256,
+      seqLength: 8192,
+      batchSize: 1,
+      gatedMlp: true,
+      tiedEmbeddings: false,
+    },
+  },
+]
+
+// Exp, max, subtract, sum and divide for each attention score
+const SOFTMAX_FLOPS_PER_ELEMENT = 5
+
+function validateConfig(config: TransformerConfig): string | null {
+  const values = [
+    config.layers,
+    config.hiddenSize,
+    config.heads,
+    config.kvHeads,
+    config.ffnSize,
+    config.vocabSize,
+    config.seqLength,
+    config.batchSize,
+  ]
+  if (values.some((value) => !Number.isInteger(value) || value < 1)) {
+    return 'All dimensions must be positive integers.'
+  }
+  if (config.hiddenSize % config.heads !== 0) {
+    return 'Hidden size must be divisible by the number of attention heads.'
+  }
+  if (config.heads % config.kvHeads !== 0) {
+    return 'Attention heads must be divisible by the number of KV heads.'
+  }
+  return null
+}
+
+// Parameters that take part in matrix multiplies (norms, biases and the
+// input embedding lookup are ignored)
+function countParameters(config: TransformerConfig): number {
+  const { layers, hiddenSize: h, heads, kvHeads, ffnSize: f, vocabSize } = config
+  const headDim = h / heads
+  const attention = h * (heads + 2 * kvHeads) * headDim + h * h
+  const mlp = (config.gatedMlp ? 3 : 2) * h * f
+  return layers * (attention + mlp) + vocabSize * h
+}
+
+// Parameters held in memory: the matmul weights plus the input embedding table, unless the LM head shares it
+function countStoredParameters(config: TransformerConfig): number {
+  return countParameters(config) + (config.tiedEmbeddings ? 0 : config.vocabSize * config.hiddenSize)
+}
+
+function calculateTransformerFlops(config: TransformerConfig): ComponentFlops[] {
+  const { layers, hiddenSize: h, heads, kvHeads, ffnSize: f, vocabSize, seqLength: s, batchSize: b } = config
+  const headDim = h / heads
+  const tokens = b * s
+
+  // Every component is expressed as the same GEMM the calculator tab uses
+  const gemm = (m: number, n: number, p: number, batch: number[] = []) =>
+    calculateFlops({ rows: m, cols: n }, { rows: n, cols: p }, batch, batch)?.totalFlops ?? 0
+
+  const qkvWidth = (heads + 2 * kvHeads) * headDim
+  const mlpUp = (config.gatedMlp ? 2 : 1) * gemm(tokens, h, f)
+
+  const components: Array<Omit<ComponentFlops, 'forward' | 'backward'> & { flops: number }> = [
+    {
+      key: 'qkv',
+      label: 'QKV Projection',
+      shape: `[${tokens} × ${h}] × [${h} × ${qkvWidth}]`,
+      perLayer: true,
+      flops: gemm(tokens, h, qkvWidth),
+    },
+    {
+      key: 'scores',
+      label: 'Attention Scores (QKᵀ)',
+      shape: `[${b} × ${heads}] × [${s} × ${headDim}] × [${headDim} × ${s}]`,
+      perLayer: true,
+      flops: gemm(s, headDim, s, [b, heads]),
+    },
+    {
+      key: 'softmax',
+      label: 'Softmax',
+      shape: `${b} × ${heads} × ${s} × ${s} scores`,
+      perLayer: true,
+      flops: SOFTMAX_FLOPS_PER_ELEMENT * b * heads * s * s,
+    },
+    {
+      key: 'values',
+      label: 'Attention × V',
+      shape: `[${b} × ${heads}] × [${s} × ${s}] × [${s} × ${headDim}]`,
+      perLayer: true,
+      flops: gemm(s, s, headDim, [b, heads]),
+    },
+    {
+      key: 'output',
+      label: 'Output Projection',
+      shape: `[${tokens} × ${h}] × [${h} × ${h}]`,
+      perLayer: true,
+      flops: gemm(tokens, h, h),
+    },
+    {
+      key: 'mlp',
+      label: config.gatedMlp ? 'MLP (gate, up, down)' : 'MLP (up, down)',
+      shape: `[${tokens} × ${h}] × [${h} × ${f}]${config.gatedMlp ? ' ×2' : ''}, [${tokens} × ${f}] × [${f} × ${h}]`,
+      perLayer: true,
+      flops: mlpUp + gemm(tokens, f, h),
+    },
+    {
+      key: 'lm-head',
+      label: 'LM Head',
+      shape: `[${tokens} × ${h}] × [${h} × ${vocabSize}]`,
+      perLayer: false,
+      flops: gemm(tokens, h, vocabSize),
+    },
+  ]
+
+  // Backward computes gradients for both operands of every product, which is
+  // twice the forward work
+  return components.map(({ flops, ...component }) => {
+    const forward = component.perLayer ? flops * layers : flops
+    return { ...component, forward, backward: 2 * forward }
+  })
+}
+
+const numberFields: Array<{ key: Exclude<keyof TransformerConfig, 'gatedMlp' | 'tiedEmbeddings'>; label: string }> = [
+  { key: 'layers', label: 'Layers' },
+  { key: 'hiddenSize', label: 'Hidden Size' },
+  { key: 'heads', label: 'Attention Heads' },
+  { key: 'kvHeads', label: 'KV Heads (GQA)' },
+  { key: 'ffnSize', label: 'FFN Size' },
+  { key: 'vocabSize', label: 'Vocabulary Size' },
+  { key: 'seqLength', label: 'Sequence Length' },
+  { key: 'batchSize', label: 'Batch Size' },
+]
+
+export default function TransformerFlopsEstimator() {
+  const [config, setConfig] = useState<TransformerConfig>(presets[1].config)
+
+  const error = validateConfig(config)
+  const components = error ? [] : calculateTransformerFlops(config)
+  const tokens = config.batchSize * config.seqLength
+  const parameters = error ? 0 : countParameters(config)
+  const storedParameters = error ? 0 : countStoredParameters(config)
+
+  const forwardFlops = components.reduce((acc, c) => acc + c.forward, 0)
+  const backwardFlops = components.reduce((acc, c) => acc + c.backward, 0)
+  const trainingFlops = forwardFlops + backwardFlops
+  const trainingFlopsPerToken = trainingFlops / tokens
+  const sixN = 6 * parameters
+
+  const updateField = (key: keyof TransformerConfig, value: number | boolean) => {
+    setConfig((prev) => ({ ...prev, [key]: value }))
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-xl p-8 space-y-8">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800 mb-2">
+            Transformer FLOPs Estimator
+          </h2>
+          <p className="text-gray-600">
+            Break down forward and backward FLOPs of a decoder-only transformer per component,
+            using the same GEMM FLOP counts as the calculator.
+          </p>
+        </div>
+
+        {/* Presets */}
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-gray-700">Presets:</span>
+          {presets.map((preset) => (
+            <button
+              key={preset.name}
+              onClick={() => setConfig(preset.config)}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all duration-200"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+
+        {/* Model Configuration */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {numberFields.map((field) => (
+            <div key={field.key}>
+              <label
+                htmlFor={`transformer-${field.key}`}
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                {field.label}
+              </label>
+              <input
+                id={`transformer-${field.key}`}
+                type="number"
+                min="1"
+                value={config[field.key]}
+                onChange={(e) => updateField(field.key, parseInt(e.target.value) || 1)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.gatedMlp}
+              onChange={(e) => updateField('gatedMlp', e.target.checked)}
+              className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+            />
+            Gated MLP (SwiGLU: gate, up and down projections)
+          </label>
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.tiedEmbeddings}
+              onChange={(e) => updateField('tiedEmbeddings', e.target.checked)}
+              className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+            />
+            Tied embeddings (LM head shares the input embedding table)
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded">
+            <p className="text-red-700">
+              <span className="font-semibold">Invalid configuration:</span> {error}
+            </p>
+          </div>
+        )}
+
+        {!error && (
+          <div className="border-t pt-6 space-y-6">
+            {/* Summary */}
+            <div className="bg-gradient-to-r from-indigo-500 to-purple-600 rounded-xl p-6 text-white">
+              <h3 className="text-2xl font-bold mb-4">Training FLOPs per Step</h3>
+              <div className="grid md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm opacity-90 mb-1">Forward</div>
+                  <div className="text-3xl font-bold">{formatNumber(forwardFlops)}</div>
+                  <div className="text-sm opacity-75 mt-1">({tokens.toLocaleString()} tokens)</div>
+                </div>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm opacity-90 mb-1">Backward</div>
+                  <div className="text-3xl font-bold">{formatNumber(backwardFlops)}</div>
+                  <div className="text-sm opacity-75 mt-1">(2 × forward)</div>
+                </div>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm opacity-90 mb-1">Forward + Backward</div>
+                  <div className="text-3xl font-bold">{formatNumber(trainingFlops)}</div>
+                  <div className="text-sm opacity-75 mt-1">per optimizer step</div>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm opacity-90 mb-1">Parameters (N)</div>
+                  <div className="text-3xl font-bold">{formatNumber(parameters)}</div>
+                  <div className="text-sm opacity-75 mt-1">(matmul weights incl. LM head)</div>
+                </div>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm opacity-90 mb-1">Training FLOPs per Token</div>
+                  <div className="text-3xl font-bold">{formatNumber(trainingFlopsPerToken)}</div>
+                  <div className="text-sm opacity-75 mt-1">(this breakdown)</div>
+                </div>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+                  <div className="text-sm opacity-90 mb-1">6N Approximation</div>
+                  <div className="text-3xl font-bold">{formatNumber(sixN)}</div>
+                  <div className="text-sm opacity-75 mt-1">
+                    (breakdown is {(trainingFlopsPerToken / sixN).toFixed(2)}× of 6N)
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Per-component Breakdown */}
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800 mb-3">Per-Component Breakdown</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 pr-4">Component</th>
+                      <th className="py-2 pr-4">GEMM Shape (per layer)</th>
+                      <th className="py-2 pr-4 text-right">Forward</th>
+                      <th className="py-2 pr-4 text-right">Backward</th>
+                      <th className="py-2 w-1/4">Share of Training FLOPs</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {components.map((component) => {
+                      const share = (component.forward + component.backward) / trainingFlops
+                      return (
+                        <tr key={component.key} className="border-b last:border-b-0">
+                          <td className="py-2 pr-4 font-medium text-gray-800">
+                            {component.label}
+                            {!component.perLayer && (
+                              <span className="text-xs text-gray-500 ml-1">(once)</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 font-mono text-xs text-gray-600">{component.shape}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{formatNumber(component.forward)}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{formatNumber(component.backward)}</td>
+                          <td className="py-2">
+                            <div className="flex items-center gap-2">
+                              <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden">
+                                <motion.div
+                                  className="bg-indigo-500 h-2"
+                                  initial={{ width: 0 }}
+                                  animate={{ width: `${share * 100}%` }}
+                                  transition={{ duration: 0.4 }}
+                                />
+                              </div>
+                              <span className="w-12 text-right text-gray-600">{(share * 100).toFixed(1)}%</span>
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Formula Explanation */}
+            <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+              <div className="font-medium mb-2">How it is counted:</div>
+              <div>
+                Each projection is a GEMM over all {tokens.toLocaleString()} tokens, counted as m × p × (2n - 1)
+                FLOPs. Attention products are batched GEMMs over batch × heads.
+              </div>
+              <div>
+                Backward FLOPs are 2 × forward, since gradients are needed for both operands of every product.
+              </div>
+              <div>
+                6N counts 2N FLOPs per token forward and 4N backward, ignoring attention over the sequence. The
+                gap widens as sequence length grows relative to hidden size.
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <TrainingPlanner modelParameters={parameters} />
+      {!error && <MemoryEstimator config={config} parameters={storedParameters} />}
+    </div>
+  )
+}
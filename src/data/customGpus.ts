@@ -0,0 +1,115 @@
+import type { NvidiaGpu, PrecisionKey, PrecisionPeak } from './nvidiaGpus'
+
+// User-defined accelerators, persisted in localStorage and merged into the catalog
+const STORAGE_KEY = 'flopmaster.customGpus'
+
+export const CUSTOM_SERIES = 'Custom'
+
+const precisionKeys: PrecisionKey[] = ['fp64', 'fp32', 'tf32', 'fp16', 'bf16', 'fp8', 'int8', 'int4']
+const peakUnits: Array<keyof PrecisionPeak> = ['cudaCore', 'tensorCore', 'tensorCoreSparse']
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+// Returns an error message, or null when the value is a valid NvidiaGpu
+export function validateGpu(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object'
+  }
+  const gpu = value as Record<string, unknown>
+
+  if (typeof gpu.name !== 'string' || !gpu.name.trim()) return 'name must be a non-empty string'
+  if (typeof gpu.series !== 'string') return `${gpu.name}: series must be a string`
+  if (typeof gpu.architecture !== 'string') return `${gpu.name}: architecture must be a string`
+  if (!isPositiveNumber(gpu.tflops)) return `${gpu.name}: tflops must be a positive number`
+  if (!isPositiveNumber(gpu.memoryBandwidth)) {
+    return `${gpu.name}: memoryBandwidth must be a positive number (GB/s)`
+  }
+  if (gpu.memory !== undefined && (typeof gpu.memory !== 'string' || !/^\s*[\d.]+\s*(GB|TB)\s*$/i.test(gpu.memory))) {
+    return `${gpu.name}: memory must be a string such as '80GB'`
+  }
+  if (gpu.releaseYear !== undefined && !Number.isInteger(gpu.releaseYear)) {
+    return `${gpu.name}: releaseYear must be an integer`
+  }
+
+  const peaks = gpu.peakThroughput
+  if (typeof peaks !== 'object' || peaks === null || Array.isArray(peaks)) {
+    return `${gpu.name}: peakThroughput must be an object`
+  }
+  if (Object.keys(peaks).length === 0) {
+    return `${gpu.name}: peakThroughput needs at least one precision`
+  }
+  for (const [precision, peak] of Object.entries(peaks)) {
+    if (!precisionKeys.includes(precision as PrecisionKey)) {
+      return `${gpu.name}: unknown precision '${precision}' in peakThroughput`
+    }
+    if (typeof peak !== 'object' || peak === null) {
+      return `${gpu.name}: peakThroughput.${precision} must be an object`
+    }
+    for (const [unit, rate] of Object.entries(peak)) {
+      if (!peakUnits.includes(unit as keyof PrecisionPeak) || !isPositiveNumber(rate)) {
+        return `${gpu.name}: peakThroughput.${precision}.${unit} must be a positive number`
+      }
+    }
+  }
+
+  return null
+}
+
+// Parse an exported JSON file; returns the GPUs or an error message
+export function parseCustomGpusJson(text: string): NvidiaGpu[] | string {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return 'File is not valid JSON'
+  }
+  if (!Array.isArray(data)) {
+    return 'Expected a JSON array of GPUs'
+  }
+
+  const names = new Set<string>()
+  for (let i = 0; i < data.length; i++) {
+    const error = validateGpu(data[i])
+    if (error) return `Entry ${i + 1}: ${error}`
+    const name = (data[i] as NvidiaGpu).name
+    if (names.has(name)) return `Entry ${i + 1}: duplicate name '${name}'`
+    names.add(name)
+  }
+  return data as NvidiaGpu[]
+}
+
+function loadCustomGpus(): NvidiaGpu[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    const parsed = stored ? parseCustomGpusJson(stored) : []
+    return typeof parsed === 'string' ? [] : parsed
+  } catch {
+    return []
+  }
+}
+
+let customGpus: NvidiaGpu[] = loadCustomGpus()
+const listeners = new Set<() => void>()
+
+export function getCustomGpus(): NvidiaGpu[] {
+  return customGpus
+}
+
+export function setCustomGpus(gpus: NvidiaGpu[]) {
+  customGpus = gpus
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(gpus))
+  } catch {
+    // Storage may be full or disabled; keep the in-memory copy
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeCustomGpus(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
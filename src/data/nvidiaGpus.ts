@@ -1,152 +1,321 @@
+import { CUSTOM_SERIES, getCustomGpus } from './customGpus'
+
+export type PrecisionKey = 'fp64' | 'fp32' | 'tf32' | 'fp16' | 'bf16' | 'fp8' | 'int8' | 'int4'
+
+// Dense peaks in TFLOPS (TOPS for integer types); a missing unit means unsupported
+export interface PrecisionPeak {
+  cudaCore?: number
+  tensorCore?: number
+  tensorCoreSparse?: number // 2:4 structured sparsity
+}
+
+export type PeakThroughput = Partial<Record<PrecisionKey, PrecisionPeak>>
+
 export interface NvidiaGpu {
   name: string
   series: string
   architecture: string
   tflops: number // Theoretical peak performance in TFLOPS (FP32)
+  peakThroughput: PeakThroughput
   memory?: string
+  memoryBandwidth: number // Peak DRAM bandwidth in GB/s
   releaseYear?: number
 }
 
-export const nvidiaGpus: NvidiaGpu[] = [
+// Per-precision rates relative to the FP32 CUDA-core rate
+type ThroughputProfile = PeakThroughput
+
+const architectureProfiles: Record<string, ThroughputProfile> = {
+  Maxwell: {
+    fp64: { cudaCore: 1 / 32 },
+    fp32: { cudaCore: 1 },
+  },
+  // GP102/GP104/GP106/GP107: crippled FP16, DP4A for INT8
+  Pascal: {
+    fp64: { cudaCore: 1 / 32 },
+    fp32: { cudaCore: 1 },
+    fp16: { cudaCore: 1 / 64 },
+    int8: { cudaCore: 4 },
+  },
+  Volta: {
+    fp64: { cudaCore: 1 / 2 },
+    fp32: { cudaCore: 1 },
+    fp16: { cudaCore: 2, tensorCore: 8 },
+    int8: { cudaCore: 4 },
+  },
+  Turing: {
+    fp64: { cudaCore: 1 / 32 },
+    fp32: { cudaCore: 1 },
+    fp16: { cudaCore: 2, tensorCore: 8 },
+    int8: { tensorCore: 16 },
+    int4: { tensorCore: 32 },
+  },
+  // GA10x consumer and workstation parts
+  Ampere: {
+    fp64: { cudaCore: 1 / 64 },
+    fp32: { cudaCore: 1 },
+    tf32: { tensorCore: 1, tensorCoreSparse: 2 },
+    fp16: { cudaCore: 1, tensorCore: 4, tensorCoreSparse: 8 },
+    bf16: { tensorCore: 4, tensorCoreSparse: 8 },
+    int8: { tensorCore: 8, tensorCoreSparse: 16 },
+    int4: { tensorCore: 16, tensorCoreSparse: 32 },
+  },
+  'Ada Lovelace': {
+    fp64: { cudaCore: 1 / 64 },
+    fp32: { cudaCore: 1 },
+    tf32: { tensorCore: 1, tensorCoreSparse: 2 },
+    fp16: { cudaCore: 1, tensorCore: 4, tensorCoreSparse: 8 },
+    bf16: { tensorCore: 4, tensorCoreSparse: 8 },
+    fp8: { tensorCore: 8, tensorCoreSparse: 16 },
+    int8: { tensorCore: 8, tensorCoreSparse: 16 },
+    int4: { tensorCore: 16, tensorCoreSparse: 32 },
+  },
+}
+
+// GP100 keeps full-rate FP64 and double-rate FP16 but has no DP4A
+const gp100Profile: ThroughputProfile = {
+  fp64: { cudaCore: 1 / 2 },
+  fp32: { cudaCore: 1 },
+  fp16: { cudaCore: 2 },
+}
+
+// Scale a relative profile by an FP32 rate, keeping three significant digits
+function fromProfile(fp32Tflops: number, profile: ThroughputProfile): PeakThroughput {
+  const scaled: PeakThroughput = {}
+  Object.entries(profile).forEach(([precision, rates]) => {
+    const peak: PrecisionPeak = {}
+    Object.entries(rates).forEach(([unit, rate]) => {
+      peak[unit as keyof PrecisionPeak] = Number((fp32Tflops * rate).toPrecision(3))
+    })
+    scaled[precision as PrecisionKey] = peak
+  })
+  return scaled
+}
+
+const a100Peaks: PeakThroughput = {
+  fp64: { cudaCore: 9.7, tensorCore: 19.5 },
+  fp32: { cudaCore: 19.5 },
+  tf32: { tensorCore: 156, tensorCoreSparse: 312 },
+  fp16: { cudaCore: 78, tensorCore: 312, tensorCoreSparse: 624 },
+  bf16: { cudaCore: 39, tensorCore: 312, tensorCoreSparse: 624 },
+  int8: { tensorCore: 624, tensorCoreSparse: 1248 },
+  int4: { tensorCore: 1248, tensorCoreSparse: 2496 },
+}
+
+type GpuSpec = Omit<NvidiaGpu, 'peakThroughput'> & { peakThroughput?: PeakThroughput }
+
+const gpuSpecs: GpuSpec[] = [
   // Datacenter GPUs - Hopper Architecture
-  { name: 'H100 PCIe', series: 'Hopper', architecture: 'Hopper', tflops: 67, memory: '80GB', releaseYear: 2022 },
-  { name: 'H100 SXM', series: 'Hopper', architecture: 'Hopper', tflops: 67, memory: '80GB', releaseYear: 2022 },
-  { name: 'H100 NVL', series: 'Hopper', architecture: 'Hopper', tflops: 1000, memory: '188GB', releaseYear: 2023 },
+  {
+    name: 'H100 PCIe', series: 'Hopper', architecture: 'Hopper', tflops: 51,
+    peakThroughput: {
+      fp64: { cudaCore: 25.6, tensorCore: 51 },
+      fp32: { cudaCore: 51 },
+      tf32: { tensorCore: 378, tensorCoreSparse: 756 },
+      fp16: { cudaCore: 102, tensorCore: 756, tensorCoreSparse: 1513 },
+      bf16: { cudaCore: 102, tensorCore: 756, tensorCoreSparse: 1513 },
+      fp8: { tensorCore: 1513, tensorCoreSparse: 3026 },
+      int8: { tensorCore: 1513, tensorCoreSparse: 3026 },
+    },
+    memory: '80GB', memoryBandwidth: 2000, releaseYear: 2022,
+  },
+  {
+    name: 'H100 SXM', series: 'Hopper', architecture: 'Hopper', tflops: 67,
+    peakThroughput: {
+      fp64: { cudaCore: 34, tensorCore: 67 },
+      fp32: { cudaCore: 67 },
+      tf32: { tensorCore: 495, tensorCoreSparse: 989 },
+      fp16: { cudaCore: 134, tensorCore: 989, tensorCoreSparse: 1979 },
+      bf16: { cudaCore: 134, tensorCore: 989, tensorCoreSparse: 1979 },
+      fp8: { tensorCore: 1979, tensorCoreSparse: 3958 },
+      int8: { tensorCore: 1979, tensorCoreSparse: 3958 },
+    },
+    memory: '80GB', memoryBandwidth: 3350, releaseYear: 2022,
+  },
+  {
+    name: 'H100 NVL', series: 'Hopper', architecture: 'Hopper', tflops: 134,
+    peakThroughput: {
+      fp64: { cudaCore: 68, tensorCore: 134 },
+      fp32: { cudaCore: 134 },
+      tf32: { tensorCore: 989, tensorCoreSparse: 1979 },
+      fp16: { cudaCore: 268, tensorCore: 1979, tensorCoreSparse: 3958 },
+      bf16: { cudaCore: 268, tensorCore: 1979, tensorCoreSparse: 3958 },
+      fp8: { tensorCore: 3958, tensorCoreSparse: 7916 },
+      int8: { tensorCore: 3958, tensorCoreSparse: 7916 },
+    },
+    memory: '188GB', memoryBandwidth: 7800, releaseYear: 2023,
+  },
 
   // Datacenter GPUs - Ampere Architecture
-  { name: 'A100 PCIe 40GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, memory: '40GB', releaseYear: 2020 },
-  { name: 'A100 PCIe 80GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, memory: '80GB', releaseYear: 2020 },
-  { name: 'A100 SXM 40GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, memory: '40GB', releaseYear: 2020 },
-  { name: 'A100 SXM 80GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, memory: '80GB', releaseYear: 2020 },
+  { name: 'A100 PCIe 40GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, peakThroughput: a100Peaks, memory: '40GB', memoryBandwidth: 1555, releaseYear: 2020 },
+  { name: 'A100 PCIe 80GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, peakThroughput: a100Peaks, memory: '80GB', memoryBandwidth: 1935, releaseYear: 2020 },
+  { name: 'A100 SXM 40GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, peakThroughput: a100Peaks, memory: '40GB', memoryBandwidth: 1555, releaseYear: 2020 },
+  { name: 'A100 SXM 80GB', series: 'Ampere', architecture: 'Ampere', tflops: 19.5, peakThroughput: a100Peaks, memory: '80GB', memoryBandwidth: 2039, releaseYear: 2020 },
 
   // Datacenter GPUs - Ada Lovelace Architecture
-  { name: 'L40', series: 'Ada Lovelace', architecture: 'Ada Lovelace', tflops: 48.7, memory: '48GB', releaseYear: 2022 },
-  { name: 'L40S', series: 'Ada Lovelace', architecture: 'Ada Lovelace', tflops: 91.6, memory: '48GB', releaseYear: 2023 },
-  { name: 'L4', series: 'Ada Lovelace', architecture: 'Ada Lovelace', tflops: 30.3, memory: '24GB', releaseYear: 2022 },
+  { name: 'L40', series: 'Ada Lovelace', architecture: 'Ada Lovelace', tflops: 48.7, memory: '48GB', memoryBandwidth: 864, releaseYear: 2022 },
+  {
+    name: 'L40S', series: 'Ada Lovelace', architecture: 'Ada Lovelace', tflops: 91.6,
+    peakThroughput: {
+      fp64: { cudaCore: 1.4 },
+      fp32: { cudaCore: 91.6 },
+      tf32: { tensorCore: 183, tensorCoreSparse: 366 },
+      fp16: { cudaCore: 91.6, tensorCore: 362, tensorCoreSparse: 733 },
+      bf16: { tensorCore: 362, tensorCoreSparse: 733 },
+      fp8: { tensorCore: 733, tensorCoreSparse: 1466 },
+      int8: { tensorCore: 733, tensorCoreSparse: 1466 },
+      int4: { tensorCore: 733, tensorCoreSparse: 1466 },
+    },
+    memory: '48GB', memoryBandwidth: 864, releaseYear: 2023,
+  },
+  {
+    name: 'L4', series: 'Ada Lovelace', architecture: 'Ada Lovelace', tflops: 30.3,
+    peakThroughput: {
+      fp64: { cudaCore: 0.5 },
+      fp32: { cudaCore: 30.3 },
+      tf32: { tensorCore: 60, tensorCoreSparse: 120 },
+      fp16: { cudaCore: 30.3, tensorCore: 121, tensorCoreSparse: 242 },
+      bf16: { tensorCore: 121, tensorCoreSparse: 242 },
+      fp8: { tensorCore: 242, tensorCoreSparse: 485 },
+      int8: { tensorCore: 242, tensorCoreSparse: 485 },
+    },
+    memory: '24GB', memoryBandwidth: 300, releaseYear: 2022,
+  },
 
   // Datacenter GPUs - Volta Architecture
-  { name: 'V100 PCIe 16GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '16GB', releaseYear: 2017 },
-  { name: 'V100 PCIe 32GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '32GB', releaseYear: 2017 },
-  { name: 'V100 SXM 16GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '16GB', releaseYear: 2017 },
-  { name: 'V100 SXM 32GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '32GB', releaseYear: 2017 },
+  { name: 'V100 PCIe 16GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '16GB', memoryBandwidth: 900, releaseYear: 2017 },
+  { name: 'V100 PCIe 32GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '32GB', memoryBandwidth: 900, releaseYear: 2017 },
+  { name: 'V100 SXM 16GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '16GB', memoryBandwidth: 900, releaseYear: 2017 },
+  { name: 'V100 SXM 32GB', series: 'Volta', architecture: 'Volta', tflops: 15.7, memory: '32GB', memoryBandwidth: 900, releaseYear: 2017 },
 
   // Datacenter GPUs - Pascal Architecture
-  { name: 'P100 PCIe', series: 'Pascal', architecture: 'Pascal', tflops: 9.3, memory: '16GB', releaseYear: 2016 },
-  { name: 'P100 SXM', series: 'Pascal', architecture: 'Pascal', tflops: 10.6, memory: '16GB', releaseYear: 2016 },
+  { name: 'P100 PCIe', series: 'Pascal', architecture: 'Pascal', tflops: 9.3, peakThroughput: fromProfile(9.3, gp100Profile), memory: '16GB', memoryBandwidth: 732, releaseYear: 2016 },
+  { name: 'P100 SXM', series: 'Pascal', architecture: 'Pascal', tflops: 10.6, peakThroughput: fromProfile(10.6, gp100Profile), memory: '16GB', memoryBandwidth: 732, releaseYear: 2016 },
 
   // GeForce RTX 40 Series - Ada Lovelace
-  { name: 'RTX 4090', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 83, memory: '24GB', releaseYear: 2022 },
-  { name: 'RTX 4080', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 48.7, memory: '16GB', releaseYear: 2022 },
-  { name: 'RTX 4070 Ti', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 40.1, memory: '12GB', releaseYear: 2023 },
-  { name: 'RTX 4070', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 29.1, memory: '12GB', releaseYear: 2023 },
-  { name: 'RTX 4060 Ti 16GB', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 22.1, memory: '16GB', releaseYear: 2023 },
-  { name: 'RTX 4060 Ti 8GB', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 22.1, memory: '8GB', releaseYear: 2023 },
-  { name: 'RTX 4060', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 15.1, memory: '8GB', releaseYear: 2023 },
+  { name: 'RTX 4090', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 83, memory: '24GB', memoryBandwidth: 1008, releaseYear: 2022 },
+  { name: 'RTX 4080', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 48.7, memory: '16GB', memoryBandwidth: 717, releaseYear: 2022 },
+  { name: 'RTX 4070 Ti', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 40.1, memory: '12GB', memoryBandwidth: 504, releaseYear: 2023 },
+  { name: 'RTX 4070', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 29.1, memory: '12GB', memoryBandwidth: 504, releaseYear: 2023 },
+  { name: 'RTX 4060 Ti 16GB', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 22.1, memory: '16GB', memoryBandwidth: 288, releaseYear: 2023 },
+  { name: 'RTX 4060 Ti 8GB', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 22.1, memory: '8GB', memoryBandwidth: 288, releaseYear: 2023 },
+  { name: 'RTX 4060', series: 'GeForce RTX 40', architecture: 'Ada Lovelace', tflops: 15.1, memory: '8GB', memoryBandwidth: 272, releaseYear: 2023 },
 
   // GeForce RTX 30 Series - Ampere
-  { name: 'RTX 3090 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 40, memory: '24GB', releaseYear: 2022 },
-  { name: 'RTX 3090', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 36, memory: '24GB', releaseYear: 2020 },
-  { name: 'RTX 3080 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 34.1, memory: '12GB', releaseYear: 2021 },
-  { name: 'RTX 3080 12GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 30.6, memory: '12GB', releaseYear: 2022 },
-  { name: 'RTX 3080 10GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 29.8, memory: '10GB', releaseYear: 2020 },
-  { name: 'RTX 3070 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 21.7, memory: '8GB', releaseYear: 2021 },
-  { name: 'RTX 3070', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 20.3, memory: '8GB', releaseYear: 2020 },
-  { name: 'RTX 3060 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 16.2, memory: '8GB', releaseYear: 2020 },
-  { name: 'RTX 3060 12GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 12.7, memory: '12GB', releaseYear: 2021 },
-  { name: 'RTX 3060 8GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 12.7, memory: '8GB', releaseYear: 2022 },
-  { name: 'RTX 3050', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 9.1, memory: '8GB', releaseYear: 2022 },
+  { name: 'RTX 3090 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 40, memory: '24GB', memoryBandwidth: 1008, releaseYear: 2022 },
+  { name: 'RTX 3090', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 36, memory: '24GB', memoryBandwidth: 936, releaseYear: 2020 },
+  { name: 'RTX 3080 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 34.1, memory: '12GB', memoryBandwidth: 912, releaseYear: 2021 },
+  { name: 'RTX 3080 12GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 30.6, memory: '12GB', memoryBandwidth: 912, releaseYear: 2022 },
+  { name: 'RTX 3080 10GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 29.8, memory: '10GB', memoryBandwidth: 760, releaseYear: 2020 },
+  { name: 'RTX 3070 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 21.7, memory: '8GB', memoryBandwidth: 608, releaseYear: 2021 },
+  { name: 'RTX 3070', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 20.3, memory: '8GB', memoryBandwidth: 448, releaseYear: 2020 },
+  { name: 'RTX 3060 Ti', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 16.2, memory: '8GB', memoryBandwidth: 448, releaseYear: 2020 },
+  { name: 'RTX 3060 12GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 12.7, memory: '12GB', memoryBandwidth: 360, releaseYear: 2021 },
+  { name: 'RTX 3060 8GB', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 12.7, memory: '8GB', memoryBandwidth: 240, releaseYear: 2022 },
+  { name: 'RTX 3050', series: 'GeForce RTX 30', architecture: 'Ampere', tflops: 9.1, memory: '8GB', memoryBandwidth: 224, releaseYear: 2022 },
 
   // GeForce RTX 20 Series - Turing
-  { name: 'RTX 2080 Ti', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 13.4, memory: '11GB', releaseYear: 2018 },
-  { name: 'RTX 2080 Super', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 11.1, memory: '8GB', releaseYear: 2019 },
-  { name: 'RTX 2080', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 10.1, memory: '8GB', releaseYear: 2018 },
-  { name: 'RTX 2070 Super', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 9.1, memory: '8GB', releaseYear: 2019 },
-  { name: 'RTX 2070', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 7.9, memory: '8GB', releaseYear: 2018 },
-  { name: 'RTX 2060 Super', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 7.2, memory: '8GB', releaseYear: 2019 },
-  { name: 'RTX 2060', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 6.5, memory: '6GB', releaseYear: 2019 },
+  { name: 'RTX 2080 Ti', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 13.4, memory: '11GB', memoryBandwidth: 616, releaseYear: 2018 },
+  { name: 'RTX 2080 Super', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 11.1, memory: '8GB', memoryBandwidth: 496, releaseYear: 2019 },
+  { name: 'RTX 2080', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 10.1, memory: '8GB', memoryBandwidth: 448, releaseYear: 2018 },
+  { name: 'RTX 2070 Super', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 9.1, memory: '8GB', memoryBandwidth: 448, releaseYear: 2019 },
+  { name: 'RTX 2070', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 7.9, memory: '8GB', memoryBandwidth: 448, releaseYear: 2018 },
+  { name: 'RTX 2060 Super', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 7.2, memory: '8GB', memoryBandwidth: 448, releaseYear: 2019 },
+  { name: 'RTX 2060', series: 'GeForce RTX 20', architecture: 'Turing', tflops: 6.5, memory: '6GB', memoryBandwidth: 336, releaseYear: 2019 },
 
   // GeForce GTX 16 Series - Turing
-  { name: 'GTX 1660 Ti', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 5.5, memory: '6GB', releaseYear: 2019 },
-  { name: 'GTX 1660 Super', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 5.0, memory: '6GB', releaseYear: 2019 },
-  { name: 'GTX 1660', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 4.6, memory: '6GB', releaseYear: 2019 },
-  { name: 'GTX 1650 Super', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 4.4, memory: '4GB', releaseYear: 2019 },
-  { name: 'GTX 1650', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 3.0, memory: '4GB', releaseYear: 2019 },
+  { name: 'GTX 1660 Ti', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 5.5, memory: '6GB', memoryBandwidth: 288, releaseYear: 2019 },
+  { name: 'GTX 1660 Super', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 5.0, memory: '6GB', memoryBandwidth: 336, releaseYear: 2019 },
+  { name: 'GTX 1660', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 4.6, memory: '6GB', memoryBandwidth: 192, releaseYear: 2019 },
+  { name: 'GTX 1650 Super', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 4.4, memory: '4GB', memoryBandwidth: 192, releaseYear: 2019 },
+  { name: 'GTX 1650', series: 'GeForce GTX 16', architecture: 'Turing', tflops: 3.0, memory: '4GB', memoryBandwidth: 128, releaseYear: 2019 },
 
   // GeForce 10 Series - Pascal
-  { name: 'GTX 1080 Ti', series: 'GeForce 10', architecture: 'Pascal', tflops: 11.3, memory: '11GB', releaseYear: 2017 },
-  { name: 'GTX 1080', series: 'GeForce 10', architecture: 'Pascal', tflops: 8.9, memory: '8GB', releaseYear: 2016 },
-  { name: 'GTX 1070 Ti', series: 'GeForce 10', architecture: 'Pascal', tflops: 8.2, memory: '8GB', releaseYear: 2017 },
-  { name: 'GTX 1070', series: 'GeForce 10', architecture: 'Pascal', tflops: 6.5, memory: '8GB', releaseYear: 2016 },
-  { name: 'GTX 1060 6GB', series: 'GeForce 10', architecture: 'Pascal', tflops: 4.4, memory: '6GB', releaseYear: 2016 },
-  { name: 'GTX 1060 3GB', series: 'GeForce 10', architecture: 'Pascal', tflops: 3.9, memory: '3GB', releaseYear: 2016 },
-  { name: 'GTX 1050 Ti', series: 'GeForce 10', architecture: 'Pascal', tflops: 2.1, memory: '4GB', releaseYear: 2016 },
-  { name: 'GTX 1050', series: 'GeForce 10', architecture: 'Pascal', tflops: 1.8, memory: '2GB', releaseYear: 2016 },
+  { name: 'GTX 1080 Ti', series: 'GeForce 10', architecture: 'Pascal', tflops: 11.3, memory: '11GB', memoryBandwidth: 484, releaseYear: 2017 },
+  { name: 'GTX 1080', series: 'GeForce 10', architecture: 'Pascal', tflops: 8.9, memory: '8GB', memoryBandwidth: 320, releaseYear: 2016 },
+  { name: 'GTX 1070 Ti', series: 'GeForce 10', architecture: 'Pascal', tflops: 8.2, memory: '8GB', memoryBandwidth: 256, releaseYear: 2017 },
+  { name: 'GTX 1070', series: 'GeForce 10', architecture: 'Pascal', tflops: 6.5, memory: '8GB', memoryBandwidth: 256, releaseYear: 2016 },
+  { name: 'GTX 1060 6GB', series: 'GeForce 10', architecture: 'Pascal', tflops: 4.4, memory: '6GB', memoryBandwidth: 192, releaseYear: 2016 },
+  { name: 'GTX 1060 3GB', series: 'GeForce 10', architecture: 'Pascal', tflops: 3.9, memory: '3GB', memoryBandwidth: 192, releaseYear: 2016 },
+  { name: 'GTX 1050 Ti', series: 'GeForce 10', architecture: 'Pascal', tflops: 2.1, memory: '4GB', memoryBandwidth: 112, releaseYear: 2016 },
+  { name: 'GTX 1050', series: 'GeForce 10', architecture: 'Pascal', tflops: 1.8, memory: '2GB', memoryBandwidth: 112, releaseYear: 2016 },
 
   // Quadro RTX Series - Turing
-  { name: 'Quadro RTX 8000', series: 'Quadro RTX', architecture: 'Turing', tflops: 16.3, memory: '48GB', releaseYear: 2018 },
-  { name: 'Quadro RTX 6000', series: 'Quadro RTX', architecture: 'Turing', tflops: 16.3, memory: '24GB', releaseYear: 2018 },
-  { name: 'Quadro RTX 5000', series: 'Quadro RTX', architecture: 'Turing', tflops: 11.2, memory: '16GB', releaseYear: 2018 },
-  { name: 'Quadro RTX 4000', series: 'Quadro RTX', architecture: 'Turing', tflops: 7.1, memory: '8GB', releaseYear: 2018 },
+  { name: 'Quadro RTX 8000', series: 'Quadro RTX', architecture: 'Turing', tflops: 16.3, memory: '48GB', memoryBandwidth: 672, releaseYear: 2018 },
+  { name: 'Quadro RTX 6000', series: 'Quadro RTX', architecture: 'Turing', tflops: 16.3, memory: '24GB', memoryBandwidth: 672, releaseYear: 2018 },
+  { name: 'Quadro RTX 5000', series: 'Quadro RTX', architecture: 'Turing', tflops: 11.2, memory: '16GB', memoryBandwidth: 448, releaseYear: 2018 },
+  { name: 'Quadro RTX 4000', series: 'Quadro RTX', architecture: 'Turing', tflops: 7.1, memory: '8GB', memoryBandwidth: 416, releaseYear: 2018 },
 
   // Quadro RTX Series - Ampere
-  { name: 'RTX A6000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 38.7, memory: '48GB', releaseYear: 2020 },
-  { name: 'RTX A5000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 27.8, memory: '24GB', releaseYear: 2021 },
-  { name: 'RTX A4000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 19.2, memory: '16GB', releaseYear: 2021 },
-  { name: 'RTX A2000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 8.0, memory: '6GB', releaseYear: 2021 },
+  { name: 'RTX A6000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 38.7, memory: '48GB', memoryBandwidth: 768, releaseYear: 2020 },
+  { name: 'RTX A5000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 27.8, memory: '24GB', memoryBandwidth: 768, releaseYear: 2021 },
+  { name: 'RTX A4000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 19.2, memory: '16GB', memoryBandwidth: 448, releaseYear: 2021 },
+  { name: 'RTX A2000', series: 'Quadro RTX', architecture: 'Ampere', tflops: 8.0, memory: '6GB', memoryBandwidth: 288, releaseYear: 2021 },
 
   // Quadro RTX Series - Ada Lovelace
-  { name: 'RTX 6000 Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 91.6, memory: '48GB', releaseYear: 2022 },
-  { name: 'RTX 5000 Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 30.3, memory: '32GB', releaseYear: 2022 },
-  { name: 'RTX 4000 Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 24.7, memory: '20GB', releaseYear: 2023 },
-  { name: 'RTX 4000 SFF Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 19.2, memory: '20GB', releaseYear: 2023 },
+  { name: 'RTX 6000 Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 91.6, memory: '48GB', memoryBandwidth: 960, releaseYear: 2022 },
+  { name: 'RTX 5000 Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 30.3, memory: '32GB', memoryBandwidth: 576, releaseYear: 2022 },
+  { name: 'RTX 4000 Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 24.7, memory: '20GB', memoryBandwidth: 360, releaseYear: 2023 },
+  { name: 'RTX 4000 SFF Ada', series: 'Quadro RTX', architecture: 'Ada Lovelace', tflops: 19.2, memory: '20GB', memoryBandwidth: 280, releaseYear: 2023 },
 
   // Quadro Series - Pascal
-  { name: 'Quadro P6000', series: 'Quadro', architecture: 'Pascal', tflops: 12, memory: '24GB', releaseYear: 2016 },
-  { name: 'Quadro P5000', series: 'Quadro', architecture: 'Pascal', tflops: 8.9, memory: '16GB', releaseYear: 2016 },
-  { name: 'Quadro P4000', series: 'Quadro', architecture: 'Pascal', tflops: 5.3, memory: '8GB', releaseYear: 2016 },
-  { name: 'Quadro P2000', series: 'Quadro', architecture: 'Pascal', tflops: 3.0, memory: '5GB', releaseYear: 2017 },
-  { name: 'Quadro P1000', series: 'Quadro', architecture: 'Pascal', tflops: 1.9, memory: '4GB', releaseYear: 2017 },
+  { name: 'Quadro P6000', series: 'Quadro', architecture: 'Pascal', tflops: 12, memory: '24GB', memoryBandwidth: 432, releaseYear: 2016 },
+  { name: 'Quadro P5000', series: 'Quadro', architecture: 'Pascal', tflops: 8.9, memory: '16GB', memoryBandwidth: 288, releaseYear: 2016 },
+  { name: 'Quadro P4000', series: 'Quadro', architecture: 'Pascal', tflops: 5.3, memory: '8GB', memoryBandwidth: 243, releaseYear: 2016 },
+  { name: 'Quadro P2000', series: 'Quadro', architecture: 'Pascal', tflops: 3.0, memory: '5GB', memoryBandwidth: 140, releaseYear: 2017 },
+  { name: 'Quadro P1000', series: 'Quadro', architecture: 'Pascal', tflops: 1.9, memory: '4GB', memoryBandwidth: 82, releaseYear: 2017 },
 
   // Quadro Series - Volta
-  { name: 'Quadro GV100', series: 'Quadro', architecture: 'Volta', tflops: 14.8, memory: '32GB', releaseYear: 2018 },
+  { name: 'Quadro GV100', series: 'Quadro', architecture: 'Volta', tflops: 14.8, memory: '32GB', memoryBandwidth: 870, releaseYear: 2018 },
 
   // Tesla Series - Ampere
-  { name: 'Tesla A100 40GB', series: 'Tesla', architecture: 'Ampere', tflops: 19.5, memory: '40GB', releaseYear: 2020 },
-  { name: 'Tesla A100 80GB', series: 'Tesla', architecture: 'Ampere', tflops: 19.5, memory: '80GB', releaseYear: 2020 },
+  { name: 'Tesla A100 40GB', series: 'Tesla', architecture: 'Ampere', tflops: 19.5, peakThroughput: a100Peaks, memory: '40GB', memoryBandwidth: 1555, releaseYear: 2020 },
+  { name: 'Tesla A100 80GB', series: 'Tesla', architecture: 'Ampere', tflops: 19.5, peakThroughput: a100Peaks, memory: '80GB', memoryBandwidth: 2039, releaseYear: 2020 },
 
   // Tesla Series - Volta
-  { name: 'Tesla V100 PCIe', series: 'Tesla', architecture: 'Volta', tflops: 15.7, memory: '32GB', releaseYear: 2017 },
-  { name: 'Tesla V100 SXM', series: 'Tesla', architecture: 'Volta', tflops: 15.7, memory: '32GB', releaseYear: 2017 },
+  { name: 'Tesla V100 PCIe', series: 'Tesla', architecture: 'Volta', tflops: 15.7, memory: '32GB', memoryBandwidth: 900, releaseYear: 2017 },
+  { name: 'Tesla V100 SXM', series: 'Tesla', architecture: 'Volta', tflops: 15.7, memory: '32GB', memoryBandwidth: 900, releaseYear: 2017 },
 
   // Tesla Series - Pascal
-  { name: 'Tesla P100', series: 'Tesla', architecture: 'Pascal', tflops: 10.6, memory: '16GB', releaseYear: 2016 },
-  { name: 'Tesla P40', series: 'Tesla', architecture: 'Pascal', tflops: 12, memory: '24GB', releaseYear: 2016 },
-  { name: 'Tesla P4', series: 'Tesla', architecture: 'Pascal', tflops: 5.5, memory: '8GB', releaseYear: 2016 },
+  { name: 'Tesla P100', series: 'Tesla', architecture: 'Pascal', tflops: 10.6, peakThroughput: fromProfile(10.6, gp100Profile), memory: '16GB', memoryBandwidth: 732, releaseYear: 2016 },
+  { name: 'Tesla P40', series: 'Tesla', architecture: 'Pascal', tflops: 12, memory: '24GB', memoryBandwidth: 346, releaseYear: 2016 },
+  { name: 'Tesla P4', series: 'Tesla', architecture: 'Pascal', tflops: 5.5, memory: '8GB', memoryBandwidth: 192, releaseYear: 2016 },
 
   // TITAN Series
-  { name: 'TITAN RTX', series: 'TITAN', architecture: 'Turing', tflops: 16.3, memory: '24GB', releaseYear: 2018 },
-  { name: 'TITAN V', series: 'TITAN', architecture: 'Volta', tflops: 15, memory: '12GB', releaseYear: 2017 },
-  { name: 'TITAN Xp', series: 'TITAN', architecture: 'Pascal', tflops: 12.1, memory: '12GB', releaseYear: 2017 },
-  { name: 'TITAN X (Pascal)', series: 'TITAN', architecture: 'Pascal', tflops: 10.97, memory: '12GB', releaseYear: 2016 },
+  { name: 'TITAN RTX', series: 'TITAN', architecture: 'Turing', tflops: 16.3, memory: '24GB', memoryBandwidth: 672, releaseYear: 2018 },
+  { name: 'TITAN V', series: 'TITAN', architecture: 'Volta', tflops: 15, memory: '12GB', memoryBandwidth: 653, releaseYear: 2017 },
+  { name: 'TITAN Xp', series: 'TITAN', architecture: 'Pascal', tflops: 12.1, memory: '12GB', memoryBandwidth: 548, releaseYear: 2017 },
+  { name: 'TITAN X (Pascal)', series: 'TITAN', architecture: 'Pascal', tflops: 10.97, memory: '12GB', memoryBandwidth: 480, releaseYear: 2016 },
 
   // GeForce 9 Series - Maxwell
-  { name: 'GTX 980 Ti', series: 'GeForce 9', architecture: 'Maxwell', tflops: 5.6, memory: '6GB', releaseYear: 2015 },
-  { name: 'GTX 980', series: 'GeForce 9', architecture: 'Maxwell', tflops: 4.6, memory: '4GB', releaseYear: 2014 },
-  { name: 'GTX 970', series: 'GeForce 9', architecture: 'Maxwell', tflops: 3.5, memory: '4GB', releaseYear: 2014 },
-  { name: 'GTX 960', series: 'GeForce 9', architecture: 'Maxwell', tflops: 2.3, memory: '2GB', releaseYear: 2015 },
-  { name: 'GTX 950', series: 'GeForce 9', architecture: 'Maxwell', tflops: 1.8, memory: '2GB', releaseYear: 2015 },
+  { name: 'GTX 980 Ti', series: 'GeForce 9', architecture: 'Maxwell', tflops: 5.6, memory: '6GB', memoryBandwidth: 336, releaseYear: 2015 },
+  { name: 'GTX 980', series: 'GeForce 9', architecture: 'Maxwell', tflops: 4.6, memory: '4GB', memoryBandwidth: 224, releaseYear: 2014 },
+  { name: 'GTX 970', series: 'GeForce 9', architecture: 'Maxwell', tflops: 3.5, memory: '4GB', memoryBandwidth: 224, releaseYear: 2014 },
+  { name: 'GTX 960', series: 'GeForce 9', architecture: 'Maxwell', tflops: 2.3, memory: '2GB', memoryBandwidth: 112, releaseYear: 2015 },
+  { name: 'GTX 950', series: 'GeForce 9', architecture: 'Maxwell', tflops: 1.8, memory: '2GB', memoryBandwidth: 106, releaseYear: 2015 },
 
   // Jetson Series (Edge AI)
-  { name: 'Jetson AGX Orin', series: 'Jetson', architecture: 'Ampere', tflops: 5.3, memory: '32GB', releaseYear: 2022 },
-  { name: 'Jetson AGX Xavier', series: 'Jetson', architecture: 'Volta', tflops: 1.4, memory: '32GB', releaseYear: 2018 },
-  { name: 'Jetson Xavier NX', series: 'Jetson', architecture: 'Volta', tflops: 1.4, memory: '16GB', releaseYear: 2020 },
+  { name: 'Jetson AGX Orin', series: 'Jetson', architecture: 'Ampere', tflops: 5.3, memory: '32GB', memoryBandwidth: 204.8, releaseYear: 2022 },
+  { name: 'Jetson AGX Xavier', series: 'Jetson', architecture: 'Volta', tflops: 1.4, memory: '32GB', memoryBandwidth: 136.5, releaseYear: 2018 },
+  { name: 'Jetson Xavier NX', series: 'Jetson', architecture: 'Volta', tflops: 1.4, memory: '16GB', memoryBandwidth: 59.7, releaseYear: 2020 },
 ]
 
-// Helper function to get GPUs grouped by series
-export function getGpusBySeries(): Record<string, NvidiaGpu[]> {
+export const nvidiaGpus: NvidiaGpu[] = gpuSpecs.map((spec) => ({
+  ...spec,
+  peakThroughput:
+    spec.peakThroughput ?? fromProfile(spec.tflops, architectureProfiles[spec.architecture] ?? {}),
+}))
+
+// Helper function to get GPUs grouped by series. Custom GPUs come first and
+// replace catalog entries with the same name.
+export function getGpusBySeries(customGpus: NvidiaGpu[] = getCustomGpus()): Record<string, NvidiaGpu[]> {
   const grouped: Record<string, NvidiaGpu[]> = {}
-  
-  nvidiaGpus.forEach(gpu => {
+  if (customGpus.length > 0) {
+    grouped[CUSTOM_SERIES] = [...customGpus]
+  }
+  const customNames = new Set(customGpus.map((gpu) => gpu.name))
+
+  nvidiaGpus.filter(gpu => !customNames.has(gpu.name)).forEach(gpu => {
     if (!grouped[gpu.series]) {
       grouped[gpu.series] = []
     }
@@ -163,6 +332,20 @@ export function getGpusBySeries(): Record<string, NvidiaGpu[]> {
 
 // Helper function to find GPU by name
 export function findGpuByName(name: string): NvidiaGpu | undefined {
-  return nvidiaGpus.find(gpu => gpu.name === name)
+  return getCustomGpus().find(gpu => gpu.name === name) ?? nvidiaGpus.find(gpu => gpu.name === name)
+}
+
+// Current definition of a selected GPU, looked up by name so edits to a custom GPU
+// take effect and a deleted one drops out of the selection
+export function resolveGpu(gpu: NvidiaGpu | null): NvidiaGpu | null {
+  return gpu ? findGpuByName(gpu.name) ?? null : null
 }
 
+
+// Helper function to parse a memory string such as '80GB' into GB
+export function parseMemoryGB(memory?: string): number | null {
+  const match = memory?.match(/^\s*([\d.]+)\s*(GB|TB)\s*$/i)
+  if (!match) return null
+  const size = parseFloat(match[1])
+  return match[2].toUpperCase() === 'TB' ? size * 1024 : size
+}
@@ -0,0 +1,193 @@
+export type TopologyId = 'nvswitch' | 'nvlink-mesh' | 'pcie' | 'infiniband'
+
+// A GPU rank, or a named switch / host / NIC node
+export type TopologyNode = number | string
+
+export interface TopologyLink {
+  a: TopologyNode
+  b: TopologyNode
+  bandwidth: number // GB/s per direction
+  label: string
+}
+
+export interface TopologyHub {
+  id: string
+  label: string
+}
+
+export interface TopologyGraph {
+  id: TopologyId
+  hubs: TopologyHub[]
+  links: TopologyLink[]
+  nodeOfRank: (rank: number) => number // Server the rank lives in
+}
+
+// One direction of a link, as used by a routed transfer
+export interface Hop {
+  link: TopologyLink
+  from: TopologyNode
+  to: TopologyNode
+}
+
+export interface LinkLoad extends Hop {
+  flows: number // Concurrent transfers sharing this direction of the link
+  perFlowBandwidth: number // GB/s each flow gets
+}
+
+export const topologies: Array<{ id: TopologyId; label: string; description: string }> = [
+  {
+    id: 'nvswitch',
+    label: 'NVSwitch',
+    description: 'Every GPU has full NVLink bandwidth to an NVSwitch, so any pair can talk at full speed (DGX H100).',
+  },
+  {
+    id: 'nvlink-mesh',
+    label: 'NVLink Mesh',
+    description:
+      'Point-to-point NVLink: a hybrid cube-mesh with 8 GPUs (DGX-1), otherwise a ring. Non-neighbours relay through other GPUs.',
+  },
+  {
+    id: 'pcie',
+    label: 'PCIe via Host',
+    description: 'No NVLink: GPU-to-GPU traffic crosses PCIe to the host and back, sharing one Gen4 x16 lane per GPU.',
+  },
+  {
+    id: 'infiniband',
+    label: '2 Nodes + InfiniBand',
+    description:
+      'Servers with NVSwitch inside, joined by one InfiniBand NDR NIC each. Cross-node traffic shares the NIC.',
+  },
+]
+
+export const NVSWITCH_BANDWIDTH = 450 // NVLink 4, per GPU per direction
+export const NVLINK_MESH_BANDWIDTH = 25 // NVLink 2, per link per direction
+export const PCIE_BANDWIDTH = 32 // PCIe Gen4 x16 per direction
+export const INFINIBAND_BANDWIDTH = 50 // 400 Gb/s NDR per direction
+
+export function ranksPerNode(ranks: number, nodes = 2): number {
+  return Math.ceil(ranks / nodes)
+}
+
+// `nodes` only applies to the InfiniBand topology
+export function buildTopology(id: TopologyId, ranks: number, nodes = 2): TopologyGraph {
+  const gpus = Array.from({ length: ranks }, (_, i) => i)
+  const singleNode = () => 0
+
+  switch (id) {
+    case 'nvswitch':
+      return {
+        id,
+        hubs: [{ id: 'nvswitch', label: 'NVSwitch' }],
+        links: gpus.map((gpu) => ({ a: gpu, b: 'nvswitch', bandwidth: NVSWITCH_BANDWIDTH, label: 'NVLink' })),
+        nodeOfRank: singleNode,
+      }
+    case 'nvlink-mesh': {
+      const links: TopologyLink[] = []
+      const addLink = (a: number, b: number) =>
+        links.push({ a, b, bandwidth: NVLINK_MESH_BANDWIDTH, label: 'NVLink' })
+      if (ranks === 8) {
+        // DGX-1: two fully connected quads, with GPU i linked to GPU i + 4
+        for (let quad = 0; quad < 8; quad += 4) {
+          for (let i = quad; i < quad + 4; i++) {
+            for (let j = i + 1; j < quad + 4; j++) addLink(i, j)
+          }
+        }
+        for (let i = 0; i < 4; i++) addLink(i, i + 4)
+      } else {
+        gpus.forEach((gpu) => {
+          const next = (gpu + 1) % ranks
+          if (next !== gpu && !(ranks === 2 && gpu === 1)) addLink(gpu, next)
+        })
+      }
+      return { id, hubs: [], links, nodeOfRank: singleNode }
+    }
+    case 'pcie':
+      return {
+        id,
+        hubs: [{ id: 'host', label: 'Host (CPU)' }],
+        links: gpus.map((gpu) => ({ a: gpu, b: 'host', bandwidth: PCIE_BANDWIDTH, label: 'PCIe' })),
+        nodeOfRank: singleNode,
+      }
+    case 'infiniband': {
+      const perNode = ranksPerNode(ranks, nodes)
+      const nodeOfRank = (rank: number) => Math.floor(rank / perNode)
+      const nodeIds = Array.from({ length: nodes }, (_, node) => node)
+      return {
+        id,
+        hubs: [
+          ...nodeIds.map((node) => ({ id: `switch-${node}`, label: `Node ${node} NVSwitch` })),
+          { id: 'ib', label: 'IB Switch' },
+        ],
+        links: [
+          ...gpus.map((gpu) => ({
+            a: gpu,
+            b: `switch-${nodeOfRank(gpu)}`,
+            bandwidth: NVSWITCH_BANDWIDTH,
+            label: 'NVLink',
+          })),
+          ...nodeIds.map((node) => ({
+            a: `switch-${node}`,
+            b: 'ib',
+            bandwidth: INFINIBAND_BANDWIDTH,
+            label: 'IB',
+          })),
+        ],
+        nodeOfRank,
+      }
+    }
+  }
+}
+
+// Shortest path (fewest hops) from one GPU to another
+export function routeTransfer(graph: TopologyGraph, from: number, to: number): Hop[] {
+  if (from === to) return []
+  const previous = new Map<TopologyNode, Hop>()
+  const visited = new Set<TopologyNode>([from])
+  const queue: TopologyNode[] = [from]
+
+  while (queue.length > 0) {
+    const node = queue.shift() as TopologyNode
+    if (node === to) break
+    graph.links.forEach((link) => {
+      const next = link.a === node ? link.b : link.b === node ? link.a : null
+      if (next === null || visited.has(next)) return
+      visited.add(next)
+      previous.set(next, { link, from: node, to: next })
+      queue.push(next)
+    })
+  }
+
+  const hops: Hop[] = []
+  let node: TopologyNode = to
+  while (node !== from) {
+    const hop = previous.get(node)
+    if (!hop) return [] // Disconnected
+    hops.unshift(hop)
+    node = hop.from
+  }
+  return hops
+}
+
+// Route every concurrent transfer and find the link direction that limits them
+export function analyzeTraffic(
+  graph: TopologyGraph,
+  transfers: Array<{ from: number; to: number }>
+): { loads: LinkLoad[]; bottleneck: LinkLoad | null } {
+  const loads = new Map<string, LinkLoad>()
+  transfers.forEach(({ from, to }) => {
+    routeTransfer(graph, from, to).forEach((hop) => {
+      const key = `${hop.from}->${hop.to}`
+      const load = loads.get(key) ?? { ...hop, flows: 0, perFlowBandwidth: hop.link.bandwidth }
+      load.flows += 1
+      load.perFlowBandwidth = hop.link.bandwidth / load.flows
+      loads.set(key, load)
+    })
+  })
+
+  const all = [...loads.values()]
+  const bottleneck = all.reduce<LinkLoad | null>(
+    (worst, load) => (worst === null || load.perFlowBandwidth < worst.perFlowBandwidth ? load : worst),
+    null
+  )
+  return { loads: all, bottleneck }
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react'
+import { getCustomGpus, subscribeCustomGpus } from '../data/customGpus'
+import type { NvidiaGpu } from '../data/nvidiaGpus'
+
+// Re-renders the caller whenever custom GPUs are added, edited or imported
+export function useCustomGpus(): NvidiaGpu[] {
+  return useSyncExternalStore(subscribeCustomGpus, getCustomGpus)
+}
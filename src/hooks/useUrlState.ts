@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react'
+
+export interface UrlCodec<T> {
+  parse: (value: string) => T | null // null = invalid, fall back to the default
+  serialize: (value: T) => string
+}
+
+// Edits to the same key within this window replace the last history entry,
+// so typing a number doesn't create one entry per keystroke
+const COALESCE_MS = 1000
+let lastWrite = { key: '', time: 0 }
+
+function readParam<T>(key: string, defaultValue: T, codec: UrlCodec<T>): T {
+  const raw = new URLSearchParams(window.location.search).get(key)
+  return raw === null ? defaultValue : codec.parse(raw) ?? defaultValue
+}
+
+function writeParam(key: string, serialized: string | null) {
+  const params = new URLSearchParams(window.location.search)
+  if (serialized === null) {
+    params.delete(key)
+  } else {
+    params.set(key, serialized)
+  }
+  if (params.toString() === new URLSearchParams(window.location.search).toString()) return
+
+  const query = params.toString()
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+  const now = Date.now()
+  if (lastWrite.key === key && now - lastWrite.time < COALESCE_MS) {
+    window.history.replaceState(null, '', url)
+  } else {
+    window.history.pushState(null, '', url)
+  }
+  lastWrite = { key, time: now }
+}
+
+// State mirrored in a URL query parameter; back/forward restore earlier values.
+// The parameter is omitted while the value equals its default. Pass a
+// module-level default and codec so the listeners stay stable across renders.
+export function useUrlState<T>(
+  key: string,
+  defaultValue: T,
+  codec: UrlCodec<T>
+): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => readParam(key, defaultValue, codec))
+  const defaultSerialized = codec.serialize(defaultValue)
+
+  useEffect(() => {
+    const handlePopState = () => setValue(readParam(key, defaultValue, codec))
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [key, defaultValue, codec])
+
+  const update = useCallback(
+    (next: T) => {
+      setValue(next)
+      const serialized = codec.serialize(next)
+      writeParam(key, serialized === defaultSerialized ? null : serialized)
+    },
+    [key, defaultSerialized, codec]
+  )
+
+  return [value, update]
+}
+
+export function enumCodec<T extends string>(values: readonly T[]): UrlCodec<T> {
+  return {
+    parse: (value) => (values.includes(value as T) ? (value as T) : null),
+    serialize: (value) => value,
+  }
+}
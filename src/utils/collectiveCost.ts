@@ -0,0 +1,151 @@
+export type CollectiveOperation =
+  | 'all-reduce'
+  | 'all-gather'
+  | 'reduce-scatter'
+  | 'gather'
+  | 'scatter'
+  | 'broadcast'
+  | 'reduce'
+  | 'all-to-all'
+
+export type CollectiveAlgorithm = 'ring' | 'tree' | 'recursive-doubling' | 'direct'
+
+export interface CollectiveCostParams {
+  messageBytes: number // Full buffer size S, as reported by nccl-tests
+  ranks: number
+  latency: number // α, seconds per message
+  bandwidth: number // 1/β, bytes per second per link
+}
+
+export interface AlgorithmCost {
+  algorithm: CollectiveAlgorithm
+  label: string
+  formula: string
+  latencySeconds: number
+  bandwidthSeconds: number
+  seconds: number
+  algBandwidth: number // S / t, bytes per second
+  busBandwidth: number // algBandwidth × busBandwidthFactor
+}
+
+interface CostTerms {
+  algorithm: CollectiveAlgorithm
+  label?: string // Overrides the generic algorithm name
+  formula: string
+  messages: number // Number of α terms on the critical path
+  bytes: number // Bytes serialized on the busiest link, in units of S
+}
+
+export const algorithmLabels: Record<CollectiveAlgorithm, string> = {
+  ring: 'Ring',
+  tree: 'Tree',
+  'recursive-doubling': 'Recursive Doubling',
+  direct: 'Direct',
+}
+
+// nccl-tests bus bandwidth correction: the fraction of S each rank must
+// send or receive, so busBw is comparable with the link bandwidth
+export function busBandwidthFactor(operation: CollectiveOperation, ranks: number): number {
+  switch (operation) {
+    case 'all-reduce':
+      return (2 * (ranks - 1)) / ranks
+    case 'all-gather':
+    case 'reduce-scatter':
+    case 'gather':
+    case 'scatter':
+    case 'all-to-all':
+      return (ranks - 1) / ranks
+    case 'broadcast':
+    case 'reduce':
+      return 1
+  }
+}
+
+function costTerms(operation: CollectiveOperation, n: number): CostTerms[] {
+  const log = Math.ceil(Math.log2(n))
+  const f = (n - 1) / n
+
+  switch (operation) {
+    case 'all-reduce':
+      return [
+        { algorithm: 'ring', formula: '2(n−1)α + 2·(n−1)/n·Sβ', messages: 2 * (n - 1), bytes: 2 * f },
+        { algorithm: 'tree', formula: '2⌈log₂n⌉α + 2·Sβ', messages: 2 * log, bytes: 2 },
+        { algorithm: 'recursive-doubling', formula: '⌈log₂n⌉·(α + Sβ)', messages: log, bytes: log },
+        { algorithm: 'direct', formula: '2α + 2·(n−1)/n·Sβ', messages: 2, bytes: 2 * f },
+      ]
+    case 'all-gather':
+    case 'reduce-scatter':
+      return [
+        { algorithm: 'ring', formula: '(n−1)α + (n−1)/n·Sβ', messages: n - 1, bytes: f },
+        { algorithm: 'recursive-doubling', formula: '⌈log₂n⌉α + (n−1)/n·Sβ', messages: log, bytes: f },
+        { algorithm: 'direct', formula: 'α + (n−1)/n·Sβ', messages: 1, bytes: f },
+      ]
+    case 'gather':
+    case 'scatter':
+      return [
+        { algorithm: 'ring', formula: '(n−1)α + (n−1)/n·Sβ', messages: n - 1, bytes: f },
+        { algorithm: 'tree', formula: '⌈log₂n⌉α + (n−1)/n·Sβ', messages: log, bytes: f },
+        { algorithm: 'direct', formula: 'α + (n−1)/n·Sβ', messages: 1, bytes: f },
+      ]
+    case 'broadcast':
+    case 'reduce':
+      return [
+        { algorithm: 'ring', formula: '(n−1)α + Sβ', messages: n - 1, bytes: 1 },
+        { algorithm: 'tree', formula: '⌈log₂n⌉·(α + Sβ)', messages: log, bytes: log },
+        {
+          algorithm: 'recursive-doubling',
+          formula: '(⌈log₂n⌉ + n−1)α + 2·(n−1)/n·Sβ',
+          messages: log + n - 1,
+          bytes: 2 * f,
+        },
+        { algorithm: 'direct', formula: 'α + (n−1)·Sβ', messages: 1, bytes: n - 1 },
+      ]
+    case 'all-to-all':
+      // Ring relays each chunk hop by hop, so a link carries Σd·S/n = (n−1)/2·S
+      return [
+        { algorithm: 'ring', formula: '(n−1)α + (n−1)/2·Sβ', messages: n - 1, bytes: (n - 1) / 2 },
+        {
+          algorithm: 'recursive-doubling',
+          label: 'Bruck',
+          formula: '⌈log₂n⌉α + ⌈log₂n⌉/2·Sβ',
+          messages: log,
+          bytes: log / 2,
+        },
+        {
+          algorithm: 'direct',
+          label: 'Pairwise Exchange',
+          formula: '(n−1)α + (n−1)/n·Sβ',
+          messages: n - 1,
+          bytes: f,
+        },
+      ]
+  }
+}
+
+// Alpha-beta (Hockney) model: t = messages·α + bytes·β. Ring and tree assume
+// the message is pipelined in small chunks; direct assumes a full-bisection
+// switch where a rank's sends proceed in parallel but share its link.
+export function estimateCollective(
+  operation: CollectiveOperation,
+  params: CollectiveCostParams
+): AlgorithmCost[] {
+  const { messageBytes, ranks, latency, bandwidth } = params
+  const factor = busBandwidthFactor(operation, ranks)
+
+  return costTerms(operation, ranks).map((terms) => {
+    const latencySeconds = terms.messages * latency
+    const bandwidthSeconds = (terms.bytes * messageBytes) / bandwidth
+    const seconds = latencySeconds + bandwidthSeconds
+    const algBandwidth = messageBytes / seconds
+    return {
+      algorithm: terms.algorithm,
+      label: terms.label ?? algorithmLabels[terms.algorithm],
+      formula: terms.formula,
+      latencySeconds,
+      bandwidthSeconds,
+      seconds,
+      algBandwidth,
+      busBandwidth: algBandwidth * factor,
+    }
+  })
+}
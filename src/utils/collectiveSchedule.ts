@@ -0,0 +1,314 @@
+import type { CollectiveOperation } from './collectiveCost'
+
+export type AllReduceAlgorithm = 'centralized' | 'ring' | 'hierarchical'
+
+export type TransferOp = 'copy' | 'reduce'
+
+// One chunk moving from rank `src` to rank `dst`. A transfer with src === dst is local:
+// it takes a step in the animation but never touches a link or changes a buffer.
+export interface ScheduledTransfer {
+  src: number
+  dst: number
+  chunk: number
+  op: TransferOp
+}
+
+export interface ScheduleChunk {
+  block: number // Which rank's input the chunk comes from; always 0 for reductions
+  cells: number[] // Row-major cell indices within that block
+}
+
+export interface CollectiveSchedule {
+  operation: CollectiveOperation
+  ranks: number
+  cellCount: number // Cells in one block
+  reduces: boolean // Every rank starts with its own copy of the same buffer
+  chunks: ScheduleChunk[]
+  initial: number[][] // Chunk ids each rank holds before step 1
+  steps: ScheduledTransfer[][] // steps[s - 1] runs at step s; transfers within a step are concurrent
+}
+
+export interface ScheduleOptions {
+  ranks: number
+  cellCount: number
+  algorithm?: AllReduceAlgorithm // All-reduce only
+  nodes?: number // Hierarchical all-reduce only
+}
+
+export interface ChunkState {
+  values: number[]
+  contributors: number[] // Ranks whose input has been reduced into these values
+}
+
+export type RankBuffer = Array<ChunkState | null> // Indexed by chunk id
+
+export interface Reducer {
+  combine: (a: number, b: number) => number
+  finalize?: (value: number, ranks: number) => number // Applied once a chunk holds every rank's contribution
+}
+
+export interface Payload extends ScheduledTransfer {
+  step: number
+  values: number[]
+}
+
+export interface Simulation {
+  buffers: RankBuffer[]
+  payloads: Payload[] // Transfers of the last `window` steps, with the values they carried
+}
+
+// Split the row-major cells of a block into `chunks` contiguous, near-equal chunks
+export function chunkOfCell(cellIndex: number, cellCount: number, chunks: number): number {
+  return Math.floor((cellIndex * chunks) / cellCount)
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i)
+}
+
+// One chunk per cell: chunk id = block * cellCount + cell
+function cellChunks(blocks: number, cellCount: number): ScheduleChunk[] {
+  return range(blocks).flatMap((block) => range(cellCount).map((cell) => ({ block, cells: [cell] })))
+}
+
+// `parts` chunks per block: chunk id = block * parts + part
+function splitChunks(blocks: number, cellCount: number, parts: number): ScheduleChunk[] {
+  return range(blocks).flatMap((block) =>
+    range(parts).map((part) => ({
+      block,
+      cells: range(cellCount).filter((cell) => chunkOfCell(cell, cellCount, parts) === part),
+    }))
+  )
+}
+
+// Chunk ids of the given blocks, for a layout with `perBlock` chunks per block
+function chunksOfBlocks(blocks: number[], perBlock: number): number[] {
+  return blocks.flatMap((block) => range(perBlock).map((i) => block * perBlock + i))
+}
+
+// Cell-by-cell schedules move one cell per step, in rank order
+function cellSteps(
+  ranks: number[],
+  cellCount: number,
+  transfer: (rank: number, cell: number) => ScheduledTransfer
+): ScheduledTransfer[][] {
+  return ranks.flatMap((rank) => range(cellCount).map((cell) => [transfer(rank, cell)]))
+}
+
+export function buildSchedule(operation: CollectiveOperation, options: ScheduleOptions): CollectiveSchedule {
+  const { ranks, cellCount, algorithm = 'centralized', nodes = 2 } = options
+  const all = range(ranks)
+  const schedule = (
+    reduces: boolean,
+    chunks: ScheduleChunk[],
+    initial: number[][],
+    steps: ScheduledTransfer[][]
+  ): CollectiveSchedule => ({ operation, ranks, cellCount, reduces, chunks, initial, steps })
+
+  switch (operation) {
+    case 'all-reduce': {
+      if (algorithm === 'ring') {
+        // Steps 1..N-1 reduce-scatter: rank r sends chunk (r - s) to rank r+1, which combines it.
+        // Steps N..2N-2 all-gather: rank r forwards its fully reduced chunk (r + 1 - s).
+        const steps = range(2 * (ranks - 1)).map((s) => {
+          const reducing = s < ranks - 1
+          const offset = reducing ? s : s - ranks
+          return all.map((r) => ({
+            src: r,
+            dst: (r + 1) % ranks,
+            chunk: (((r - offset) % ranks) + ranks) % ranks,
+            op: reducing ? ('reduce' as const) : ('copy' as const),
+          }))
+        })
+        return schedule(true, splitChunks(1, cellCount, ranks), all.map(() => range(ranks)), steps)
+      }
+
+      if (algorithm === 'hierarchical') {
+        // G = N / nodes GPUs per node and G chunks; local rank l owns chunk l.
+        // Step 1 reduce-scatters inside each node, step 2 all-reduces each chunk across the
+        // nodes' owners, step 3 all-gathers inside each node.
+        const perNode = ranks / nodes
+        const members = (node: number) => range(perNode).map((local) => node * perNode + local)
+        const owner = (node: number, local: number) => node * perNode + local
+        const intraNode = (op: TransferOp, toOwner: boolean) =>
+          range(nodes).flatMap((node) =>
+            range(perNode).flatMap((local) =>
+              members(node)
+                .filter((rank) => rank !== owner(node, local))
+                .map((rank) => ({
+                  src: toOwner ? rank : owner(node, local),
+                  dst: toOwner ? owner(node, local) : rank,
+                  chunk: local,
+                  op,
+                }))
+            )
+          )
+        const interNode = range(perNode).flatMap((local) =>
+          range(nodes).flatMap((from) =>
+            range(nodes)
+              .filter((to) => to !== from)
+              .map((to) => ({ src: owner(from, local), dst: owner(to, local), chunk: local, op: 'reduce' as const }))
+          )
+        )
+        return schedule(true, splitChunks(1, cellCount, perNode), all.map(() => range(perNode)), [
+          intraNode('reduce', true),
+          interNode,
+          intraNode('copy', false),
+        ])
+      }
+
+      // Centralized: every cell is reduced onto GPU 0, then copied back out
+      return schedule(true, cellChunks(1, cellCount), all.map(() => range(cellCount)), [
+        ...cellSteps(all, cellCount, (rank, cell) => ({ src: rank, dst: 0, chunk: cell, op: 'reduce' })),
+        ...cellSteps(all, cellCount, (rank, cell) => ({ src: 0, dst: rank, chunk: cell, op: 'copy' })),
+      ])
+    }
+
+    case 'all-gather':
+      // GPU t collects block j one cell at a time, for every (t, j) in order
+      return schedule(
+        false,
+        cellChunks(ranks, cellCount),
+        all.map((rank) => chunksOfBlocks([rank], cellCount)),
+        all.flatMap((target) =>
+          cellSteps(all, cellCount, (source, cell) => ({
+            src: source,
+            dst: target,
+            chunk: source * cellCount + cell,
+            op: 'copy',
+          }))
+        )
+      )
+
+    case 'reduce-scatter':
+      // Step d reduces chunk d from every GPU onto GPU d
+      return schedule(
+        true,
+        splitChunks(1, cellCount, ranks),
+        all.map(() => range(ranks)),
+        all.map((target) =>
+          all.filter((rank) => rank !== target).map((rank) => ({ src: rank, dst: target, chunk: target, op: 'reduce' }))
+        )
+      )
+
+    case 'gather':
+      return schedule(
+        false,
+        cellChunks(ranks, cellCount),
+        all.map((rank) => chunksOfBlocks([rank], cellCount)),
+        cellSteps(all, cellCount, (rank, cell) => ({ src: rank, dst: 0, chunk: rank * cellCount + cell, op: 'copy' }))
+      )
+
+    case 'scatter':
+      return schedule(
+        false,
+        cellChunks(ranks, cellCount),
+        all.map((rank) => (rank === 0 ? chunksOfBlocks(all, cellCount) : [])),
+        cellSteps(all, cellCount, (rank, cell) => ({ src: 0, dst: rank, chunk: rank * cellCount + cell, op: 'copy' }))
+      )
+
+    case 'broadcast':
+      return schedule(
+        false,
+        cellChunks(1, cellCount),
+        all.map((rank) => (rank === 0 ? range(cellCount) : [])),
+        cellSteps(all.slice(1), cellCount, (rank, cell) => ({ src: 0, dst: rank, chunk: cell, op: 'copy' }))
+      )
+
+    case 'reduce':
+      return schedule(
+        true,
+        cellChunks(1, cellCount),
+        all.map(() => range(cellCount)),
+        cellSteps(all, cellCount, (rank, cell) => ({ src: rank, dst: 0, chunk: cell, op: 'reduce' }))
+      )
+
+    case 'all-to-all':
+      // Pairwise exchange: at step s, GPU i sends its chunk (i + s) mod N to GPU (i + s) mod N.
+      // The chunk a GPU keeps for itself needs no transfer.
+      return schedule(
+        false,
+        splitChunks(ranks, cellCount, ranks),
+        all.map((rank) => chunksOfBlocks([rank], ranks)),
+        range(ranks - 1).map((s) =>
+          all.map((rank) => {
+            const target = (rank + s + 1) % ranks
+            return { src: rank, dst: target, chunk: rank * ranks + target, op: 'copy' as const }
+          })
+        )
+      )
+  }
+}
+
+// Replay `schedule` up to `step` on the given per-rank input matrices
+export function simulateSchedule(
+  schedule: CollectiveSchedule,
+  inputs: number[][][],
+  reducer: Reducer,
+  step: number,
+  window = 1
+): Simulation {
+  const cells = inputs.map((matrix) => matrix.flat())
+  const buffers: RankBuffer[] = schedule.initial.map((held, rank) => {
+    const buffer: RankBuffer = schedule.chunks.map(() => null)
+    held.forEach((chunk) => {
+      const source = schedule.reduces ? rank : schedule.chunks[chunk].block
+      buffer[chunk] = {
+        values: schedule.chunks[chunk].cells.map((cell) => cells[source][cell]),
+        contributors: [rank],
+      }
+    })
+    return buffer
+  })
+  const payloads: Payload[] = []
+  const last = Math.max(0, Math.min(step, schedule.steps.length))
+
+  for (let s = 1; s <= last; s++) {
+    const transfers = schedule.steps[s - 1]
+    // All transfers in a step happen at once, so read every source before writing
+    const sent = transfers.map(({ src, chunk }) => buffers[src][chunk])
+
+    transfers.forEach(({ src, dst, chunk, op }, idx) => {
+      const incoming = sent[idx]
+      const current = buffers[dst][chunk]
+      if (src === dst || !incoming) return
+      if (op === 'copy' || !current) {
+        buffers[dst][chunk] = incoming
+        return
+      }
+      const contributors = [...current.contributors, ...incoming.contributors].sort((a, b) => a - b)
+      const complete = contributors.length === schedule.ranks
+      buffers[dst][chunk] = {
+        values: current.values.map((value, i) => {
+          const combined = reducer.combine(value, incoming.values[i])
+          return complete && reducer.finalize ? reducer.finalize(combined, schedule.ranks) : combined
+        }),
+        contributors,
+      }
+    })
+
+    if (s > last - window) {
+      transfers.forEach((transfer, idx) => payloads.push({ ...transfer, step: s, values: sent[idx]?.values ?? [] }))
+    }
+  }
+
+  return { buffers, payloads }
+}
+
+// A rank's copy of `block` as a rows × cols matrix, or null until it holds every cell
+export function blockMatrix(
+  schedule: CollectiveSchedule,
+  buffer: RankBuffer,
+  block: number,
+  cols: number
+): number[][] | null {
+  const cells: number[] = []
+  for (let chunk = 0; chunk < schedule.chunks.length; chunk++) {
+    const { block: owner, cells: indices } = schedule.chunks[chunk]
+    if (owner !== block) continue
+    const state = buffer[chunk]
+    if (!state) return null
+    indices.forEach((cell, i) => (cells[cell] = state.values[i]))
+  }
+  return range(schedule.cellCount / cols).map((row) => cells.slice(row * cols, (row + 1) * cols))
+}
@@ -0,0 +1,234 @@
+import type { NvidiaGpu, PrecisionKey } from '../data/nvidiaGpus'
+
+export interface MatrixDimensions {
+  rows: number
+  cols: number
+}
+
+export interface FlopsCount {
+  totalFlops: number
+  multiplications: number
+  additions: number
+}
+
+export interface FlopsResult extends FlopsCount {
+  outputDimensions: MatrixDimensions
+  batchShape: number[] // Broadcasted leading dimensions of the output
+  batchCount: number
+  perBatch: FlopsCount
+}
+
+export interface ExecutionTime {
+  seconds: number
+  milliseconds: number
+  microseconds: number
+  nanoseconds: number
+  formatted: string
+}
+
+export interface PrecisionType {
+  value: PrecisionKey
+  label: string
+  bytesPerElement: number
+  description: string
+}
+
+export const precisionTypes: PrecisionType[] = [
+  {
+    value: 'fp32',
+    label: 'FP32 (Single Precision)',
+    bytesPerElement: 4,
+    description: '32-bit floating point (default)',
+  },
+  {
+    value: 'tf32',
+    label: 'TF32 (TensorFloat-32)',
+    bytesPerElement: 4,
+    description: 'FP32 storage with 10-bit mantissa math on Tensor Cores',
+  },
+  {
+    value: 'fp16',
+    label: 'FP16 (Half Precision)',
+    bytesPerElement: 2,
+    description: '16-bit floating point',
+  },
+  {
+    value: 'bf16',
+    label: 'BF16 (BFloat16)',
+    bytesPerElement: 2,
+    description: 'Brain Float 16-bit',
+  },
+  {
+    value: 'fp8',
+    label: 'FP8 (E4M3/E5M2)',
+    bytesPerElement: 1,
+    description: '8-bit floating point (Ada and Hopper Tensor Cores)',
+  },
+  {
+    value: 'int8',
+    label: 'INT8 (8-bit Integer)',
+    bytesPerElement: 1,
+    description: '8-bit integer quantization',
+  },
+  {
+    value: 'int4',
+    label: 'INT4 (4-bit Integer)',
+    bytesPerElement: 0.5,
+    description: '4-bit integer quantization',
+  },
+  {
+    value: 'fp64',
+    label: 'FP64 (Double Precision)',
+    bytesPerElement: 8,
+    description: '64-bit floating point',
+  },
+]
+
+export type ExecutionUnit = 'auto' | 'tensor' | 'cuda'
+
+// Get peak TFLOPS for a precision from the GPU's throughput table.
+// Returns null when the precision is not supported on the requested units.
+export function getAdjustedTflops(
+  gpu: NvidiaGpu,
+  precision: PrecisionType,
+  unit: ExecutionUnit = 'auto',
+  sparse = false
+): number | null {
+  const peak = gpu.peakThroughput[precision.value]
+  if (!peak) return null
+
+  const tensor = sparse ? peak.tensorCoreSparse : peak.tensorCore
+  switch (unit) {
+    case 'tensor':
+      return tensor ?? null
+    case 'cuda':
+      return sparse ? null : peak.cudaCore ?? null
+    default:
+      // Prefer Tensor Cores, fall back to CUDA cores for dense math
+      return tensor ?? (sparse ? null : peak.cudaCore ?? null)
+  }
+}
+
+// Broadcast batch dimensions right-aligned, following torch.matmul semantics
+export function broadcastBatchDims(batchA: number[], batchB: number[]): number[] | null {
+  const rank = Math.max(batchA.length, batchB.length)
+  const shape: number[] = []
+  for (let i = 0; i < rank; i++) {
+    const a = batchA[batchA.length - rank + i] ?? 1
+    const b = batchB[batchB.length - rank + i] ?? 1
+    if (a !== b && a !== 1 && b !== 1) {
+      return null
+    }
+    shape.push(Math.max(a, b))
+  }
+  return shape
+}
+
+export function product(dims: number[]): number {
+  return dims.reduce((acc, dim) => acc * dim, 1)
+}
+
+export function calculateFlops(
+  matrixA: MatrixDimensions,
+  matrixB: MatrixDimensions,
+  batchA: number[] = [],
+  batchB: number[] = []
+): FlopsResult | null {
+  // Check if matrix multiplication is possible
+  if (matrixA.cols !== matrixB.rows) {
+    return null
+  }
+
+  const batchShape = broadcastBatchDims(batchA, batchB)
+  if (!batchShape) {
+    return null
+  }
+
+  const m = matrixA.rows
+  const n = matrixA.cols // same as matrixB.rows
+  const p = matrixB.cols
+
+  // Output matrix dimensions
+  const outputDimensions: MatrixDimensions = {
+    rows: m,
+    cols: p,
+  }
+
+  // For each element in the output matrix (m × p elements):
+  // - We need n multiplications
+  // - We need (n - 1) additions
+  const perBatchMultiplications = m * p * n
+  const perBatchAdditions = m * p * (n - 1)
+  const perBatch: FlopsCount = {
+    totalFlops: perBatchMultiplications + perBatchAdditions,
+    multiplications: perBatchMultiplications,
+    additions: perBatchAdditions,
+  }
+
+  // Every broadcasted batch entry is an independent GEMM
+  const batchCount = product(batchShape)
+
+  return {
+    totalFlops: perBatch.totalFlops * batchCount,
+    multiplications: perBatch.multiplications * batchCount,
+    additions: perBatch.additions * batchCount,
+    outputDimensions,
+    batchShape,
+    batchCount,
+    perBatch,
+  }
+}
+
+export function formatNumber(num: number): string {
+  if (num >= 1e15) {
+    return num.toExponential(2)
+  }
+  if (num >= 1e12) {
+    return (num / 1e12).toFixed(2) + 'T'
+  }
+  if (num >= 1e9) {
+    return (num / 1e9).toFixed(2) + 'B'
+  }
+  if (num >= 1e6) {
+    return (num / 1e6).toFixed(2) + 'M'
+  }
+  if (num >= 1e3) {
+    return (num / 1e3).toFixed(2) + 'K'
+  }
+  return num.toString()
+}
+
+export function formatExecutionTime(seconds: number): ExecutionTime {
+  const milliseconds = seconds * 1000
+  const microseconds = milliseconds * 1000
+  const nanoseconds = microseconds * 1000
+
+  // Format time in the most appropriate unit
+  let formatted: string
+  if (seconds >= 1) {
+    formatted = `${seconds.toFixed(6)} s`
+  } else if (milliseconds >= 1) {
+    formatted = `${milliseconds.toFixed(6)} ms`
+  } else if (microseconds >= 1) {
+    formatted = `${microseconds.toFixed(6)} μs`
+  } else {
+    formatted = `${nanoseconds.toFixed(3)} ns`
+  }
+
+  return {
+    seconds,
+    milliseconds,
+    microseconds,
+    nanoseconds,
+    formatted,
+  }
+}
+
+export function calculateExecutionTime(
+  totalFlops: number,
+  adjustedTflops: number
+): ExecutionTime {
+  // GPU TFLOPS is in TeraFLOPS (10^12 operations per second)
+  // Time in seconds = Total FLOPs / (Adjusted GPU TFLOPS * 10^12)
+  return formatExecutionTime(totalFlops / (adjustedTflops * 1e12))
+}
@@ -0,0 +1,178 @@
+export type RoutingDistribution = 'uniform' | 'zipf' | 'custom'
+
+export interface MoeOptions {
+  experts: number
+  topK: number
+  tokens: number // Per batch, spread evenly over the EP group
+  epDegree: number // GPUs in the expert-parallel group
+  capacityFactor: number
+  hiddenSize: number
+  distribution: RoutingDistribution
+  zipfExponent: number
+  customWeights: number[] // Relative router preference per expert, for the custom distribution
+  seed: number
+}
+
+export interface ExpertLoad {
+  expert: number
+  gpu: number
+  routed: number // Token assignments the router sent here
+  processed: number // Up to the expert's capacity
+  dropped: number
+}
+
+export interface GpuLoad {
+  gpu: number
+  experts: number[]
+  processed: number
+  dispatchSent: number // Bytes this GPU sends to other GPUs in the dispatch all-to-all
+  dispatchReceived: number
+  straggler: boolean
+}
+
+export interface MoeResult {
+  capacity: number // Token assignments each expert can take
+  experts: ExpertLoad[]
+  gpus: GpuLoad[]
+  assignments: number // tokens × top-k
+  droppedAssignments: number
+  droppedTokens: number // Tokens that lost every one of their experts and only take the residual path
+  imbalance: number // Busiest GPU over the mean
+  maxAllToAllBytes: number // Largest per-GPU send in one all-to-all (dispatch or combine)
+}
+
+export const MOE_ACTIVATION_BYTES = 2 // BF16 hidden states
+const STRAGGLER_THRESHOLD = 1.1 // Load over the mean at which a GPU holds the others up
+export const MOE_MAX_EXPERTS = 1024
+const MAX_TOKENS = 65536
+
+export function moeOptionsError(options: MoeOptions): string | null {
+  const { experts, topK, tokens, epDegree, capacityFactor, hiddenSize, distribution } = options
+  if ([experts, topK, tokens, epDegree, hiddenSize].some((value) => !Number.isInteger(value) || value < 1)) {
+    return 'Experts, top-k, tokens, EP degree and hidden size must be positive whole numbers.'
+  }
+  if (capacityFactor <= 0) return 'The capacity factor must be positive.'
+  if (topK > experts) return `Top-${topK} routing needs at least ${topK} experts.`
+  if (experts % epDegree !== 0) return `${experts} experts can't be split evenly across ${epDegree} GPUs.`
+  if (tokens > MAX_TOKENS) return `Keep the batch to at most ${MAX_TOKENS.toLocaleString()} tokens.`
+  if (experts > MOE_MAX_EXPERTS) return `Keep to at most ${MOE_MAX_EXPERTS.toLocaleString()} experts.`
+  if (distribution === 'custom' && routingWeights(options).every((weight) => weight === 0)) {
+    return 'At least one expert needs a router weight above 0.'
+  }
+  return null
+}
+
+// Router preference per expert before normalization
+export function routingWeights(options: MoeOptions): number[] {
+  const { experts, distribution, zipfExponent, customWeights } = options
+  return Array.from({ length: experts }, (_, expert) => {
+    if (distribution === 'zipf') return 1 / (expert + 1) ** zipfExponent
+    if (distribution === 'custom') return Math.max(0, customWeights[expert] ?? 1)
+    return 1
+  })
+}
+
+// Small seeded PRNG (mulberry32) so a routing stays put until the user resamples
+function random(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function simulateMoeRouting(options: MoeOptions): MoeResult {
+  const { experts, topK, tokens, epDegree, capacityFactor, hiddenSize, seed } = options
+  const next = random(seed)
+  const weights = routingWeights(options)
+  const cumulative: number[] = []
+  weights.reduce((sum, weight, idx) => (cumulative[idx] = sum + weight), 0)
+  const total = cumulative[experts - 1]
+
+  // Sample an expert in proportion to its weight
+  const sample = () => {
+    const target = next() * total
+    let lo = 0
+    let hi = experts - 1
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (cumulative[mid] > target) hi = mid
+      else lo = mid + 1
+    }
+    return lo
+  }
+
+  const expertsPerGpu = experts / epDegree
+  const gpuOf = (expert: number) => Math.floor(expert / expertsPerGpu)
+  const tokensPerGpu = Math.ceil(tokens / epDegree)
+  // GShard-style capacity: the factor times an even share of the assignments
+  const capacity = Math.ceil((capacityFactor * tokens * topK) / experts)
+
+  const routed = new Array<number>(experts).fill(0)
+  const processed = new Array<number>(experts).fill(0)
+  const sent = new Array<number>(epDegree).fill(0)
+  const received = new Array<number>(epDegree).fill(0)
+  let droppedTokens = 0
+
+  for (let token = 0; token < tokens; token++) {
+    // Top-k picks distinct experts; give up on duplicates after a few tries when weights are very skewed
+    const chosen = new Set<number>()
+    for (let tries = 0; chosen.size < topK && tries < topK * 16; tries++) chosen.add(sample())
+    for (let expert = 0; chosen.size < topK; expert++) chosen.add(expert)
+
+    const source = Math.floor(token / tokensPerGpu)
+    let kept = 0
+    chosen.forEach((expert) => {
+      routed[expert]++
+      // Tokens past capacity are dropped before dispatch, in arrival order
+      if (processed[expert] >= capacity) return
+      processed[expert]++
+      kept++
+      const target = gpuOf(expert)
+      if (target !== source) {
+        sent[source]++
+        received[target]++
+      }
+    })
+    if (kept === 0) droppedTokens++
+  }
+
+  const tokenBytes = hiddenSize * MOE_ACTIVATION_BYTES
+  const expertLoads: ExpertLoad[] = routed.map((count, expert) => ({
+    expert,
+    gpu: gpuOf(expert),
+    routed: count,
+    processed: processed[expert],
+    dropped: count - processed[expert],
+  }))
+  const gpuProcessed = new Array<number>(epDegree).fill(0)
+  expertLoads.forEach((load) => (gpuProcessed[load.gpu] += load.processed))
+  const mean = gpuProcessed.reduce((sum, load) => sum + load, 0) / epDegree
+  const busiest = Math.max(...gpuProcessed)
+
+  const gpus: GpuLoad[] = gpuProcessed.map((load, gpu) => ({
+    gpu,
+    experts: Array.from({ length: expertsPerGpu }, (_, idx) => gpu * expertsPerGpu + idx),
+    processed: load,
+    dispatchSent: sent[gpu] * tokenBytes,
+    dispatchReceived: received[gpu] * tokenBytes,
+    straggler: epDegree > 1 && mean > 0 && load >= mean * STRAGGLER_THRESHOLD,
+  }))
+  const assignments = tokens * topK
+  const droppedAssignments = expertLoads.reduce((sum, load) => sum + load.dropped, 0)
+
+  return {
+    capacity,
+    experts: expertLoads,
+    gpus,
+    assignments,
+    droppedAssignments,
+    droppedTokens,
+    imbalance: mean > 0 ? busiest / mean : 1,
+    // Combine mirrors dispatch: each GPU sends back what it received
+    maxAllToAllBytes: Math.max(...gpus.map((gpu) => Math.max(gpu.dispatchSent, gpu.dispatchReceived))),
+  }
+}
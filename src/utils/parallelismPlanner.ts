@@ -0,0 +1,194 @@
+import { INFINIBAND_BANDWIDTH, NVSWITCH_BANDWIDTH } from '../data/topologies'
+
+export interface PlannerModel {
+  parameters: number // Total, counting every expert
+  layers: number
+  hiddenSize: number
+  seqLength: number
+  globalBatch: number // Sequences per optimizer step
+  experts: number // 1 for a dense model
+  topK: number // Experts each token is routed to
+}
+
+export interface PlannerCluster {
+  gpuCount: number
+  gpusPerNode: number
+  memoryBytes: number | null // Per GPU
+  peakTflops: number | null // Dense BF16 peak per GPU
+}
+
+export interface ParallelConfig {
+  dp: number
+  tp: number
+  pp: number
+  cp: number // Context (sequence) parallel
+  ep: number // Expert parallel, carved out of the data-parallel ranks
+}
+
+export type ParallelDimension = keyof ParallelConfig
+
+export type PlanFlag = 'out-of-memory' | 'tp-across-nodes'
+
+export interface PlanMemory {
+  weights: number
+  gradients: number
+  optimizer: number
+  activations: number
+  total: number
+}
+
+export interface ParallelPlan {
+  config: ParallelConfig
+  memory: PlanMemory // Bytes per GPU
+  comm: Record<ParallelDimension, number> // Bytes each GPU sends per step
+  commBytes: number
+  commSeconds: number
+  crossNode: ParallelDimension[] // Groups that leave the node and fall back to InfiniBand
+  microBatches: number // Per data-parallel replica, one sequence each
+  bubble: number // 1F1B pipeline bubble fraction
+  computeSeconds: number | null // At peak, without the bubble
+  stepSeconds: number | null
+  flags: PlanFlag[]
+}
+
+const WEIGHT_BYTES = 2 // BF16 weights and gradients
+const OPTIMIZER_BYTES = 12 // FP32 master weights, Adam momentum and variance
+const ACTIVATION_BYTES_PER_TOKEN = 34 // × hidden size per layer, with sequence parallelism (Korthikanti et al., 2022)
+
+function divisors(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => i + 1).filter((d) => n % d === 0)
+}
+
+// Per-GPU bytes a ring all-reduce (or reduce-scatter + all-gather) sends for a `bytes` buffer
+function allReduceBytes(bytes: number, ranks: number): number {
+  return ranks > 1 ? (2 * (ranks - 1) * bytes) / ranks : 0
+}
+
+// Split the parameter count into attention (every GPU of a TP × PP slice) and expert MLP weights,
+// assuming 4h² attention and 8h² per expert MLP in each layer
+function splitParameters(model: PlannerModel): { dense: number; expert: number } {
+  if (model.experts <= 1) return { dense: model.parameters, expert: 0 }
+  const dense = (model.parameters * 4) / (4 + 8 * model.experts)
+  return { dense, expert: model.parameters - dense }
+}
+
+// Megatron-LM rank order: TP innermost, then CP, then DP (with EP inside it), then PP.
+// A group stays inside a node when the span of ranks it covers tiles the node.
+function crossNodeGroups(config: ParallelConfig, gpusPerNode: number): ParallelDimension[] {
+  const spans: Record<ParallelDimension, number> = {
+    tp: config.tp,
+    cp: config.tp * config.cp,
+    ep: config.tp * config.cp * config.ep,
+    dp: config.tp * config.cp * config.dp,
+    pp: config.tp * config.cp * config.dp * config.pp,
+  }
+  return (Object.keys(spans) as ParallelDimension[]).filter(
+    (dim) => config[dim] > 1 && gpusPerNode % spans[dim] !== 0
+  )
+}
+
+function evaluatePlan(config: ParallelConfig, model: PlannerModel, cluster: PlannerCluster): ParallelPlan {
+  const { dp, tp, pp, cp, ep } = config
+  const { layers, hiddenSize: h, seqLength: s, globalBatch, topK } = model
+  const { dense, expert } = splitParameters(model)
+
+  // Parameters on one GPU, and how many data-parallel copies of them exist
+  const denseParams = dense / (tp * pp)
+  const expertParams = expert / (tp * pp * ep)
+  const denseReplicas = dp * cp
+  const expertReplicas = (dp * cp) / ep
+
+  // 1F1B keeps up to `pp` micro-batches in flight on the first stage, each holding layers / pp layers
+  const microBatches = globalBatch / dp
+  const inFlight = Math.min(microBatches, pp)
+  const activations = (ACTIVATION_BYTES_PER_TOKEN * s * h * (layers / pp) * inFlight) / (tp * cp)
+
+  const memory = {
+    weights: (denseParams + expertParams) * WEIGHT_BYTES,
+    gradients: (denseParams + expertParams) * WEIGHT_BYTES,
+    // Distributed optimizer: states are sharded across the data-parallel copies
+    optimizer: (denseParams / denseReplicas + expertParams / expertReplicas) * OPTIMIZER_BYTES,
+    activations,
+    total: 0,
+  }
+  memory.total = memory.weights + memory.gradients + memory.optimizer + memory.activations
+
+  // One micro-batch's activations for this CP rank, and the layer-micro-batches this stage runs
+  const activationBytes = (s * h * WEIGHT_BYTES) / cp
+  const layerPasses = (layers / pp) * microBatches
+  const comm: Record<ParallelDimension, number> = {
+    // Two all-gather / reduce-scatter pairs forward and two backward per layer
+    tp: 4 * allReduceBytes(activationBytes, tp) * layerPasses,
+    // Ring attention passes K and V round the CP ranks forward, then K, V and their gradients backward
+    cp: cp > 1 ? (3 * (cp - 1) * 2 * activationBytes * layerPasses) / tp : 0,
+    // Activations forward and their gradients backward across each stage boundary
+    pp: pp > 1 ? (2 * activationBytes * microBatches) / tp : 0,
+    // Token dispatch and combine all-to-alls, forward and backward
+    ep: ep > 1 ? (4 * ((ep - 1) / ep) * topK * activationBytes * layerPasses) / tp : 0,
+    dp:
+      allReduceBytes(denseParams * WEIGHT_BYTES, denseReplicas) +
+      allReduceBytes(expertParams * WEIGHT_BYTES, expertReplicas),
+  }
+
+  const crossNode = crossNodeGroups(config, cluster.gpusPerNode)
+  const commBytes = Object.values(comm).reduce((sum, bytes) => sum + bytes, 0)
+  // No overlap with compute; one NIC per GPU once a group leaves the node
+  const commSeconds = (Object.keys(comm) as ParallelDimension[]).reduce(
+    (sum, dim) => sum + comm[dim] / ((crossNode.includes(dim) ? INFINIBAND_BANDWIDTH : NVSWITCH_BANDWIDTH) * 1e9),
+    0
+  )
+
+  const bubble = (pp - 1) / (microBatches + pp - 1)
+  // 6 FLOPs per active parameter per token
+  const activeParameters = dense + (expert * Math.min(topK, model.experts)) / model.experts
+  const computeSeconds =
+    cluster.peakTflops !== null
+      ? (6 * activeParameters * globalBatch * s) / (cluster.gpuCount * cluster.peakTflops * 1e12)
+      : null
+
+  const flags: PlanFlag[] = []
+  if (cluster.memoryBytes !== null && memory.total > cluster.memoryBytes) flags.push('out-of-memory')
+  if (crossNode.includes('tp')) flags.push('tp-across-nodes')
+
+  return {
+    config,
+    memory,
+    comm,
+    commBytes,
+    commSeconds,
+    crossNode,
+    microBatches,
+    bubble,
+    computeSeconds,
+    stepSeconds: computeSeconds !== null ? computeSeconds / (1 - bubble) + commSeconds : null,
+    flags,
+  }
+}
+
+// Every DP × TP × PP × CP (× EP) factorization of the GPU count that the model shape allows,
+// best first: configurations that fit in memory, then by estimated step time
+export function planParallelism(model: PlannerModel, cluster: PlannerCluster): ParallelPlan[] {
+  const plans: ParallelPlan[] = []
+
+  divisors(cluster.gpuCount).forEach((tp) => {
+    if (model.hiddenSize % tp !== 0) return
+    divisors(cluster.gpuCount / tp).forEach((pp) => {
+      if (model.layers % pp !== 0) return
+      divisors(cluster.gpuCount / (tp * pp)).forEach((cp) => {
+        if (model.seqLength % cp !== 0) return
+        const dp = cluster.gpuCount / (tp * pp * cp)
+        if (model.globalBatch % dp !== 0) return
+        const expertDegrees = model.experts > 1 ? divisors(dp).filter((ep) => model.experts % ep === 0) : [1]
+        expertDegrees.forEach((ep) => plans.push(evaluatePlan({ dp, tp, pp, cp, ep }, model, cluster)))
+      })
+    })
+  })
+
+  const rank = (plan: ParallelPlan) => (plan.flags.includes('out-of-memory') ? 1 : 0)
+  return plans.sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      (a.stepSeconds ?? a.commSeconds) - (b.stepSeconds ?? b.commSeconds) ||
+      a.memory.total - b.memory.total
+  )
+}
@@ -0,0 +1,236 @@
+export type PipelineScheduleKind = 'gpipe' | '1f1b' | 'interleaved' | 'zero-bubble'
+
+// F: forward, B: backward (input gradients, plus weight gradients unless split), W: weight gradients
+export type PipelineOpKind = 'F' | 'B' | 'W'
+
+export interface PipelineOptions {
+  stages: number // One stage per GPU
+  microBatches: number
+  forwardTime: number // Per stage and micro-batch
+  backwardTime: number // Per stage and micro-batch, including weight gradients
+  virtualStages?: number // Model chunks per GPU, interleaved 1F1B only
+}
+
+export interface PipelineOp {
+  kind: PipelineOpKind
+  gpu: number
+  microBatch: number
+  chunk: number // Model chunk along the whole pipeline; equals gpu unless interleaved
+  start: number
+  end: number
+}
+
+export interface PipelineResult {
+  ops: PipelineOp[]
+  totalTime: number
+  bubbleFraction: number // Idle share of stages × totalTime
+  peakInFlight: number[] // Per GPU, in micro-batches of a full stage's activations
+}
+
+export const pipelineScheduleLabels: Record<PipelineScheduleKind, string> = {
+  gpipe: 'GPipe',
+  '1f1b': '1F1B',
+  interleaved: 'Interleaved 1F1B',
+  'zero-bubble': 'Zero Bubble (ZB-H1)',
+}
+
+interface PendingOp {
+  kind: PipelineOpKind
+  gpu: number
+  microBatch: number
+  chunk: number
+  duration: number
+  deps: string[]
+}
+
+interface GpuState {
+  time: number
+  next: number // Position in the GPU's op order
+  waiting: boolean // Blocked until another GPU starts an op
+}
+
+const opKey = (kind: PipelineOpKind, microBatch: number, chunk: number) => `${kind}${microBatch}:${chunk}`
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i)
+}
+
+// Why a schedule can't run with these options, or null if it can
+export function pipelineScheduleError(kind: PipelineScheduleKind, options: PipelineOptions): string | null {
+  if (kind === 'interleaved' && options.microBatches % options.stages !== 0) {
+    return `Interleaved 1F1B needs the micro-batch count to be a multiple of the ${options.stages} stages.`
+  }
+  return null
+}
+
+// 1F1B order for one GPU: warm up with forwards, alternate one forward and one backward, then drain
+function oneFOneBOrder(forwards: string[], backwards: string[], warmup: number): string[] {
+  const count = Math.min(warmup, forwards.length)
+  const order = forwards.slice(0, count)
+  forwards.slice(count).forEach((forward, i) => order.push(forward, backwards[i]))
+  return [...order, ...backwards.slice(forwards.length - count)]
+}
+
+// Run each GPU's ops in the given order. An op starts once its GPU is free and every op it
+// depends on has finished; point-to-point transfers are treated as free.
+function simulate(pending: PendingOp[], orders: string[][]): PipelineOp[] {
+  const byKey = new Map(pending.map((op) => [opKey(op.kind, op.microBatch, op.chunk), op]))
+  const finished = new Map<string, number>()
+  const states: GpuState[] = orders.map(() => ({ time: 0, next: 0, waiting: false }))
+  const ops: PipelineOp[] = []
+
+  for (;;) {
+    const active = range(orders.length).filter((g) => states[g].next < orders[g].length)
+    if (active.length === 0) return ops
+
+    // Always advance the GPU that is furthest behind, so every op that can finish by then already has.
+    // On a tie, GPUs that are still waiting go last.
+    const gpu = active.reduce((best, g) => {
+      const [a, b] = [states[g], states[best]]
+      return a.time < b.time || (a.time === b.time && b.waiting && !a.waiting) ? g : best
+    })
+    const state = states[gpu]
+    const op = byKey.get(orders[gpu][state.next])!
+
+    if (!op.deps.every((dep) => (finished.get(dep) ?? Infinity) <= state.time)) {
+      const later = [...finished.values()].filter((end) => end > state.time)
+      if (later.length > 0) state.time = Math.min(...later)
+      else if (active.some((g) => g !== gpu && !states[g].waiting && states[g].time === state.time)) state.waiting = true
+      else throw new Error('Pipeline schedule deadlocked')
+      continue
+    }
+
+    const end = state.time + op.duration
+    ops.push({ kind: op.kind, gpu, microBatch: op.microBatch, chunk: op.chunk, start: state.time, end })
+    finished.set(orders[gpu][state.next], end)
+    states.forEach((other) => (other.waiting = false))
+    state.time = end
+    state.next++
+  }
+}
+
+// Peak number of micro-batch chunks whose activations a GPU holds at once
+function peakInFlight(ops: PipelineOp[], gpu: number, releasedBy: PipelineOpKind): number {
+  let held = 0
+  let peak = 0
+  ops
+    .filter((op) => op.gpu === gpu)
+    .sort((a, b) => a.start - b.start)
+    .forEach((op) => {
+      if (op.kind === 'F') peak = Math.max(peak, ++held)
+      if (op.kind === releasedBy) held--
+    })
+  return peak
+}
+
+export function buildPipelineSchedule(kind: PipelineScheduleKind, options: PipelineOptions): PipelineResult {
+  const { stages, microBatches, forwardTime, backwardTime } = options
+  const virtual = kind === 'interleaved' ? options.virtualStages ?? 2 : 1
+  const chunks = stages * virtual
+  const splitBackward = kind === 'zero-bubble'
+  const releasedBy: PipelineOpKind = splitBackward ? 'W' : 'B'
+  const microBatchIds = range(microBatches)
+
+  // Chunk c runs on GPU c mod stages, so interleaving loops the model round the GPUs `virtual` times
+  const pending: PendingOp[] = range(chunks).flatMap((chunk) =>
+    microBatchIds.flatMap((microBatch) => {
+      const gpu = chunk % stages
+      const forward: PendingOp = {
+        kind: 'F',
+        gpu,
+        microBatch,
+        chunk,
+        duration: forwardTime / virtual,
+        deps: chunk > 0 ? [opKey('F', microBatch, chunk - 1)] : [],
+      }
+      const backward: PendingOp = {
+        kind: 'B',
+        gpu,
+        microBatch,
+        chunk,
+        duration: (splitBackward ? backwardTime / 2 : backwardTime) / virtual,
+        deps: [opKey('F', microBatch, chunk), ...(chunk < chunks - 1 ? [opKey('B', microBatch, chunk + 1)] : [])],
+      }
+      if (!splitBackward) return [forward, backward]
+      const weight: PendingOp = {
+        kind: 'W',
+        gpu,
+        microBatch,
+        chunk,
+        duration: backwardTime / 2,
+        deps: [opKey('B', microBatch, chunk)],
+      }
+      return [forward, backward, weight]
+    })
+  )
+
+  let orders: string[][]
+  switch (kind) {
+    case 'gpipe':
+      // Every forward, then every backward
+      orders = range(stages).map((gpu) => [
+        ...microBatchIds.map((mb) => opKey('F', mb, gpu)),
+        ...microBatchIds.map((mb) => opKey('B', mb, gpu)),
+      ])
+      break
+
+    case '1f1b':
+      // Stage s warms up with stages - s - 1 forwards, capping its in-flight micro-batches at stages - s
+      orders = range(stages).map((gpu) =>
+        oneFOneBOrder(
+          microBatchIds.map((mb) => opKey('F', mb, gpu)),
+          microBatchIds.map((mb) => opKey('B', mb, gpu)),
+          stages - gpu - 1
+        )
+      )
+      break
+
+    case 'interleaved':
+      // Megatron-LM order: groups of `stages` micro-batches sweep the GPU's chunks front to back
+      // for forwards and back to front for backwards
+      orders = range(stages).map((gpu) => {
+        const sweep = (opKind: PipelineOpKind, local: (v: number) => number) =>
+          range(microBatches / stages).flatMap((group) =>
+            range(virtual).flatMap((v) =>
+              range(stages).map((i) => opKey(opKind, group * stages + i, local(v) * stages + gpu))
+            )
+          )
+        return oneFOneBOrder(
+          sweep('F', (v) => v),
+          sweep('B', (v) => virtual - 1 - v),
+          (stages - gpu - 1) * 2 + (virtual - 1) * stages
+        )
+      })
+      break
+
+    case 'zero-bubble':
+      // ZB-H1: the 1F1B order, with stage s running each weight-gradient op s backwards late.
+      // Later stages push their weight gradients into the cool-down, so backwards reach the first
+      // stage sooner, and every stage holds at most `stages` micro-batches like the first 1F1B stage.
+      orders = range(stages).map((gpu) => {
+        const weights = microBatchIds.map((mb) => opKey('W', mb, gpu))
+        let backwards = 0
+        const order = oneFOneBOrder(
+          microBatchIds.map((mb) => opKey('F', mb, gpu)),
+          microBatchIds.map((mb) => opKey('B', mb, gpu)),
+          stages - gpu - 1
+        ).flatMap((key) => {
+          if (!key.startsWith('B') || ++backwards <= gpu) return [key]
+          return [key, weights[backwards - gpu - 1]]
+        })
+        return [...order, ...weights.slice(Math.max(0, microBatches - gpu))]
+      })
+      break
+  }
+
+  const ops = simulate(pending, orders)
+  const totalTime = Math.max(0, ...ops.map((op) => op.end))
+  const busy = ops.reduce((sum, op) => sum + op.end - op.start, 0)
+
+  return {
+    ops,
+    totalTime,
+    bubbleFraction: totalTime > 0 ? 1 - busy / (stages * totalTime) : 0,
+    peakInFlight: range(stages).map((gpu) => peakInFlight(ops, gpu, releasedBy) / virtual),
+  }
+}
@@ -0,0 +1,25 @@
+import { getGpusBySeries, type NvidiaGpu } from '../data/nvidiaGpus'
+import type { SelectOption } from '../components/MaterialSelect'
+import { precisionTypes } from './flops'
+
+// GPU catalog as MaterialSelect options, grouped by series
+export function getGpuOptions(customGpus?: NvidiaGpu[]): SelectOption[] {
+  const options: SelectOption[] = []
+  Object.entries(getGpusBySeries(customGpus)).forEach(([series, gpus]) => {
+    gpus.forEach((gpu) => {
+      options.push({
+        value: gpu.name,
+        label: `${gpu.name} (${gpu.tflops} TFLOPS${gpu.memory ? `, ${gpu.memory}` : ''})`,
+        group: series,
+      })
+    })
+  })
+  return options
+}
+
+export function getPrecisionOptions(): SelectOption[] {
+  return precisionTypes.map((precision) => ({
+    value: precision.value,
+    label: precision.label,
+  }))
+}
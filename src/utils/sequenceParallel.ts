@@ -0,0 +1,116 @@
+export type SequenceParallelApproach = 'megatron-sp' | 'ring-attention' | 'ulysses'
+
+export interface SequenceParallelOptions {
+  seqLength: number
+  heads: number
+  hiddenSize: number
+  degree: number // GPUs sharing one sequence
+}
+
+// One step of a layer, with what each GPU holds while it runs
+export interface SequenceParallelPhase {
+  label: string
+  holds: string
+  comm?: string
+}
+
+export interface SequenceParallelEstimate {
+  approach: SequenceParallelApproach
+  error: string | null
+  commBytes: number // Sent per GPU per layer, forward and backward
+  activationBytes: number // Kept per GPU per layer for the backward pass
+  phases: SequenceParallelPhase[]
+}
+
+export const SEQUENCE_ACTIVATION_BYTES = 2 // BF16
+
+export const sequenceParallelLabels: Record<SequenceParallelApproach, string> = {
+  'megatron-sp': 'Megatron SP',
+  'ring-attention': 'Ring Attention',
+  ulysses: 'DeepSpeed Ulysses',
+}
+
+export const sequenceParallelApproaches: SequenceParallelApproach[] = ['megatron-sp', 'ring-attention', 'ulysses']
+
+export function sequenceParallelError(
+  approach: SequenceParallelApproach,
+  { seqLength, heads, hiddenSize, degree }: SequenceParallelOptions
+): string | null {
+  if ([seqLength, heads, hiddenSize, degree].some((value) => !Number.isInteger(value) || value < 1)) {
+    return 'Every size must be a positive whole number.'
+  }
+  if (hiddenSize % heads !== 0) return `Hidden size ${hiddenSize} is not divisible by ${heads} heads.`
+  if (seqLength % degree !== 0) return `${seqLength} tokens can't be split evenly across ${degree} GPUs.`
+  // Megatron SP rides on tensor parallelism, which splits heads; Ulysses hands each GPU whole heads
+  if (approach !== 'ring-attention' && heads % degree !== 0) {
+    return `${heads} heads can't be split evenly across ${degree} GPUs.`
+  }
+  return null
+}
+
+// Activation bytes per layer follow Korthikanti et al. (2022) for 16-bit activations: 34·s·h for everything
+// but the attention scores, plus 5·a·s² for the scores, softmax and dropout mask of the heads and tokens
+// a GPU attends over
+export function estimateSequenceParallel(
+  approach: SequenceParallelApproach,
+  options: SequenceParallelOptions
+): SequenceParallelEstimate {
+  const { seqLength: s, heads: a, hiddenSize: h, degree: d } = options
+  const error = sequenceParallelError(approach, options)
+  if (error) return { approach, error, commBytes: 0, activationBytes: 0, phases: [] }
+
+  const layer = s * h * SEQUENCE_ACTIVATION_BYTES // One full [s, h] activation
+  const local = layer / d // This GPU's slice of it
+  const linear = (34 * s * h) / d
+
+  if (approach === 'megatron-sp') {
+    // Per block, an all-gather and a reduce-scatter forward; backward all-gathers the gradient and X again
+    // and reduce-scatters dX, as in the tensor parallelism walkthrough. Each sends (d - 1) / d of [s, h].
+    return {
+      approach,
+      error,
+      commBytes: (10 * (d - 1) * layer) / d,
+      activationBytes: linear + (5 * a * s * s) / d,
+      phases: [
+        { label: 'LayerNorm, dropout, residual', holds: `${s / d} tokens × ${h}` },
+        { label: 'Enter attention / MLP', holds: `${s} tokens × ${h}`, comm: 'All-gather' },
+        { label: 'Attention and MLP GEMMs', holds: `${a / d} heads, 1/${d} of the FFN, all ${s} tokens` },
+        { label: 'Leave attention / MLP', holds: `${s / d} tokens × ${h}`, comm: 'Reduce-scatter' },
+      ],
+    }
+  }
+
+  if (approach === 'ring-attention') {
+    // K and V go round the ring d - 1 times forward; backward sends K, V and their gradients
+    return {
+      approach,
+      error,
+      commBytes: 3 * (d - 1) * 2 * local,
+      // Scores of the local queries against every key are kept for backward, plus K and V blocks in flight
+      activationBytes: linear + 5 * a * (s / d) * s + 2 * 2 * local,
+      phases: [
+        { label: 'QKV projection', holds: `${s / d} tokens × ${a} heads` },
+        {
+          label: `Attention, ${d} rounds`,
+          holds: `Q for ${s / d} tokens, one K/V block of ${s / d} at a time`,
+          comm: d > 1 ? 'Send K/V to the next GPU' : undefined,
+        },
+        { label: 'Output projection and MLP', holds: `${s / d} tokens × ${h}` },
+      ],
+    }
+  }
+
+  // Ulysses: all-to-alls of Q, K and V in and of the output back, each sending (d - 1) / d of the local slice
+  return {
+    approach,
+    error,
+    commBytes: (8 * (d - 1) * local) / d,
+    activationBytes: linear + 5 * (a / d) * s * s,
+    phases: [
+      { label: 'QKV projection', holds: `${s / d} tokens × ${a} heads` },
+      { label: 'Sequence → heads', holds: `${s} tokens × ${a / d} heads`, comm: 'All-to-all Q, K, V' },
+      { label: 'Attention on local heads', holds: `${s} tokens × ${a / d} heads` },
+      { label: 'Heads → sequence', holds: `${s / d} tokens × ${h}`, comm: 'All-to-all output' },
+    ],
+  }
+}
@@ -0,0 +1,274 @@
+export type TensorParallelBlock = 'mlp' | 'attention'
+
+export type TensorParallelPass = 'forward' | 'backward'
+
+// Collective across the TP group; Megatron's f and g operators
+export type TensorParallelComm = 'all-reduce' | 'all-gather' | 'reduce-scatter'
+
+export interface TensorParallelOptions {
+  hiddenSize: number
+  ffnSize: number
+  heads: number
+  batchSize: number
+  seqLength: number
+  tp: number
+  sequenceParallel: boolean
+}
+
+// One tensor as a single GPU holds it. `split` names the dimension cut across the TP group, if any.
+export interface ShardTensor {
+  name: string
+  shape: number[]
+  split?: number
+  partial?: boolean // Every GPU holds a partial sum of the full tensor
+}
+
+export interface WeightSplit {
+  name: string
+  shape: [number, number] // Full, unsharded
+  split: 'columns' | 'rows'
+}
+
+export interface TensorParallelStep {
+  title: string
+  description: string
+  tensors: ShardTensor[]
+  weight?: WeightSplit
+  comm?: TensorParallelComm
+  commShape?: number[] // Full tensor the collective produces or consumes
+}
+
+export const BF16_BYTES = 2
+
+// Why the shapes can't be split evenly, or null if they can
+export function tensorParallelError(options: TensorParallelOptions): string | null {
+  const { hiddenSize, ffnSize, heads, batchSize, seqLength, tp, sequenceParallel } = options
+  if ([hiddenSize, ffnSize, heads, batchSize, seqLength, tp].some((value) => !Number.isInteger(value) || value < 1)) {
+    return 'Every size must be a positive whole number.'
+  }
+  if (hiddenSize % heads !== 0) return `Hidden size ${hiddenSize} is not divisible by ${heads} heads.`
+  if (heads % tp !== 0) return `${heads} attention heads can't be split evenly across ${tp} GPUs.`
+  if (ffnSize % tp !== 0) return `FFN size ${ffnSize} can't be split evenly across ${tp} GPUs.`
+  if (sequenceParallel && seqLength % tp !== 0) {
+    return `Sequence parallelism needs the sequence length ${seqLength} to split evenly across ${tp} GPUs.`
+  }
+  return null
+}
+
+export function tensorParallelSteps(
+  block: TensorParallelBlock,
+  pass: TensorParallelPass,
+  options: TensorParallelOptions
+): TensorParallelStep[] {
+  const { hiddenSize: h, ffnSize, heads, batchSize: b, seqLength: s, tp: t, sequenceParallel: sp } = options
+  // Activations are [tokens, h] with the batch's sequences laid end to end
+  const n = b * s
+  // The input and output of the block: sequence-sharded with SP, replicated without
+  const edge: ShardTensor = sp ? { name: 'X', shape: [n / t, h], split: 0 } : { name: 'X', shape: [n, h] }
+  const full = [n, h]
+
+  // f before the first GEMM and g after the second, following Megatron-LM
+  const enter: TensorParallelStep = sp
+    ? {
+        title: 'g: all-gather along the sequence',
+        description:
+          'LayerNorm and dropout ran on each GPU’s slice of the tokens. Gather the slices so every GPU has the full input for the column-parallel GEMM.',
+        tensors: [edge, { name: 'X', shape: full }],
+        comm: 'all-gather',
+        commShape: full,
+      }
+    : {
+        title: 'f: identity',
+        description: 'Every GPU already holds the full input X, so the forward pass needs no communication here.',
+        tensors: [edge],
+      }
+  const exit = (name: string): TensorParallelStep =>
+    sp
+      ? {
+          title: 'ḡ: reduce-scatter along the sequence',
+          description: `Sum the partial ${name} across GPUs and leave each GPU with its slice of the tokens for the following dropout, residual add and LayerNorm.`,
+          tensors: [{ name, shape: full, partial: true }, { name, shape: [n / t, h], split: 0 }],
+          comm: 'reduce-scatter',
+          commShape: full,
+        }
+      : {
+          title: 'g: all-reduce',
+          description: `Sum the partial ${name} so every GPU has the full output for dropout and the residual add.`,
+          tensors: [{ name, shape: full, partial: true }, { name, shape: full }],
+          comm: 'all-reduce',
+          commShape: full,
+        }
+
+  // Backward mirrors forward: the conjugate of f and g swap roles
+  const enterBackward = (name: string): TensorParallelStep =>
+    sp
+      ? {
+          title: 'ḡ backward: all-gather the gradient',
+          description: `The gradient d${name} arrives sliced along the sequence. Gather it so the row-parallel GEMM sees every token.`,
+          tensors: [{ name: `d${name}`, shape: [n / t, h], split: 0 }, { name: `d${name}`, shape: full }],
+          comm: 'all-gather',
+          commShape: full,
+        }
+      : {
+          title: 'g backward: identity',
+          description: `Every GPU already holds the full gradient d${name}; the all-reduce of the forward pass needs no partner here.`,
+          tensors: [{ name: `d${name}`, shape: full }],
+        }
+  const exitBackward: TensorParallelStep = sp
+    ? {
+        title: 'g backward: reduce-scatter dX',
+        description:
+          'Each GPU computed dX from its own columns, a partial sum. Reduce-scatter it back to one slice of tokens per GPU.',
+        tensors: [{ name: 'dX', shape: full, partial: true }, { name: 'dX', shape: [n / t, h], split: 0 }],
+        comm: 'reduce-scatter',
+        commShape: full,
+      }
+    : {
+        title: 'f backward: all-reduce dX',
+        description:
+          'Each GPU computed dX from its own columns, a partial sum. All-reduce it so every GPU has the full input gradient.',
+        tensors: [{ name: 'dX', shape: full, partial: true }, { name: 'dX', shape: full }],
+        comm: 'all-reduce',
+        commShape: full,
+      }
+  // With SP the gathered X is freed after the forward pass and gathered again for the weight gradient
+  const regather: TensorParallelStep[] = sp
+    ? [
+        {
+          title: 'All-gather X again',
+          description:
+            'The weight gradient needs the full input, which SP did not keep. Megatron overlaps this all-gather with the dX GEMM.',
+          tensors: [edge, { name: 'X', shape: full }],
+          comm: 'all-gather',
+          commShape: full,
+        },
+      ]
+    : []
+
+  if (block === 'mlp') {
+    const f = ffnSize / t
+    const a: WeightSplit = { name: 'A', shape: [h, ffnSize], split: 'columns' }
+    const b: WeightSplit = { name: 'B', shape: [ffnSize, h], split: 'rows' }
+
+    if (pass === 'forward') {
+      return [
+        enter,
+        {
+          title: 'Column-parallel GEMM: Y = GeLU(X·A)',
+          description: `A is split by columns, so each GPU produces ${f} of the ${ffnSize} FFN features for every token. GeLU is element-wise and runs locally.`,
+          tensors: [
+            { name: 'X', shape: full },
+            { name: 'A', shape: [h, f], split: 1 },
+            { name: 'Y', shape: [n, f], split: 1 },
+          ],
+          weight: a,
+        },
+        {
+          title: 'Row-parallel GEMM: Z = Y·B',
+          description:
+            'B is split by rows to match Y’s columns, so no communication is needed between the GEMMs. Each GPU’s product is a partial sum of Z.',
+          tensors: [
+            { name: 'Y', shape: [n, f], split: 1 },
+            { name: 'B', shape: [f, h], split: 0 },
+            { name: 'Z', shape: full, partial: true },
+          ],
+          weight: b,
+        },
+        exit('Z'),
+      ]
+    }
+
+    return [
+      enterBackward('Z'),
+      {
+        title: 'Row-parallel backward',
+        description: 'dY = dZ·Bᵀ gives each GPU the gradient for its own FFN features; dB = Yᵀ·dZ is local to the shard.',
+        tensors: [{ name: 'dY', shape: [n, f], split: 1 }, { name: 'dB', shape: [f, h], split: 0 }],
+        weight: b,
+      },
+      {
+        title: 'GeLU backward',
+        description: 'Element-wise, so it stays on each GPU’s columns.',
+        tensors: [{ name: 'dY', shape: [n, f], split: 1 }],
+      },
+      ...regather,
+      {
+        title: 'Column-parallel backward',
+        description: 'dA = Xᵀ·dY is local to the shard; dX = dY·Aᵀ only covers this GPU’s columns, so it is a partial sum.',
+        tensors: [{ name: 'dA', shape: [h, f], split: 1 }, { name: 'dX', shape: full, partial: true }],
+        weight: a,
+      },
+      exitBackward,
+    ]
+  }
+
+  const localHeads = heads / t
+  const headDim = h / heads
+  const qkv: WeightSplit = { name: 'W_QKV', shape: [h, 3 * h], split: 'columns' }
+  const out: WeightSplit = { name: 'W_O', shape: [h, h], split: 'rows' }
+  const local = localHeads * headDim
+
+  if (pass === 'forward') {
+    return [
+      enter,
+      {
+        title: 'Column-parallel QKV projection',
+        description: `W_QKV is split by columns along head boundaries, so each GPU computes Q, K and V for ${localHeads} of the ${heads} heads.`,
+        tensors: [
+          { name: 'X', shape: full },
+          { name: 'W_QKV', shape: [h, 3 * local], split: 1 },
+          { name: 'Q, K, V', shape: [n, local], split: 1 },
+        ],
+        weight: qkv,
+      },
+      {
+        title: 'Attention on local heads',
+        description: `Heads are independent, so softmax(QKᵀ/√${headDim})·V runs entirely on each GPU for its ${localHeads} heads.`,
+        tensors: [
+          { name: 'Scores', shape: [b, localHeads, s, s], split: 1 },
+          { name: 'Context', shape: [n, local], split: 1 },
+        ],
+      },
+      {
+        title: 'Row-parallel output projection',
+        description: 'W_O is split by rows to match the context columns; each GPU’s product is a partial sum of the output.',
+        tensors: [
+          { name: 'Context', shape: [n, local], split: 1 },
+          { name: 'W_O', shape: [local, h], split: 0 },
+          { name: 'O', shape: full, partial: true },
+        ],
+        weight: out,
+      },
+      exit('O'),
+    ]
+  }
+
+  return [
+    enterBackward('O'),
+    {
+      title: 'Row-parallel backward',
+      description: 'dContext = dO·W_Oᵀ for the local heads; dW_O is local to the shard.',
+      tensors: [
+        { name: 'dContext', shape: [n, local], split: 1 },
+        { name: 'dW_O', shape: [local, h], split: 0 },
+      ],
+      weight: out,
+    },
+    {
+      title: 'Attention backward on local heads',
+      description: 'Gradients through softmax and the score GEMMs stay on each GPU’s heads.',
+      tensors: [{ name: 'dQ, dK, dV', shape: [n, local], split: 1 }],
+    },
+    ...regather,
+    {
+      title: 'Column-parallel backward',
+      description: 'dW_QKV = Xᵀ·d[Q K V] is local; dX = d[Q K V]·W_QKVᵀ only covers the local heads, so it is a partial sum.',
+      tensors: [
+        { name: 'dW_QKV', shape: [h, 3 * local], split: 1 },
+        { name: 'dX', shape: full, partial: true },
+      ],
+      weight: qkv,
+    },
+    exitBackward,
+  ]
+}
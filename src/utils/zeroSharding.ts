@@ -0,0 +1,80 @@
+export type ZeroStage = 0 | 1 | 2 | 3
+
+export type ZeroState = 'parameters' | 'gradients' | 'optimizer'
+
+export type ZeroCollective = 'all-reduce' | 'all-gather' | 'reduce-scatter'
+
+export interface ZeroOptions {
+  parameters: number
+  gpus: number // Data-parallel degree
+}
+
+export interface ZeroMemory {
+  parameters: number
+  gradients: number
+  optimizer: number
+  total: number
+}
+
+// One collective of a training step, with the bytes each GPU sends over a ring
+export interface ZeroTransfer {
+  collective: ZeroCollective
+  state: ZeroState
+  when: string
+  bytes: number
+}
+
+export const ZERO_PARAM_BYTES = 2 // BF16 weights and gradients
+export const ZERO_OPTIMIZER_BYTES = 12 // FP32 master weights, Adam momentum and variance
+
+export const zeroStageLabels: Record<ZeroStage, string> = {
+  0: 'Stage 0 · DDP (FSDP NO_SHARD)',
+  1: 'Stage 1 · optimizer states',
+  2: 'Stage 2 · + gradients (FSDP SHARD_GRAD_OP)',
+  3: 'Stage 3 · + parameters (FSDP FULL_SHARD)',
+}
+
+// The lowest stage at which each piece of training state is sharded
+export const zeroShardedFrom: Record<ZeroState, ZeroStage> = {
+  optimizer: 1,
+  gradients: 2,
+  parameters: 3,
+}
+
+export function isZeroSharded(state: ZeroState, stage: ZeroStage): boolean {
+  return stage >= zeroShardedFrom[state]
+}
+
+export function zeroMemory(stage: ZeroStage, { parameters, gpus }: ZeroOptions): ZeroMemory {
+  const share = (state: ZeroState) => (isZeroSharded(state, stage) ? 1 / gpus : 1)
+  const memory = {
+    parameters: parameters * ZERO_PARAM_BYTES * share('parameters'),
+    gradients: parameters * ZERO_PARAM_BYTES * share('gradients'),
+    optimizer: parameters * ZERO_OPTIMIZER_BYTES * share('optimizer'),
+    total: 0,
+  }
+  memory.total = memory.parameters + memory.gradients + memory.optimizer
+  return memory
+}
+
+// Collectives per training step, following the ZeRO paper (Rajbhandari et al., 2020)
+export function zeroTransfers(stage: ZeroStage, { parameters, gpus }: ZeroOptions): ZeroTransfer[] {
+  // Each GPU sends (gpus - 1) / gpus of the buffer in a ring all-gather or reduce-scatter
+  const pass = gpus > 1 ? (parameters * ZERO_PARAM_BYTES * (gpus - 1)) / gpus : 0
+
+  if (stage === 0) {
+    return [{ collective: 'all-reduce', state: 'gradients', when: 'After backward', bytes: 2 * pass }]
+  }
+  const update: ZeroTransfer[] = [
+    { collective: 'reduce-scatter', state: 'gradients', when: 'After backward', bytes: pass },
+    { collective: 'all-gather', state: 'parameters', when: 'After the optimizer step', bytes: pass },
+  ]
+  if (stage < 3) return update
+  // Stage 3 frees gathered weights after use, so they are gathered again for backward
+  // and there is no all-gather after the step: each GPU updates only its own shard
+  return [
+    { collective: 'all-gather', state: 'parameters', when: 'Before each layer’s forward', bytes: pass },
+    { collective: 'all-gather', state: 'parameters', when: 'Before each layer’s backward', bytes: pass },
+    { collective: 'reduce-scatter', state: 'gradients', when: 'During backward, per layer', bytes: pass },
+  ]
+}